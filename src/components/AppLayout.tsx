@@ -6,6 +6,8 @@ import { useUserRole } from '@/hooks/useUserRole';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { NotificationBell } from '@/components/NotificationBell';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import { ProjectSwitcher } from '@/components/ProjectSwitcher';
 import { 
   LayoutDashboard, 
   MessageSquare, 
@@ -15,8 +17,10 @@ import {
   Sun, 
   ListTodo,
   Calendar,
+  CalendarDays,
   FileText,
-  UserCircle
+  UserCircle,
+  Clock
 } from 'lucide-react';
 
 interface AppLayoutProps {
@@ -37,7 +41,9 @@ export const AppLayout = ({ children, hideNav = false }: AppLayoutProps) => {
     { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { path: '/chat', label: 'Chat', icon: MessageSquare },
     { path: '/meetings', label: 'Meetings', icon: FileText },
+    { path: '/calendar', label: 'Calendar', icon: CalendarDays },
     { path: '/availability', label: 'Availability', icon: Calendar },
+    { path: '/timesheet', label: 'Timesheet', icon: Clock },
   ];
 
   if (isAdmin) {
@@ -53,11 +59,14 @@ export const AppLayout = ({ children, hideNav = false }: AppLayoutProps) => {
       {/* Header */}
       <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
         <div className="container mx-auto px-4 py-3 flex items-center justify-between">
-          {/* Logo & Brand */}
-          <Link to="/dashboard" className="flex items-center gap-2">
-            <ListTodo className="h-6 w-6 text-primary" />
-            <span className="text-xl font-bold hidden sm:inline">TaskFlow</span>
-          </Link>
+          {/* Logo, Brand & Project */}
+          <div className="flex items-center gap-3">
+            <Link to="/dashboard" className="flex items-center gap-2">
+              <ListTodo className="h-6 w-6 text-primary" />
+              <span className="text-xl font-bold hidden sm:inline">TaskFlow</span>
+            </Link>
+            <ProjectSwitcher className="hidden md:inline-flex" />
+          </div>
 
           {/* Navigation */}
           <nav className="hidden md:flex items-center gap-1">
@@ -73,6 +82,7 @@ export const AppLayout = ({ children, hideNav = false }: AppLayoutProps) => {
                 {item.label}
               </Button>
             ))}
+            <SavedViewsMenu />
           </nav>
 
           {/* Right side */}
@@ -102,6 +112,7 @@ export const AppLayout = ({ children, hideNav = false }: AppLayoutProps) => {
         {/* Mobile Navigation */}
         <div className="md:hidden border-t border-border overflow-x-auto">
           <nav className="flex items-center gap-1 px-4 py-2">
+            <ProjectSwitcher className="shrink-0" />
             {navItems.map((item) => (
               <Button
                 key={item.path}
@@ -114,6 +125,7 @@ export const AppLayout = ({ children, hideNav = false }: AppLayoutProps) => {
                 {item.label}
               </Button>
             ))}
+            <SavedViewsMenu className="shrink-0" />
           </nav>
         </div>
       </header>
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock, Loader2, Trash2, X } from 'lucide-react';
+import { WorkflowStatus } from '@/lib/workflow';
+
+interface UserProfile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface BulkTaskActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  statuses: WorkflowStatus[];
+  isWorking: boolean;
+  onSelectAll: (selected: boolean) => void;
+  onStatusChange: (status: string) => void;
+  onPriorityChange: (priority: string) => void;
+  onReassign: (userId: string) => void;
+  onShiftDeadline: (days: number) => void;
+  onDelete: () => void;
+}
+
+const DEADLINE_SHIFTS = [-7, -1, 1, 7];
+
+export const BulkTaskActionBar = ({
+  selectedCount,
+  totalCount,
+  statuses,
+  isWorking,
+  onSelectAll,
+  onStatusChange,
+  onPriorityChange,
+  onReassign,
+  onShiftDeadline,
+  onDelete,
+}: BulkTaskActionBarProps) => {
+  const { toast } = useToast();
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [shiftOpen, setShiftOpen] = useState(false);
+  const [customShift, setCustomShift] = useState('');
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, email, full_name')
+          .order('full_name');
+
+        if (error) throw error;
+        setUsers(data || []);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load users',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    fetchUsers();
+  }, [toast]);
+
+  const shiftBy = (days: number) => {
+    if (!days) return;
+    onShiftDeadline(days);
+    setShiftOpen(false);
+    setCustomShift('');
+  };
+
+  const hasSelection = selectedCount > 0;
+  const disabled = !hasSelection || isWorking;
+
+  return (
+    <Card className="mb-4 border-primary/40 sticky top-20 z-40 bg-card/95 backdrop-blur-sm">
+      <CardContent className="p-3 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-2">
+          <Checkbox
+            checked={selectedCount === 0 ? false : selectedCount === totalCount ? true : 'indeterminate'}
+            onCheckedChange={(checked) => onSelectAll(checked === true)}
+            aria-label="Select all tasks"
+          />
+          <span className="text-sm font-medium whitespace-nowrap">
+            {hasSelection ? `${selectedCount} of ${totalCount} selected` : `Select tasks (${totalCount})`}
+          </span>
+          {isWorking && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+        </div>
+
+        {/* Selects are reset after each action so the same value can be applied again */}
+        <Select value="" onValueChange={onStatusChange} disabled={disabled}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map(status => (
+              <SelectItem key={status.key} value={status.key}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={onPriorityChange} disabled={disabled}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="low">Low</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={onReassign} disabled={disabled}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue placeholder="Reassign to..." />
+          </SelectTrigger>
+          <SelectContent>
+            {users.map(u => (
+              <SelectItem key={u.id} value={u.id}>
+                {u.full_name || u.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover open={shiftOpen} onOpenChange={setShiftOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 text-xs" disabled={disabled}>
+              <CalendarClock className="mr-1 h-4 w-4" />
+              Shift deadline
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 space-y-3" align="start">
+            <div className="grid grid-cols-4 gap-1">
+              {DEADLINE_SHIFTS.map(days => (
+                <Button key={days} variant="outline" size="sm" className="h-7 text-xs" onClick={() => shiftBy(days)}>
+                  {days > 0 ? `+${days}d` : `${days}d`}
+                </Button>
+              ))}
+            </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                shiftBy(parseInt(customShift, 10));
+              }}
+            >
+              <Input
+                type="number"
+                placeholder="Days (e.g. -3)"
+                value={customShift}
+                onChange={(e) => setCustomShift(e.target.value)}
+                className="h-8"
+              />
+              <Button type="submit" size="sm" className="h-8" disabled={!parseInt(customShift, 10)}>
+                Apply
+              </Button>
+            </form>
+            <p className="text-xs text-muted-foreground">Tasks without a deadline are left unchanged.</p>
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="outline" size="sm" className="h-8 text-xs text-destructive" onClick={onDelete} disabled={disabled}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+
+        {hasSelection && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs ml-auto" onClick={() => onSelectAll(false)}>
+            <X className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+import { ListTodo, Video } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CalendarEvent, CalendarViewMode, getEventsForDay, getVisibleDays } from '@/lib/calendar';
+
+interface CalendarGridProps {
+  view: CalendarViewMode;
+  date: Date;
+  events: CalendarEvent[];
+  onReschedule: (taskId: string, day: Date, hour?: number) => void;
+  onSelectDay: (day: Date) => void;
+  onOpenEvent: (event: CalendarEvent) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MONTH_EVENT_LIMIT = 3;
+// Working hours are in view when the week or day grid opens
+const INITIAL_SCROLL_HOUR = 8;
+
+const getSlotKey = (day: Date, hour?: number) => `${format(day, 'yyyy-MM-dd')}-${hour ?? 'day'}`;
+
+export const CalendarGrid = ({ view, date, events, onReschedule, onSelectDay, onOpenEvent }: CalendarGridProps) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropSlot, setDropSlot] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const days = getVisibleDays(view, date);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    const row = container?.querySelector<HTMLElement>(`[data-hour="${INITIAL_SCROLL_HOUR}"]`);
+    if (container && row) container.scrollTop = row.offsetTop;
+  }, [view]);
+
+  const dropHandlers = (day: Date, hour?: number) => {
+    const key = getSlotKey(day, hour);
+    return {
+      onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropSlot !== key) setDropSlot(key);
+      },
+      onDragLeave: (e: React.DragEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropSlot(null);
+      },
+      onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const taskId = draggingId;
+        setDraggingId(null);
+        setDropSlot(null);
+        if (taskId) onReschedule(taskId, day, hour);
+      },
+    };
+  };
+
+  const renderEvent = (event: CalendarEvent, compact = false) => {
+    const draggable = event.kind === 'task' && event.editable;
+    const isCompleted = event.kind === 'task' && event.status === 'completed';
+    const Icon = event.kind === 'task' ? ListTodo : Video;
+
+    return (
+      <button
+        key={`${event.kind}-${event.id}`}
+        type="button"
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', event.id);
+          setDraggingId(event.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropSlot(null);
+        }}
+        onClick={() => onOpenEvent(event)}
+        className={cn(
+          'w-full flex items-center gap-1 rounded px-1.5 py-0.5 text-left text-xs border-l-2 truncate transition-colors',
+          event.kind === 'meeting'
+            ? 'bg-primary/10 border-primary hover:bg-primary/20'
+            : 'bg-muted hover:bg-muted/70',
+          event.kind === 'task' && event.priority === 'high' && 'border-destructive',
+          event.kind === 'task' && event.priority === 'medium' && 'border-warning',
+          event.kind === 'task' && event.priority === 'low' && 'border-muted-foreground/40',
+          draggable && 'cursor-grab active:cursor-grabbing',
+          draggingId === event.id && 'opacity-50'
+        )}
+        title={`${event.title} • ${format(event.start, 'h:mm a')}`}
+      >
+        <Icon className="h-3 w-3 shrink-0" />
+        {!compact && <span className="shrink-0 text-muted-foreground">{format(event.start, 'h:mm a')}</span>}
+        <span className={cn('truncate', isCompleted && 'line-through text-muted-foreground')}>{event.title}</span>
+      </button>
+    );
+  };
+
+  if (view === 'month') {
+    return (
+      <div className="rounded-lg border overflow-hidden">
+        <div className="grid grid-cols-7 border-b bg-muted/40">
+          {days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dayEvents = getEventsForDay(events, day);
+            const key = getSlotKey(day);
+            return (
+              <div
+                key={key}
+                {...dropHandlers(day)}
+                className={cn(
+                  'min-h-[110px] border-b border-r p-1 space-y-1 transition-colors',
+                  !isSameMonth(day, date) && 'bg-muted/20 text-muted-foreground',
+                  dropSlot === key && 'bg-primary/10'
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelectDay(day)}
+                  className={cn(
+                    'flex h-6 w-6 items-center justify-center rounded-full text-xs hover:bg-accent',
+                    isToday(day) && 'bg-primary text-primary-foreground hover:bg-primary/90'
+                  )}
+                >
+                  {format(day, 'd')}
+                </button>
+                {dayEvents.slice(0, MONTH_EVENT_LIMIT).map(event => renderEvent(event, true))}
+                {dayEvents.length > MONTH_EVENT_LIMIT && (
+                  <button
+                    type="button"
+                    onClick={() => onSelectDay(day)}
+                    className="w-full text-left px-1.5 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    +{dayEvents.length - MONTH_EVENT_LIMIT} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const gridTemplate = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="rounded-lg border overflow-hidden">
+      <div className="grid border-b bg-muted/40" style={gridTemplate}>
+        <div />
+        {days.map(day => (
+          <button
+            key={day.toISOString()}
+            type="button"
+            onClick={() => onSelectDay(day)}
+            className={cn(
+              'px-2 py-1.5 text-xs font-medium text-left hover:bg-accent',
+              isToday(day) ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            {format(day, view === 'day' ? 'EEEE, MMM d' : 'EEE d')}
+          </button>
+        ))}
+      </div>
+      <div ref={scrollRef} className="max-h-[640px] overflow-y-auto relative">
+        {HOURS.map(hour => (
+          <div key={hour} data-hour={hour} className="grid border-b" style={gridTemplate}>
+            <div className="px-2 py-1 text-[0.7rem] text-muted-foreground border-r">
+              {format(new Date(2000, 0, 1, hour), 'h a')}
+            </div>
+            {days.map(day => {
+              const key = getSlotKey(day, hour);
+              const slotEvents = getEventsForDay(events, day).filter(e => e.start.getHours() === hour);
+              return (
+                <div
+                  key={key}
+                  {...dropHandlers(day, hour)}
+                  className={cn(
+                    'min-h-[3rem] border-r p-0.5 space-y-0.5 transition-colors',
+                    isSameDay(day, new Date()) && 'bg-primary/[0.03]',
+                    dropSlot === key && 'bg-primary/10'
+                  )}
+                >
+                  {slotEvents.map(event => renderEvent(event, view === 'week'))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
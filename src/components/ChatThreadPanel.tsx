@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ChatMessage } from '@/hooks/useChat';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { FileIcon, Loader2, MessageSquare, Send, X } from 'lucide-react';
+
+interface ChatThreadPanelProps {
+  root: ChatMessage;
+  replies: ChatMessage[];
+  getAuthor: (message: ChatMessage) => { name: string; avatar_url?: string | null };
+  onSend: (text: string) => Promise<void>;
+  onClose: () => void;
+  onOpenImage: (url: string) => void;
+  onOpenFile: (url: string, name?: string, type?: string) => void;
+  sending?: boolean;
+}
+
+export const ChatThreadPanel = ({
+  root,
+  replies,
+  getAuthor,
+  onSend,
+  onClose,
+  onOpenImage,
+  onOpenFile,
+  sending = false,
+}: ChatThreadPanelProps) => {
+  const [reply, setReply] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length]);
+
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    const text = reply;
+    setReply('');
+    await onSend(text);
+  };
+
+  const renderMessage = (message: ChatMessage) => {
+    const author = getAuthor(message);
+    return (
+      <div key={message.id} className="flex gap-3">
+        <Avatar className="h-8 w-8 shrink-0">
+          <AvatarImage src={author.avatar_url || undefined} />
+          <AvatarFallback className="bg-muted text-muted-foreground">{author.name[0]?.toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-baseline gap-2">
+            <span className="text-sm font-semibold truncate">{author.name}</span>
+            <span className="text-[11px] text-muted-foreground shrink-0">
+              {format(new Date(message.created_at), 'MMM d, hh:mm a')}
+              {message.edited_at && ' (edited)'}
+            </span>
+          </div>
+          {message.file_url && (
+            message.file_type?.startsWith('image/') ? (
+              <button type="button" onClick={() => onOpenImage(message.file_url!)} className="block mt-1">
+                <img
+                  src={message.file_url}
+                  alt="attachment"
+                  className="max-h-40 rounded-md object-cover"
+                  onContextMenu={(e) => e.preventDefault()}
+                  draggable={false}
+                />
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onOpenFile(message.file_url!, message.file_name || undefined, message.file_type || undefined)}
+                className="flex items-center gap-2 mt-1 p-2 rounded-md bg-muted text-sm w-full"
+              >
+                <FileIcon className="h-4 w-4 shrink-0" />
+                <span className="truncate">{message.file_name || 'File'}</span>
+              </button>
+            )
+          )}
+          {message.message && !message.message.startsWith('Sent a file:') && (
+            <p className="text-sm whitespace-pre-wrap break-words">{message.message}</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-border flex items-center justify-between shrink-0">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Thread
+        </h3>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {renderMessage(root)}
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</span>
+            <div className="flex-1 h-px bg-border" />
+          </div>
+          {replies.map(renderMessage)}
+          <div ref={endRef} />
+        </div>
+      </ScrollArea>
+
+      <div className="p-4 border-t border-border flex items-end gap-2 shrink-0">
+        <Textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Reply in thread..."
+          className="min-h-[40px] max-h-[120px] resize-none text-sm"
+        />
+        <Button
+          onClick={handleSend}
+          disabled={sending || !reply.trim()}
+          className="shrink-0 h-10 w-10 rounded-[10px] p-0"
+        >
+          {sending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -49,13 +49,39 @@ const availableTimezones: WorldClock[] = [
 
 const STORAGE_KEY = 'user_world_clocks';
 
-export const ClockCalendarWidget = () => {
+interface ClockCalendarWidgetProps {
+  // Lets a page drive the calendar tab, e.g. to use it as a date picker for another view
+  selectedDate?: Date;
+  onSelectDate?: (date: Date) => void;
+  // Days highlighted with a dot in the calendar tab
+  markedDates?: Date[];
+  defaultTab?: 'local' | 'world' | 'calendar';
+}
+
+export const ClockCalendarWidget = ({
+  selectedDate: controlledDate,
+  onSelectDate,
+  markedDates = [],
+  defaultTab = 'local',
+}: ClockCalendarWidgetProps = {}) => {
   const [localTime, setLocalTime] = useState(new Date());
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+  const [internalDate, setInternalDate] = useState<Date | undefined>(new Date());
+  const selectedDate = controlledDate ?? internalDate;
+  const [visibleMonth, setVisibleMonth] = useState<Date | undefined>(selectedDate);
   const [userClocks, setUserClocks] = useState<WorldClock[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
 
+  // Follow the page when it moves to a date in another month
+  useEffect(() => {
+    if (controlledDate) setVisibleMonth(controlledDate);
+  }, [controlledDate]);
+
+  const handleSelectDate = (date: Date | undefined) => {
+    setInternalDate(date);
+    if (date) onSelectDate?.(date);
+  };
+
   // Load saved clocks from localStorage
   useEffect(() => {
     const saved = localStorage.getItem(STORAGE_KEY);
@@ -138,7 +164,7 @@ export const ClockCalendarWidget = () => {
         </CardTitle>
       </CardHeader>
       <CardContent className="p-4">
-        <Tabs defaultValue="local" className="w-full">
+        <Tabs defaultValue={defaultTab} className="w-full">
           <TabsList className="grid w-full grid-cols-3 bg-muted/50 p-1 rounded-xl">
             <TabsTrigger 
               value="local" 
@@ -293,7 +319,13 @@ export const ClockCalendarWidget = () => {
                 <Calendar
                   mode="single"
                   selected={selectedDate}
-                  onSelect={setSelectedDate}
+                  onSelect={handleSelectDate}
+                  month={visibleMonth}
+                  onMonthChange={setVisibleMonth}
+                  modifiers={{ marked: markedDates }}
+                  modifiersClassNames={{
+                    marked: 'relative after:absolute after:bottom-1 after:left-1/2 after:-translate-x-1/2 after:h-1 after:w-1 after:rounded-full after:bg-primary',
+                  }}
                   className="rounded-lg pointer-events-auto [&_.rdp-day_button]:rounded-lg [&_.rdp-day_button.rdp-day_selected]:bg-primary [&_.rdp-day_button.rdp-day_selected]:text-primary-foreground"
                 />
                 {selectedDate && (
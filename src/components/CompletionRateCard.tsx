@@ -1,7 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { TrendingUp, TrendingDown, Minus, Target, CheckCircle2 } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, Target, CheckCircle2, ListChecks } from 'lucide-react';
 
 interface CompletionRateCardProps {
   userName: string;
@@ -10,6 +10,7 @@ interface CompletionRateCardProps {
   completedTasks: number;
   inProgressTasks: number;
   pendingTasks: number;
+  checklistCompletionRate?: number;
 }
 
 export const CompletionRateCard = ({
@@ -18,6 +19,7 @@ export const CompletionRateCard = ({
   completedTasks,
   inProgressTasks,
   pendingTasks,
+  checklistCompletionRate,
 }: CompletionRateCardProps) => {
   const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
   const inProgressRate = totalTasks > 0 ? Math.round((inProgressTasks / totalTasks) * 100) : 0;
@@ -76,6 +78,20 @@ export const CompletionRateCard = ({
           </p>
         </div>
 
+        {/* Completion including partial checklist progress on open tasks */}
+        {checklistCompletionRate !== undefined && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <ListChecks className="h-3 w-3" />
+                Including checklists
+              </span>
+              <span className="font-medium">{checklistCompletionRate}%</span>
+            </div>
+            <Progress value={checklistCompletionRate} className="h-1.5" />
+          </div>
+        )}
+
         {/* Task breakdown */}
         <div className="grid grid-cols-3 gap-2 pt-3 border-t">
           <div className="text-center space-y-1">
@@ -0,0 +1,116 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hash, ShieldCheck, ShieldOff, UserMinus, Users } from 'lucide-react';
+import { ChatConversation, ConversationMember, ConversationRole } from '@/lib/chatConversations';
+
+interface ChatUserOption {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface ConversationMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: ChatConversation;
+  members: ConversationMember[];
+  users: ChatUserOption[];
+  currentUserId: string | undefined;
+  onAddMember: (userId: string) => void;
+  onRemoveMember: (userId: string) => void;
+  onSetRole: (userId: string, role: ConversationRole) => void;
+}
+
+export const ConversationMembersDialog = ({
+  open,
+  onOpenChange,
+  conversation,
+  members,
+  users,
+  currentUserId,
+  onAddMember,
+  onRemoveMember,
+  onSetRole,
+}: ConversationMembersDialogProps) => {
+  const isAdmin = conversation.role === 'admin';
+  const nonMembers = users.filter(u => !members.some(m => m.user_id === u.id));
+  const Icon = conversation.kind === 'channel' ? Hash : Users;
+
+  const getName = (member: ConversationMember) =>
+    member.profile?.full_name || member.profile?.email || 'Unknown User';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon className="h-5 w-5" />
+            {conversation.name}
+          </DialogTitle>
+          <DialogDescription>
+            {conversation.description || `${members.length} ${members.length === 1 ? 'member' : 'members'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAdmin && (
+          <Select value="" onValueChange={onAddMember} disabled={nonMembers.length === 0}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Add a member..." />
+            </SelectTrigger>
+            <SelectContent>
+              {nonMembers.map(u => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.full_name || u.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <ScrollArea className="max-h-80 -mx-6 px-6">
+          <div className="space-y-1">
+            {members.map(member => (
+              <div key={member.user_id} className="flex items-center gap-3 p-2 rounded-md hover:bg-muted">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={member.profile?.avatar_url || undefined} />
+                  <AvatarFallback>{getName(member)[0]?.toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="flex-1 truncate text-sm">
+                  {getName(member)}
+                  {member.user_id === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                {member.role === 'admin' && <Badge variant="secondary">Admin</Badge>}
+                {isAdmin && member.user_id !== currentUserId && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title={member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                      onClick={() => onSetRole(member.user_id, member.role === 'admin' ? 'member' : 'admin')}
+                    >
+                      {member.role === 'admin' ? <ShieldOff className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Remove from conversation"
+                      onClick={() => onRemoveMember(member.user_id)}
+                    >
+                      <UserMinus className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
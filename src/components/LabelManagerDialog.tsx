@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useLabels } from '@/hooks/useLabels';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Loader2, Plus, Tags, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Label, LABEL_COLORS, normalizeLabelName } from '@/lib/labels';
+
+interface LabelManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ColorSwatchPicker = ({ value, onChange }: { value: string; onChange: (color: string) => void }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <button
+        type="button"
+        className="h-6 w-6 rounded-full border shrink-0"
+        style={{ backgroundColor: value }}
+        aria-label="Change color"
+      />
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-2" align="start">
+      <div className="grid grid-cols-5 gap-1.5">
+        {LABEL_COLORS.map(color => (
+          <button
+            key={color}
+            type="button"
+            className={cn('h-6 w-6 rounded-full border', color === value && 'ring-2 ring-offset-1 ring-primary')}
+            style={{ backgroundColor: color }}
+            onClick={() => onChange(color)}
+            aria-label={color}
+          />
+        ))}
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+export const LabelManagerDialog = ({ open, onOpenChange }: LabelManagerDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { labels, refetch } = useLabels();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(LABEL_COLORS[5]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateLabel = async (label: Label, changes: Partial<Pick<Label, 'name' | 'color' | 'is_managed'>>) => {
+    try {
+      const { error } = await supabase
+        .from('labels')
+        .update(changes)
+        .eq('id', label.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating label:', error);
+      toast({
+        title: 'Error',
+        description: (error as { code?: string }).code === '23505'
+          ? 'A label with that name already exists'
+          : 'Failed to update label',
+        variant: 'destructive',
+      });
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = normalizeLabelName(newName);
+    if (!name || !user) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('labels')
+        .insert({ name, color: newColor, is_managed: true, created_by: user.id });
+
+      if (error) throw error;
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating label:', error);
+      toast({
+        title: 'Error',
+        description: (error as { code?: string }).code === '23505'
+          ? 'A label with that name already exists'
+          : 'Failed to create label',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleDelete = async (label: Label) => {
+    try {
+      const { error } = await supabase
+        .from('labels')
+        .delete()
+        .eq('id', label.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Label deleted',
+        description: `"${label.name}" was removed from all tasks`,
+      });
+    } catch (error) {
+      console.error('Error deleting label:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete label',
+        variant: 'destructive',
+      });
+    } finally {
+      refetch();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Labels
+          </DialogTitle>
+          <DialogDescription>
+            Vocabulary labels are suggested to everyone. Free tags are created by users while tagging tasks
+            and can be promoted to the vocabulary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <ColorSwatchPicker value={newColor} onChange={setNewColor} />
+          <Input
+            placeholder="New label, e.g. Bug"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            maxLength={40}
+            disabled={isSaving}
+            className="h-8"
+          />
+          <Button type="button" size="sm" onClick={handleAdd} disabled={isSaving || !normalizeLabelName(newName)}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          {labels.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No labels yet</p>
+          ) : (
+            labels.map(label => (
+              <div key={label.id} className="flex items-center gap-2">
+                <ColorSwatchPicker value={label.color} onChange={(color) => updateLabel(label, { color })} />
+                <Input
+                  key={label.name}
+                  defaultValue={label.name}
+                  onBlur={(e) => {
+                    const name = normalizeLabelName(e.target.value);
+                    if (name && name !== label.name) updateLabel(label, { name });
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  maxLength={40}
+                  className="h-8"
+                />
+                <div className="flex items-center gap-1.5 shrink-0" title="Part of the vocabulary">
+                  <Switch
+                    checked={label.is_managed}
+                    onCheckedChange={(checked) => updateLabel(label, { is_managed: checked })}
+                  />
+                  <span className="text-xs text-muted-foreground w-14">
+                    {label.is_managed ? 'Label' : 'Free tag'}
+                  </span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleDelete(label)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
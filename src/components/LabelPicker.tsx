@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label as FormLabel } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Check, Plus, Tag, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLabels } from '@/hooks/useLabels';
+import { getLabelTextColor, Label, normalizeLabelName } from '@/lib/labels';
+
+interface LabelBadgeProps {
+  label: Label;
+  count?: number;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export const LabelBadge = ({ label, count, onRemove, className }: LabelBadgeProps) => (
+  <span
+    className={cn(
+      'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+      !label.is_managed && 'border border-dashed',
+      className
+    )}
+    style={{
+      backgroundColor: label.is_managed ? label.color : 'transparent',
+      color: label.is_managed ? getLabelTextColor(label.color) : label.color,
+      borderColor: label.is_managed ? undefined : label.color,
+    }}
+  >
+    {!label.is_managed && '#'}
+    {label.name}
+    {count !== undefined && <span className="opacity-70">{count}</span>}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="rounded-full opacity-70 hover:opacity-100"
+        aria-label={`Remove ${label.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+interface LabelPickerProps {
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export const LabelPicker = ({ value, onChange, disabled }: LabelPickerProps) => {
+  const { labels, createTag } = useLabels();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const selected = labels.filter(l => value.includes(l.id));
+  const managed = labels.filter(l => l.is_managed);
+  const tags = labels.filter(l => !l.is_managed);
+  const searchName = normalizeLabelName(search);
+  const hasExactMatch = labels.some(l => l.name.toLowerCase() === searchName.toLowerCase());
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter(id => id !== labelId) : [...value, labelId]);
+  };
+
+  const handleCreate = async () => {
+    const tag = await createTag(searchName);
+    if (tag && !value.includes(tag.id)) {
+      onChange([...value, tag.id]);
+    }
+    setSearch('');
+  };
+
+  const renderItem = (label: Label) => (
+    <CommandItem key={label.id} value={label.name} onSelect={() => toggle(label.id)}>
+      <Check className={cn('mr-2 h-4 w-4', value.includes(label.id) ? 'opacity-100' : 'opacity-0')} />
+      <span className="h-3 w-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: label.color }} />
+      {label.name}
+    </CommandItem>
+  );
+
+  return (
+    <div className="space-y-2">
+      <FormLabel className="flex items-center gap-2">
+        <Tag className="h-4 w-4" />
+        Labels
+      </FormLabel>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {selected.map(label => (
+          <LabelBadge
+            key={label.id}
+            label={label}
+            onRemove={disabled ? undefined : () => toggle(label.id)}
+          />
+        ))}
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={disabled}>
+              <Plus className="mr-1 h-3 w-3" />
+              {selected.length === 0 ? 'Add label' : 'Edit'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-0" align="start">
+            <Command>
+              <CommandInput
+                placeholder="Search or create a tag..."
+                value={search}
+                onValueChange={setSearch}
+                maxLength={40}
+              />
+              <CommandList>
+                {!searchName || hasExactMatch ? <CommandEmpty>No labels found.</CommandEmpty> : null}
+                {managed.length > 0 && (
+                  <CommandGroup heading="Labels">{managed.map(renderItem)}</CommandGroup>
+                )}
+                {tags.length > 0 && (
+                  <CommandGroup heading="Tags">{tags.map(renderItem)}</CommandGroup>
+                )}
+                {searchName && !hasExactMatch && (
+                  <CommandGroup forceMount>
+                    <CommandItem value={`create-${searchName}`} onSelect={handleCreate} forceMount>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Create tag "{searchName}"
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MessageRevision {
+  id: string;
+  message: string;
+  written_at: string;
+}
+
+interface MessageHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  message: {
+    id: string;
+    message: string;
+    edited_at?: string | null;
+  } | null;
+}
+
+export const MessageHistoryDialog = ({ open, onOpenChange, message }: MessageHistoryDialogProps) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const messageId = message?.id;
+  const editedAt = message?.edited_at;
+
+  useEffect(() => {
+    if (open && messageId) {
+      fetchRevisions(messageId);
+    }
+  }, [open, messageId, editedAt]);
+
+  const fetchRevisions = async (messageId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('chat_message_revisions')
+        .select('id, message, written_at')
+        .eq('message_id', messageId)
+        .order('written_at', { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+    } catch (error) {
+      console.error('Error fetching message history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Edit History
+          </DialogTitle>
+          <DialogDescription>Every version of this message, newest first</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : message && (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            <li className="ml-5">
+              <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">Current</Badge>
+                {message.edited_at && (
+                  <time className="text-[11px] text-muted-foreground">{format(new Date(message.edited_at), 'PPP p')}</time>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap mt-1">{message.message}</p>
+            </li>
+            {revisions.map((revision) => (
+              <li key={revision.id} className="ml-5">
+                <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-muted-foreground/40" />
+                <time className="text-[11px] text-muted-foreground">{format(new Date(revision.written_at), 'PPP p')}</time>
+                <p className="text-sm whitespace-pre-wrap mt-1 text-muted-foreground">{revision.message}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
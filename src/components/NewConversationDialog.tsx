@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { startOfDay } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hash, Loader2, Users } from 'lucide-react';
+import { ConversationKind, ConversationScope, NewConversation } from '@/lib/chatConversations';
+
+interface ChatUserOption {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+interface NewConversationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  users: ChatUserOption[];
+  onCreate: (conversation: NewConversation) => Promise<string | null>;
+}
+
+type ScopeType = ConversationScope['type'];
+
+export const NewConversationDialog = ({ open, onOpenChange, users, onCreate }: NewConversationDialogProps) => {
+  const { user } = useAuth();
+  const { projects } = useProject();
+  const [kind, setKind] = useState<ConversationKind>('group');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scopeType, setScopeType] = useState<ScopeType>('everyone');
+  const [scopeId, setScopeId] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [teams, setTeams] = useState<ScopeOption[]>([]);
+  const [meetings, setMeetings] = useState<ScopeOption[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setKind('group');
+      setName('');
+      setDescription('');
+      setScopeType('everyone');
+      setScopeId('');
+      setMemberIds([]);
+      setMemberSearch('');
+    }
+  }, [open]);
+
+  // Channels can only be opened in teams and projects the user belongs to, and upcoming meetings
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const fetchScopes = async () => {
+      try {
+        const [teamsResult, meetingsResult] = await Promise.all([
+          supabase
+            .from('user_group_members')
+            .select('user_groups (id, name)')
+            .eq('user_id', user.id),
+          supabase
+            .from('meetings')
+            .select('id, title')
+            .gte('meeting_date', startOfDay(new Date()).toISOString())
+            .order('meeting_date')
+            .limit(50),
+        ]);
+
+        if (teamsResult.error) throw teamsResult.error;
+        if (meetingsResult.error) throw meetingsResult.error;
+
+        setTeams(
+          (teamsResult.data || [])
+            .flatMap(row => (row.user_groups ? [row.user_groups] : []))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setMeetings((meetingsResult.data || []).map(m => ({ id: m.id, name: m.title })));
+      } catch (error) {
+        console.error('Error fetching channel scopes:', error);
+      }
+    };
+
+    fetchScopes();
+  }, [open, user]);
+
+  const scopeOptions: Record<Exclude<ScopeType, 'everyone'>, ScopeOption[]> = {
+    team: teams,
+    project: projects.map(p => ({ id: p.id, name: p.name })),
+    meeting: meetings,
+  };
+
+  const scope: ConversationScope | null = kind === 'group' || scopeType === 'everyone'
+    ? { type: 'everyone' }
+    : scopeId
+      ? { type: scopeType, id: scopeId }
+      : null;
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const canSubmit = !!name.trim() && !!scope && (kind === 'channel' || memberIds.length > 0);
+
+  const handleCreate = async () => {
+    if (!canSubmit || !scope) return;
+    setIsSaving(true);
+    const id = await onCreate({ kind, name, description, scope, memberIds });
+    setIsSaving(false);
+    if (id) onOpenChange(false);
+  };
+
+  const filteredUsers = users.filter(u =>
+    (u.full_name || u.email).toLowerCase().includes(memberSearch.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>New conversation</DialogTitle>
+          <DialogDescription>
+            Groups are private to the people you add. Channels can be joined by everyone in their team,
+            project or meeting.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={kind} onValueChange={(value) => setKind(value as ConversationKind)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="group" className="gap-2">
+              <Users className="h-4 w-4" /> Group
+            </TabsTrigger>
+            <TabsTrigger value="channel" className="gap-2">
+              <Hash className="h-4 w-4" /> Channel
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="conversation-name">Name</Label>
+            <Input
+              id="conversation-name"
+              placeholder={kind === 'channel' ? 'e.g. release-planning' : 'e.g. Launch crew'}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="conversation-description">Description</Label>
+            <Input
+              id="conversation-description"
+              placeholder="What is this conversation about? (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {kind === 'channel' && (
+            <div className="space-y-2">
+              <Label>Open to</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={scopeType}
+                  onValueChange={(value: ScopeType) => {
+                    setScopeType(value);
+                    setScopeId('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="everyone">Everyone</SelectItem>
+                    <SelectItem value="team">A team</SelectItem>
+                    <SelectItem value="project">A project</SelectItem>
+                    <SelectItem value="meeting">A meeting</SelectItem>
+                  </SelectContent>
+                </Select>
+                {scopeType !== 'everyone' && (
+                  <Select value={scopeId} onValueChange={setScopeId} disabled={scopeOptions[scopeType].length === 0}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={scopeOptions[scopeType].length === 0 ? 'None available' : 'Choose...'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scopeOptions[scopeType].map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{kind === 'channel' ? 'Invite people (optional)' : 'Members'}</Label>
+            <Input
+              placeholder="Search people..."
+              value={memberSearch}
+              onChange={(e) => setMemberSearch(e.target.value)}
+              className="h-8"
+            />
+            <ScrollArea className="h-44 rounded-md border">
+              <div className="p-2 space-y-1">
+                {filteredUsers.map(u => (
+                  <label
+                    key={u.id}
+                    htmlFor={`member-${u.id}`}
+                    className="flex items-center gap-2 p-1.5 rounded-md hover:bg-muted cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      id={`member-${u.id}`}
+                      checked={memberIds.includes(u.id)}
+                      onCheckedChange={() => toggleMember(u.id)}
+                    />
+                    <span className="truncate">{u.full_name || u.email}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={!canSubmit || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create {kind}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
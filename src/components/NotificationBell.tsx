@@ -23,6 +23,10 @@ export const NotificationBell = () => {
         return '✨';
       case 'task_completed':
         return '✅';
+      case 'task_comment':
+        return '💬';
+      case 'task_mention':
+        return '📣';
       default:
         return '🔔';
     }
@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Loader2 } from 'lucide-react';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DigestFrequency,
+  getBrowserTimezone,
+  NOTIFICATION_TYPES,
+  NotificationDelivery,
+  NotificationPreferences,
+  REMINDER_LEAD_TIMES,
+} from '@/lib/notificationPreferences';
+
+export const NotificationPreferencesCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [leadMinutes, setLeadMinutes] = useState<number | null>(null);
+  // The personal reminder rule as last saved
+  const [leadRule, setLeadRule] = useState<{ id: string; offset_minutes: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      if (!user) return;
+      try {
+        const [{ data, error }, { data: rules, error: rulesError }] = await Promise.all([
+          supabase
+            .from('notification_preferences')
+            .select('muted_types, quiet_hours_start, quiet_hours_end, timezone, delivery, digest_frequency')
+            .eq('user_id', user.id)
+            .maybeSingle(),
+          supabase
+            .from('reminder_rules')
+            .select('id, offset_minutes')
+            .eq('user_id', user.id)
+            .order('offset_minutes', { ascending: false })
+            .limit(1),
+        ]);
+
+        if (error) throw error;
+        if (rulesError) throw rulesError;
+
+        if (data) {
+          setPreferences({
+            ...data,
+            // Postgres returns HH:MM:SS, the time inputs work with HH:MM
+            quiet_hours_start: data.quiet_hours_start?.slice(0, 5) ?? null,
+            quiet_hours_end: data.quiet_hours_end?.slice(0, 5) ?? null,
+            delivery: data.delivery as NotificationDelivery,
+            digest_frequency: data.digest_frequency as DigestFrequency,
+          });
+        }
+        setLeadRule(rules?.[0] ?? null);
+        setLeadMinutes(rules?.[0]?.offset_minutes ?? null);
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreferences();
+  }, [user]);
+
+  const toggleType = (type: string, enabled: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      muted_types: enabled
+        ? prev.muted_types.filter(t => t !== type)
+        : [...prev.muted_types, type],
+    }));
+  };
+
+  const quietHoursEnabled = preferences.quiet_hours_start !== null;
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: user.id,
+          ...preferences,
+          // Quiet hours follow wherever the user last saved their settings
+          timezone: getBrowserTimezone(),
+        });
+
+      if (error) throw error;
+
+      // A personal lead time replaces the team reminder schedule. The rule is changed in place
+      // so reminders already sent for it (task_reminders) are not sent again.
+      if (leadMinutes !== (leadRule?.offset_minutes ?? null)) {
+        if (leadMinutes === null) {
+          const { error: deleteError } = await supabase
+            .from('reminder_rules')
+            .delete()
+            .eq('user_id', user.id);
+
+          if (deleteError) throw deleteError;
+          setLeadRule(null);
+        } else {
+          const { data: rule, error: ruleError } = leadRule
+            ? await supabase
+                .from('reminder_rules')
+                .update({ offset_minutes: leadMinutes })
+                .eq('id', leadRule.id)
+                .select('id, offset_minutes')
+                .single()
+            : await supabase
+                .from('reminder_rules')
+                .insert({ kind: 'reminder', offset_minutes: leadMinutes, user_id: user.id, created_by: user.id })
+                .select('id, offset_minutes')
+                .single();
+
+          if (ruleError) throw ruleError;
+          setLeadRule(rule);
+        }
+      }
+
+      toast({ title: 'Notifications updated', description: 'Your notification preferences have been saved.' });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast({ title: 'Error', description: 'Failed to save notification preferences.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>Choose what you're notified about and when</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+                <div key={type} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`notify-${type}`}>{label}</Label>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                  <Switch
+                    id={`notify-${type}`}
+                    checked={!preferences.muted_types.includes(type)}
+                    onCheckedChange={(checked) => toggleType(type, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Deadline reminders</Label>
+              <Select
+                value={leadMinutes === null ? 'team' : String(leadMinutes)}
+                onValueChange={(value) => setLeadMinutes(value === 'team' ? null : Number(value))}
+                disabled={preferences.muted_types.includes('deadline_reminder')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMINDER_LEAD_TIMES.map(({ minutes, label }) => (
+                    <SelectItem key={label} value={minutes === null ? 'team' : String(minutes)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Delivery</Label>
+              <Select
+                value={preferences.delivery}
+                onValueChange={(value: NotificationDelivery) => setPreferences({
+                  ...preferences,
+                  delivery: value,
+                  // Quiet delivery without a digest would leave notifications unseen
+                  digest_frequency: value === 'digest' && preferences.digest_frequency === 'off'
+                    ? 'daily'
+                    : preferences.digest_frequency,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="immediate">Immediately, with a pop-up</SelectItem>
+                  <SelectItem value="digest">Quietly, summarized in a digest</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Email digest</Label>
+              <Select
+                value={preferences.digest_frequency}
+                onValueChange={(value: DigestFrequency) => setPreferences({ ...preferences, digest_frequency: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Don't email me</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Tasks due soon or overdue, new assignments, upcoming meetings and unread messages
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="quiet-hours">Quiet hours</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Notifications still arrive, but without a pop-up
+                  </p>
+                </div>
+                <Switch
+                  id="quiet-hours"
+                  checked={quietHoursEnabled}
+                  onCheckedChange={(checked) => setPreferences({
+                    ...preferences,
+                    quiet_hours_start: checked ? '22:00' : null,
+                    quiet_hours_end: checked ? '07:00' : null,
+                  })}
+                />
+              </div>
+              {quietHoursEnabled && (
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    type="time"
+                    aria-label="Quiet hours start"
+                    value={preferences.quiet_hours_start ?? ''}
+                    onChange={(e) => e.target.value && setPreferences({ ...preferences, quiet_hours_start: e.target.value })}
+                  />
+                  <Input
+                    type="time"
+                    aria-label="Quiet hours end"
+                    value={preferences.quiet_hours_end ?? ''}
+                    onChange={(e) => e.target.value && setPreferences({ ...preferences, quiet_hours_end: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Notification Settings
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
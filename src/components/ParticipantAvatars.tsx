@@ -0,0 +1,73 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Eye } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getInvolvedPeople, ROLE_LABELS, TaskParticipantLink, ParticipantProfile } from '@/lib/taskParticipants';
+
+interface ParticipantAvatarsProps {
+  task: {
+    user_id: string;
+    profiles?: ParticipantProfile | null;
+    task_participants?: TaskParticipantLink[];
+  };
+  max?: number;
+  className?: string;
+}
+
+const getInitials = (name: string | null, email: string) => {
+  if (name) {
+    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  }
+  return email.slice(0, 2).toUpperCase();
+};
+
+export const ParticipantAvatars = ({ task, max = 4, className }: ParticipantAvatarsProps) => {
+  const people = getInvolvedPeople(task);
+  const visible = people.slice(0, max);
+  const hidden = people.slice(max);
+
+  return (
+    <div className={cn('flex items-center -space-x-1.5', className)}>
+      {visible.map(person => {
+        const name = person.profile?.full_name || person.profile?.email || 'Unknown User';
+        return (
+          <Tooltip key={person.userId}>
+            <TooltipTrigger asChild>
+              <div className="relative">
+                <Avatar
+                  className={cn(
+                    'h-6 w-6 border-2 border-background',
+                    person.role === 'watcher' && 'opacity-70'
+                  )}
+                >
+                  {person.profile?.avatar_url && <AvatarImage src={person.profile.avatar_url} />}
+                  <AvatarFallback className="text-[9px]">
+                    {getInitials(person.profile?.full_name ?? null, person.profile?.email || '?')}
+                  </AvatarFallback>
+                </Avatar>
+                {person.role === 'watcher' && (
+                  <Eye className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-background text-muted-foreground" />
+                )}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              {name} · {ROLE_LABELS[person.role]}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-background bg-muted text-[9px] font-medium">
+              +{hidden.length}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            {hidden.map(p => p.profile?.full_name || p.profile?.email).join(', ')}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+};
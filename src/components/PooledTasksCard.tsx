@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useUserGroups } from '@/hooks/useUserGroups';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Hand, Inbox, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PooledTask {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  deadline?: string | null;
+  pool_group_id?: string | null;
+}
+
+interface PooledTasksCardProps {
+  tasks: PooledTask[];
+  onClaimed: () => void;
+}
+
+export const PooledTasksCard = ({ tasks, onClaimed }: PooledTasksCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { groups } = useUserGroups();
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  if (tasks.length === 0) return null;
+
+  const handleClaim = async (task: PooledTask) => {
+    setClaimingId(task.id);
+    try {
+      const { error } = await supabase.rpc('claim_task', { _task_id: task.id });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Task claimed',
+        description: `"${task.title}" is now yours`,
+      });
+    } catch (error) {
+      console.error('Error claiming task:', error);
+      toast({
+        title: 'Could not claim task',
+        description: (error as { code?: string }).code === 'P0002'
+          ? 'Someone else claimed it first'
+          : 'Failed to claim task',
+        variant: 'destructive',
+      });
+    } finally {
+      setClaimingId(null);
+      onClaimed();
+    }
+  };
+
+  return (
+    <Card className="mb-6 border-dashed">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Inbox className="h-5 w-5 text-primary" />
+          Up for grabs
+          <Badge variant="secondary">{tasks.length}</Badge>
+        </CardTitle>
+        <CardDescription>Tasks waiting in your groups' pools. The first to claim one gets it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {tasks.map(task => {
+          const group = groups.find(g => g.id === task.pool_group_id);
+          const canClaim = !!user && !!group?.memberIds.includes(user.id);
+          return (
+            <div key={task.id} className="flex items-center gap-3 rounded-md border p-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{task.title}</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {group && <Badge variant="outline" className="text-xs">{group.name}</Badge>}
+                  <span className="capitalize">{task.priority} priority</span>
+                  {task.deadline && <span>Due {format(new Date(task.deadline), 'MMM d, HH:mm')}</span>}
+                </div>
+              </div>
+              {canClaim && (
+                <Button size="sm" onClick={() => handleClaim(task)} disabled={claimingId !== null}>
+                  {claimingId === task.id ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Hand className="mr-1 h-4 w-4" />
+                  )}
+                  Claim
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useProject } from '@/hooks/useProject';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ProjectsDialog } from '@/components/ProjectsDialog';
+import { Check, ChevronsUpDown, FolderKanban, Settings2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ProjectSwitcherProps {
+  className?: string;
+}
+
+export const ProjectSwitcher = ({ className }: ProjectSwitcherProps) => {
+  const { projects, currentProject, setCurrentProjectId } = useProject();
+  const { isAdmin } = useUserRole();
+  const [manageOpen, setManageOpen] = useState(false);
+
+  // Nothing to switch between for users outside of any project
+  if (projects.length === 0 && !isAdmin) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn('max-w-[12rem] justify-between gap-2', currentProject && 'border-primary/40', className)}
+          >
+            <FolderKanban className="h-4 w-4 shrink-0" />
+            <span className="truncate">{currentProject?.name || 'All projects'}</span>
+            <ChevronsUpDown className="h-3 w-3 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCurrentProjectId(null)} className="justify-between">
+            All projects
+            {!currentProject && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {projects.map(project => (
+            <DropdownMenuItem
+              key={project.id}
+              onSelect={() => setCurrentProjectId(project.id)}
+              className="justify-between gap-2"
+            >
+              <span className="truncate">{project.name}</span>
+              {currentProject?.id === project.id && <Check className="h-4 w-4 shrink-0" />}
+            </DropdownMenuItem>
+          ))}
+          {isAdmin && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setManageOpen(true)}>
+                <Settings2 className="h-4 w-4 mr-2" />
+                Manage projects
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {isAdmin && <ProjectsDialog open={manageOpen} onOpenChange={setManageOpen} />}
+    </>
+  );
+};
@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject, Project } from '@/hooks/useProject';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderKanban, Loader2, Plus, Trash2, X } from 'lucide-react';
+
+interface UserProfile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface ProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ProjectsDialog = ({ open, onOpenChange }: ProjectsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { projects, refetch } = useProject();
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchUsers();
+    }
+  }, [open]);
+
+  const fetchUsers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .order('full_name');
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name || !user) return;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .insert({ name, created_by: user.id })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      // The creator starts out as the first member
+      const { error: memberError } = await supabase
+        .from('project_members')
+        .insert({ project_id: data.id, user_id: user.id });
+
+      if (memberError) throw memberError;
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating project:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'A project with that name already exists'
+        : 'Failed to create project');
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleRename = async (project: Project, name: string) => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ name })
+        .eq('id', project.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error renaming project:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'A project with that name already exists'
+        : 'Failed to rename project');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', project.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Project deleted',
+        description: `Tasks and meetings of "${project.name}" are back in the shared space`,
+      });
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      showError('Failed to delete project');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleAddMember = async (project: Project, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .insert({ project_id: project.id, user_id: userId });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error adding project member:', error);
+      showError('Failed to add member');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleRemoveMember = async (project: Project, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .delete()
+        .eq('project_id', project.id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error removing project member:', error);
+      showError('Failed to remove member');
+    } finally {
+      refetch();
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const profile = users.find(u => u.id === userId);
+    return profile?.full_name || profile?.email || 'Unknown User';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderKanban className="h-5 w-5" />
+            Projects
+          </DialogTitle>
+          <DialogDescription>
+            Members only see the projects they belong to, along with the tasks and meetings inside them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New project, e.g. Website relaunch"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            maxLength={60}
+            disabled={isSaving}
+            className="h-8"
+          />
+          <Button type="button" size="sm" onClick={handleAdd} disabled={isSaving || !newName.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="space-y-4 pt-2 border-t">
+          {projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No projects yet</p>
+          ) : (
+            projects.map(project => {
+              const nonMembers = users.filter(u => !project.memberIds.includes(u.id));
+              return (
+                <div key={project.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      key={project.name}
+                      defaultValue={project.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== project.name) handleRename(project, name);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      maxLength={60}
+                      className="h-8 font-medium"
+                    />
+                    <Badge variant="secondary" className="shrink-0">
+                      {project.memberIds.length} {project.memberIds.length === 1 ? 'member' : 'members'}
+                    </Badge>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => handleDelete(project)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {project.memberIds.map(memberId => (
+                      <Badge key={memberId} variant="outline" className="gap-1">
+                        {getUserName(memberId)}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveMember(project, memberId)}
+                          className="rounded-full opacity-70 hover:opacity-100"
+                          aria-label={`Remove ${getUserName(memberId)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <Select
+                    value=""
+                    onValueChange={(userId) => handleAddMember(project, userId)}
+                    disabled={nonMembers.length === 0}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Add a member..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {nonMembers.map(u => (
+                        <SelectItem key={u.id} value={u.id}>
+                          {u.full_name || u.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,135 @@
+import { useState, useEffect, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Repeat } from 'lucide-react';
+import {
+  buildRecurrenceRule,
+  describeRecurrence,
+  isValidRecurrenceRule,
+  parseRecurrenceRule,
+  RecurrenceFrequency,
+  WEEKDAY_CODES,
+  WEEKDAY_LABELS,
+  WeekdayCode,
+} from '@/lib/recurrence';
+
+type RecurrenceMode = 'none' | RecurrenceFrequency | 'custom';
+
+interface RecurrencePickerProps {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+// Rules the presets can represent round-trip; anything else is shown as custom
+const getModeForRule = (rule: string | null): RecurrenceMode => {
+  if (!rule) return 'none';
+  const parsed = parseRecurrenceRule(rule);
+  if (!parsed || parsed.interval !== 1 || parsed.until || parsed.freq === 'YEARLY') return 'custom';
+  if (parsed.freq !== 'WEEKLY' && parsed.byDay.length > 0) return 'custom';
+  return parsed.freq;
+};
+
+export const RecurrencePicker = ({ value, onChange, disabled, error }: RecurrencePickerProps) => {
+  const [mode, setMode] = useState<RecurrenceMode>(getModeForRule(value));
+  const [customRule, setCustomRule] = useState(value || '');
+  const lastEmitted = useRef(value);
+
+  // Only resync when the value is replaced from outside (e.g. a different task is loaded),
+  // so typing a custom rule that happens to match a preset doesn't switch modes
+  useEffect(() => {
+    if (value !== lastEmitted.current) {
+      lastEmitted.current = value;
+      setMode(getModeForRule(value));
+      setCustomRule(value || '');
+    }
+  }, [value]);
+
+  const emit = (rule: string | null) => {
+    lastEmitted.current = rule;
+    onChange(rule);
+  };
+
+  const byDay = value ? parseRecurrenceRule(value)?.byDay || [] : [];
+
+  const handleModeChange = (newMode: RecurrenceMode) => {
+    setMode(newMode);
+    if (newMode === 'none') {
+      emit(null);
+    } else if (newMode === 'custom') {
+      const rule = customRule || value || 'FREQ=DAILY';
+      setCustomRule(rule);
+      emit(rule);
+    } else {
+      emit(buildRecurrenceRule({ freq: newMode, interval: 1, byDay: [], until: null }));
+    }
+  };
+
+  const handleDaysChange = (days: string[]) => {
+    emit(buildRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: days as WeekdayCode[], until: null }));
+  };
+
+  const handleCustomChange = (rule: string) => {
+    setCustomRule(rule);
+    // Pass invalid input through so the form can report it instead of silently dropping it
+    emit(rule.trim() || null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </Label>
+      <Select value={mode} onValueChange={(v) => handleModeChange(v as RecurrenceMode)} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="DAILY">Daily</SelectItem>
+          <SelectItem value="WEEKLY">Weekly</SelectItem>
+          <SelectItem value="MONTHLY">Monthly</SelectItem>
+          <SelectItem value="custom">Custom (RRULE)</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === 'WEEKLY' && (
+        <ToggleGroup
+          type="multiple"
+          value={byDay}
+          onValueChange={handleDaysChange}
+          className="justify-start flex-wrap"
+          disabled={disabled}
+        >
+          {WEEKDAY_CODES.map((day) => (
+            <ToggleGroupItem key={day} value={day} size="sm" className="h-7 px-2 text-xs">
+              {WEEKDAY_LABELS[day]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {mode === 'custom' && (
+        <Input
+          placeholder="e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"
+          value={customRule}
+          onChange={(e) => handleCustomChange(e.target.value)}
+          disabled={disabled}
+          className={error || (customRule && !isValidRecurrenceRule(customRule)) ? 'border-destructive font-mono text-xs' : 'font-mono text-xs'}
+        />
+      )}
+
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : value && isValidRecurrenceRule(value) ? (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(value)}. The next occurrence is created when this one is completed or its deadline passes.
+        </p>
+      ) : null}
+    </div>
+  );
+};
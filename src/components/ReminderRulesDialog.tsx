@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlarmClock, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  describeReminderRule,
+  ReminderKind,
+  ReminderRule,
+  ReminderUnit,
+  sortReminderRules,
+  toOffsetMinutes,
+} from '@/lib/reminderRules';
+
+interface ReminderRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  kind: 'reminder' as ReminderKind,
+  amount: '1',
+  unit: 'hours' as ReminderUnit,
+  priority: 'all',
+};
+
+export const ReminderRulesDialog = ({ open, onOpenChange }: ReminderRulesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchRules();
+    }
+  }, [open]);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('reminder_rules')
+        .select('id, kind, offset_minutes, priority')
+        // Personal lead times are managed by each user in their profile
+        .is('user_id', null);
+
+      if (error) throw error;
+      setRules((data || []) as ReminderRule[]);
+    } catch (error) {
+      console.error('Error fetching reminder rules:', error);
+    }
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const offsetMinutes = toOffsetMinutes(formData.amount, formData.unit);
+
+  const handleAdd = async () => {
+    if (offsetMinutes === null || !user) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('reminder_rules')
+        .insert({
+          kind: formData.kind,
+          offset_minutes: offsetMinutes,
+          priority: formData.priority === 'all' ? null : formData.priority,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      setFormData(emptyForm);
+    } catch (error) {
+      console.error('Error creating reminder rule:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'That reminder is already on the schedule'
+        : 'Failed to add reminder');
+    } finally {
+      setIsSaving(false);
+      fetchRules();
+    }
+  };
+
+  const handleDelete = async (rule: ReminderRule) => {
+    try {
+      const { error } = await supabase
+        .from('reminder_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting reminder rule:', error);
+      showError('Failed to delete reminder');
+    } finally {
+      fetchRules();
+    }
+  };
+
+  const renderRules = (kind: ReminderKind, emptyText: string) => {
+    const ofKind = sortReminderRules(rules.filter(r => r.kind === kind));
+    if (ofKind.length === 0) {
+      return <p className="text-sm text-muted-foreground py-1">{emptyText}</p>;
+    }
+    return ofKind.map(rule => (
+      <div key={rule.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+        <span className="flex-1 text-sm">{describeReminderRule(rule)}</span>
+        <Badge variant="outline" className="text-xs capitalize">
+          {rule.priority ? `${rule.priority} priority` : 'All tasks'}
+        </Badge>
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(rule)}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    ));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlarmClock className="h-5 w-5" />
+            Deadline Reminders
+          </DialogTitle>
+          <DialogDescription>
+            Assignees are reminded before their deadlines. Once a task is overdue, whoever assigned it is notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Reminders to the assignee</h4>
+          {renderRules('reminder', 'No reminders are sent')}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Escalations to the assigner</h4>
+          {renderRules('escalation', 'Overdue tasks are not escalated')}
+        </div>
+
+        <div className="space-y-3 pt-4 border-t">
+          <h4 className="text-sm font-semibold">Add to the schedule</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select
+                value={formData.kind}
+                onValueChange={(value: ReminderKind) => setFormData({ ...formData, kind: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reminder">Reminder before deadline</SelectItem>
+                  <SelectItem value="escalation">Escalation when overdue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tasks</SelectItem>
+                  <SelectItem value="low">Low priority</SelectItem>
+                  <SelectItem value="medium">Medium priority</SelectItem>
+                  <SelectItem value="high">High priority</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>{formData.kind === 'reminder' ? 'Time before the deadline' : 'Time after the deadline'}</Label>
+            <div className="grid grid-cols-[1fr_8rem] gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              />
+              <Select
+                value={formData.unit}
+                onValueChange={(value: ReminderUnit) => setFormData({ ...formData, unit: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="minutes">Minutes</SelectItem>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="days">Days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {offsetMinutes === null && (
+              <p className="text-xs text-destructive">Enter a time between 0 minutes and 30 days</p>
+            )}
+          </div>
+          <Button
+            type="button"
+            onClick={handleAdd}
+            disabled={isSaving || offsetMinutes === null}
+            className="w-full"
+          >
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add {offsetMinutes !== null ? describeReminderRule({ kind: formData.kind, offset_minutes: offsetMinutes }).toLowerCase() : 'reminder'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
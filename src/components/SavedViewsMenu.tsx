@@ -0,0 +1,73 @@
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SavedViewsMenuProps {
+  className?: string;
+}
+
+export const SavedViewsMenu = ({ className }: SavedViewsMenuProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { views, deleteView } = useSavedViews();
+
+  const currentQuery = location.pathname === '/dashboard' ? location.search.replace(/^\?/, '') : null;
+  const isActiveView = (query: string) => currentQuery === query;
+  const hasActiveView = views.some(v => isActiveView(v.query));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={hasActiveView ? 'secondary' : 'ghost'}
+          size="sm"
+          className={cn(hasActiveView && 'bg-primary/10 text-primary', className)}
+        >
+          <Bookmark className="h-4 w-4 mr-2" />
+          Views
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {views.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-muted-foreground">
+            Use "Save view" on the dashboard to keep a set of filters here.
+          </p>
+        ) : (
+          views.map(view => (
+            <DropdownMenuItem
+              key={view.id}
+              onSelect={() => navigate(view.query ? `/dashboard?${view.query}` : '/dashboard')}
+              className={cn('justify-between gap-2', isActiveView(view.query) && 'bg-primary/10 text-primary')}
+            >
+              <span className="truncate">{view.name}</span>
+              <button
+                type="button"
+                className="rounded p-1 opacity-60 hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  deleteView(view.id);
+                }}
+                aria-label={`Delete ${view.name}`}
+              >
+                <Trash2 className="h-3.5 w-3.5 text-destructive" />
+              </button>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
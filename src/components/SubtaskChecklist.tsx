@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Plus, X, ListChecks } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getSubtaskProgress, SubtaskSummary } from '@/lib/taskProgress';
+
+export interface SubtaskDraft {
+  id?: string;
+  title: string;
+  is_completed: boolean;
+}
+
+interface SubtaskChecklistProps {
+  subtasks: SubtaskDraft[];
+  onChange: (subtasks: SubtaskDraft[]) => void;
+  disabled?: boolean;
+}
+
+export const SubtaskChecklist = ({ subtasks, onChange, disabled }: SubtaskChecklistProps) => {
+  const [newTitle, setNewTitle] = useState('');
+
+  const completed = subtasks.filter(s => s.is_completed).length;
+  const percent = subtasks.length > 0 ? Math.round((completed / subtasks.length) * 100) : 0;
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    onChange([...subtasks, { title, is_completed: false }]);
+    setNewTitle('');
+  };
+
+  const handleToggle = (index: number, checked: boolean) => {
+    onChange(subtasks.map((s, i) => (i === index ? { ...s, is_completed: checked } : s)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(subtasks.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Checklist
+        </Label>
+        {subtasks.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {completed}/{subtasks.length} done
+          </span>
+        )}
+      </div>
+      {subtasks.length > 0 && (
+        <>
+          <Progress value={percent} className="h-2" />
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {subtasks.map((subtask, index) => (
+              <div key={subtask.id || `new-${index}`} className="flex items-center gap-2 group">
+                <Checkbox
+                  checked={subtask.is_completed}
+                  onCheckedChange={(checked) => handleToggle(index, checked === true)}
+                  disabled={disabled}
+                />
+                <span
+                  className={cn(
+                    'flex-1 text-sm truncate',
+                    subtask.is_completed && 'line-through text-muted-foreground'
+                  )}
+                >
+                  {subtask.title}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleRemove(index)}
+                  disabled={disabled}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add a checklist item"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          disabled={disabled}
+          maxLength={200}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={handleAdd} disabled={disabled || !newTitle.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface SubtaskProgressBarProps {
+  subtasks?: SubtaskSummary[] | null;
+  className?: string;
+}
+
+export const SubtaskProgressBar = ({ subtasks, className }: SubtaskProgressBarProps) => {
+  const { total, completed, percent } = getSubtaskProgress(subtasks);
+  if (total === 0) return null;
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <ListChecks className="h-3 w-3" />
+          Checklist
+        </span>
+        <span>{completed}/{total}</span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+    </div>
+  );
+};
@@ -10,10 +10,23 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Lock, CalendarIcon } from 'lucide-react';
+import { Loader2, Lock, CalendarIcon, Sparkles, AlertTriangle, ClipboardList, Square, X } from 'lucide-react';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
+import { RecurrencePicker } from '@/components/RecurrencePicker';
+import { LabelPicker } from '@/components/LabelPicker';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { useTeamCapacity } from '@/hooks/useTeamCapacity';
+import { useUserGroups } from '@/hooks/useUserGroups';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { TaskTemplatesDialog } from '@/components/TaskTemplatesDialog';
+import { getTemplateDeadline } from '@/lib/taskTemplates';
+import { CandidateTask, rankCandidates } from '@/lib/assignmentSuggestions';
+import { ESTIMATE_HOURS_MIN, ESTIMATE_HOURS_STEP, STORY_POINTS_MIN, STORY_POINTS_STEP, estimateHoursSchema, formatHours, storyPointsSchema } from '@/lib/estimates';
 
 interface UserProfile {
   id: string;
@@ -21,6 +34,10 @@ interface UserProfile {
   full_name: string | null;
 }
 
+// group: everyone in the group gets a copy; round_robin: the next member in turn gets it;
+// pool: a single task waits in the group's pool until a member claims it
+type AssignmentType = 'single' | 'all' | 'group' | 'round_robin' | 'pool';
+
 interface TaskAssignmentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -28,12 +45,19 @@ interface TaskAssignmentDialogProps {
 }
 
 export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssignmentDialogProps) => {
+  const { user } = useAuth();
   const { toast } = useToast();
   const { createNotification } = useNotifications();
+  const { statuses } = useWorkflowStatuses();
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [openTasks, setOpenTasks] = useState<CandidateTask[]>([]);
+  const { slotsByUser, refetch: refetchCapacity } = useTeamCapacity();
   const [isLoading, setIsLoading] = useState(false);
-  const [assignmentType, setAssignmentType] = useState<'single' | 'all'>('single');
+  const [assignmentType, setAssignmentType] = useState<AssignmentType>('single');
   const [selectedUserId, setSelectedUserId] = useState<string>('');
+  const [selectedGroupId, setSelectedGroupId] = useState<string>('');
+  const { groups } = useUserGroups();
+  const { currentProject } = useProject();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -41,33 +65,91 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
     status: 'pending',
     is_private: false,
     deadline: null as Date | null,
+    recurrence_rule: null as string | null,
+    estimate_hours: '',
+    story_points: '',
   });
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const { templates } = useTaskTemplates();
+  const [templateId, setTemplateId] = useState('');
+  // The deadline the template suggested; left as is, it is recomputed when the task is assigned
+  const [templateDeadline, setTemplateDeadline] = useState<Date | null>(null);
+  const [checklist, setChecklist] = useState<string[]>([]);
+  const [templatesDialogOpen, setTemplatesDialogOpen] = useState(false);
 
   useEffect(() => {
-    if (open) {
-      fetchUsers();
-    }
-  }, [open]);
+    if (!open) return;
 
-  const fetchUsers = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, email, full_name')
-        .order('full_name');
+    const fetchUsers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, email, full_name')
+          .order('full_name');
 
-      if (error) throw error;
-      setUsers(data || []);
-    } catch (error) {
-      console.error('Error fetching users:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load users',
-        variant: 'destructive',
-      });
-    }
+        if (error) throw error;
+        // Inside a project only its members can be assigned
+        setUsers((data || []).filter(u => !currentProject || currentProject.memberIds.includes(u.id)));
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load users',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    const fetchOpenTasks = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('user_id, status, deadline, estimate_hours')
+          .neq('status', 'completed');
+
+        if (error) throw error;
+        setOpenTasks(data || []);
+      } catch (error) {
+        console.error('Error fetching open tasks:', error);
+      }
+    };
+
+    fetchUsers();
+    fetchOpenTasks();
+    refetchCapacity();
+  }, [open, currentProject, toast, refetchCapacity]);
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    const deadline = getTemplateDeadline(template, new Date());
+    setTemplateId(id);
+    setTemplateDeadline(deadline);
+    setFormData(prev => ({
+      ...prev,
+      title: template.title,
+      description: template.description || '',
+      priority: template.priority,
+      deadline,
+    }));
+    setChecklist(template.checklist);
   };
 
+  const candidates = rankCandidates(
+    users.map(u => u.id),
+    openTasks,
+    slotsByUser,
+    formData.deadline,
+    formData.estimate_hours !== '' ? Number(formData.estimate_hours) : null
+  );
+  const usersById = Object.fromEntries(users.map(u => [u.id, u]));
+  const isGroupAssignment = assignmentType === 'group' || assignmentType === 'round_robin' || assignmentType === 'pool';
+  const selectedGroup = groups.find(g => g.id === selectedGroupId);
+  // Inside a project only the group members who also belong to it can get the task
+  const groupMemberIds = (selectedGroup?.memberIds || [])
+    .filter(id => !currentProject || currentProject.memberIds.includes(id));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -80,51 +162,148 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
       return;
     }
 
+    if (isGroupAssignment && !groupMemberIds.length) {
+      toast({
+        title: selectedGroup ? 'Group has no members' : 'No group selected',
+        description: !selectedGroup
+          ? 'Please select a group to assign the task to'
+          : currentProject
+          ? `None of the group's members are in ${currentProject.name}`
+          : 'Add members to the group in User Management first',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (assignmentType === 'pool' && (formData.recurrence_rule || formData.is_private)) {
+      toast({
+        title: 'Not available for pooled tasks',
+        description: 'Pooled tasks are visible to the whole group and cannot repeat',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (formData.recurrence_rule && (!isValidRecurrenceRule(formData.recurrence_rule) || !formData.deadline)) {
+      toast({
+        title: 'Invalid repeat schedule',
+        description: formData.deadline
+          ? 'Please enter a valid recurrence rule'
+          : 'Repeating tasks need a deadline to schedule the next occurrence',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const estimateHours = formData.estimate_hours !== '' ? Number(formData.estimate_hours) : null;
+    const storyPoints = formData.story_points !== '' ? Number(formData.story_points) : null;
+    const estimateCheck = estimateHoursSchema.nullable().safeParse(estimateHours);
+    const pointsCheck = storyPointsSchema.nullable().safeParse(storyPoints);
+    if (!estimateCheck.success || !pointsCheck.success) {
+      toast({
+        title: 'Invalid estimate',
+        description: (estimateCheck.error ?? pointsCheck.error)?.errors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Template deadlines count from the moment the task is assigned, not when the template was picked
+    const template = templates.find(t => t.id === templateId);
+    const deadline = template && templateDeadline && formData.deadline?.getTime() === templateDeadline.getTime()
+      ? getTemplateDeadline(template, new Date())
+      : formData.deadline;
+
     setIsLoading(true);
 
     try {
-      const targetUserIds = assignmentType === 'all' 
-        ? users.map(u => u.id)
-        : [selectedUserId];
-
-      const tasks = targetUserIds.map(userId => ({
-        title: formData.title,
-        description: formData.description,
-        priority: formData.priority,
-        status: formData.status,
-        is_private: formData.is_private,
-        deadline: formData.deadline?.toISOString() || null,
-        user_id: userId,
-      }));
-
-      const { data: insertedTasks, error } = await supabase
-        .from('tasks')
-        .insert(tasks)
-        .select();
+      let targetUserIds: string[];
+      if (assignmentType === 'all') {
+        targetUserIds = users.map(u => u.id);
+      } else if (assignmentType === 'group') {
+        targetUserIds = groupMemberIds;
+      } else if (assignmentType === 'pool') {
+        // The creator holds the task until a group member claims it
+        targetUserIds = [user!.id];
+      } else if (assignmentType === 'single') {
+        targetUserIds = [selectedUserId];
+      } else {
+        // Picked by the database from the group's rotation
+        targetUserIds = [];
+      }
+
+      // Tasks, their series, labels and checklist are created in one transaction
+      const { data: insertedTasks, error } = await supabase.rpc('create_assigned_tasks', {
+        _task: {
+          title: formData.title,
+          description: formData.description,
+          priority: formData.priority,
+          status: formData.status,
+          is_private: formData.is_private,
+          deadline: deadline?.toISOString() || null,
+          estimate_hours: estimateHours,
+          story_points: storyPoints,
+          recurrence_rule: formData.recurrence_rule,
+          pool_group_id: assignmentType === 'pool' ? selectedGroupId : null,
+          project_id: currentProject?.id ?? null,
+        },
+        _assignee_ids: targetUserIds,
+        _round_robin_group_id: assignmentType === 'round_robin' ? selectedGroupId : undefined,
+        _label_ids: labelIds,
+        _checklist: checklist,
+      });
 
       if (error) throw error;
+      if (assignmentType === 'round_robin') {
+        targetUserIds = (insertedTasks || []).map(t => t.user_id);
+      }
 
-      // Create notifications for assigned users
-      for (const userId of targetUserIds) {
-        const taskId = insertedTasks?.find(t => t.user_id === userId)?.id;
-        await createNotification(
-          userId,
-          'New Task Assigned',
-          `You have been assigned a new task: "${formData.title}"`,
-          'task_assigned',
-          taskId
-        );
+      if (assignmentType === 'pool') {
+        // Let the group know there is something to pick up
+        for (const memberId of groupMemberIds.filter(id => id !== user!.id)) {
+          await createNotification(
+            memberId,
+            'New Task Available',
+            `"${formData.title}" is waiting to be claimed in ${selectedGroup!.name}`,
+            'task_pool',
+            insertedTasks?.[0]?.id
+          );
+        }
+      } else {
+        // Create notifications for assigned users
+        for (const userId of targetUserIds) {
+          const taskId = insertedTasks?.find(t => t.user_id === userId)?.id;
+          await createNotification(
+            userId,
+            'New Task Assigned',
+            `You have been assigned a new task: "${formData.title}"`,
+            'task_assigned',
+            taskId
+          );
+        }
       }
 
+      const assigneeName = usersById[targetUserIds[0]]?.full_name || usersById[targetUserIds[0]]?.email;
       toast({
         title: 'Task(s) assigned successfully',
-        description: assignmentType === 'all' 
+        description: assignmentType === 'all'
           ? `Task assigned to all ${targetUserIds.length} users`
+          : assignmentType === 'group'
+          ? `Task assigned to all ${targetUserIds.length} members of ${selectedGroup!.name}`
+          : assignmentType === 'round_robin'
+          ? `Task assigned to ${assigneeName}, next in ${selectedGroup!.name}'s rotation`
+          : assignmentType === 'pool'
+          ? `Task added to ${selectedGroup!.name}'s pool for the first member to claim`
           : 'Task assigned to selected user',
       });
 
-      setFormData({ title: '', description: '', priority: 'medium', status: 'pending', is_private: false, deadline: null });
+      setFormData({ title: '', description: '', priority: 'medium', status: 'pending', is_private: false, deadline: null, recurrence_rule: null, estimate_hours: '', story_points: '' });
+      setLabelIds([]);
+      setChecklist([]);
+      setTemplateId('');
+      setTemplateDeadline(null);
       setSelectedUserId('');
+      setSelectedGroupId('');
       onSuccess();
       onOpenChange(false);
     } catch (error) {
@@ -141,42 +320,131 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Assign New Task</DialogTitle>
           <DialogDescription>
-            Create and assign a task to a specific user or all users
+            Create and assign a task to a user, a group or everyone, optionally from a template
+            {currentProject && ` · Added to ${currentProject.name}`}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Start From Template</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-muted-foreground"
+                onClick={() => setTemplatesDialogOpen(true)}
+              >
+                <ClipboardList className="mr-1 h-3 w-3" />
+                Manage templates
+              </Button>
+            </div>
+            <Select value={templateId} onValueChange={applyTemplate} disabled={templates.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={templates.length === 0 ? 'No templates yet' : 'Blank task'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="space-y-2">
             <Label>Assignment Type</Label>
-            <Select value={assignmentType} onValueChange={(value: 'single' | 'all') => setAssignmentType(value)}>
+            <Select value={assignmentType} onValueChange={(value: AssignmentType) => setAssignmentType(value)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="single">Assign to specific user</SelectItem>
                 <SelectItem value="all">Assign to all users</SelectItem>
+                <SelectItem value="group" disabled={groups.length === 0}>Assign to everyone in a group</SelectItem>
+                <SelectItem value="round_robin" disabled={groups.length === 0}>Rotate within a group</SelectItem>
+                <SelectItem value="pool" disabled={groups.length === 0}>Let a group member claim it</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          {assignmentType === 'single' && (
+          {isGroupAssignment && (
             <div className="space-y-2">
-              <Label htmlFor="user">Select User</Label>
-              <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+              <Label>Select Group</Label>
+              <Select value={selectedGroupId} onValueChange={setSelectedGroupId}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Choose a user" />
+                  <SelectValue placeholder="Choose a group" />
                 </SelectTrigger>
                 <SelectContent>
-                  {users.map((user) => (
-                    <SelectItem key={user.id} value={user.id}>
-                      {user.full_name || user.email}
+                  {groups.map(group => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name} ({group.memberIds.length})
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {selectedGroup && (
+                <p className="text-xs text-muted-foreground">
+                  {groupMemberIds.map(id => usersById[id]?.full_name || usersById[id]?.email).join(', ') ||
+                    (currentProject ? 'No members of this group are in the project' : 'This group has no members yet')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {assignmentType === 'single' && (
+            <div className="space-y-2">
+              <Label>Select User</Label>
+              <p className="text-xs text-muted-foreground">
+                Ranked by free time {formData.deadline ? 'before the deadline' : 'over the next week'}, open work and overdue tasks
+              </p>
+              <div className="max-h-56 overflow-y-auto rounded-md border divide-y" role="listbox" aria-label="Assignee">
+                {candidates.map((candidate, index) => {
+                  const candidateUser = usersById[candidate.userId];
+                  const isSelected = selectedUserId === candidate.userId;
+                  return (
+                    <button
+                      key={candidate.userId}
+                      type="button"
+                      role="option"
+                      aria-selected={isSelected}
+                      onClick={() => setSelectedUserId(candidate.userId)}
+                      className={cn(
+                        'w-full text-left px-3 py-2 text-sm hover:bg-muted/50 transition-colors',
+                        isSelected && 'bg-primary/10'
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">
+                          {candidateUser?.full_name || candidateUser?.email}
+                        </span>
+                        {index < 3 && candidate.fits && (
+                          <span className="flex items-center gap-1 text-xs text-primary shrink-0">
+                            <Sparkles className="h-3 w-3" /> Suggested
+                          </span>
+                        )}
+                        {!candidate.fits && (
+                          <span className="flex items-center gap-1 text-xs text-destructive shrink-0">
+                            <AlertTriangle className="h-3 w-3" /> Short on time
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {candidate.openCount} open · {formatHours(Math.max(candidate.freeHours, 0))} free of{' '}
+                        {formatHours(candidate.availableHours)} available
+                        {candidate.overdueCount > 0 && (
+                          <span className="text-destructive"> · {candidate.overdueCount} overdue</span>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
             </div>
           )}
 
@@ -202,6 +470,28 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
             />
           </div>
 
+          {checklist.length > 0 && (
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <div className="space-y-1 rounded-md border p-2">
+                {checklist.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm">
+                    <Square className="h-3 w-3 text-muted-foreground shrink-0" />
+                    <span className="flex-1 truncate">{item}</span>
+                    <button
+                      type="button"
+                      onClick={() => setChecklist(prev => prev.filter((_, i) => i !== index))}
+                      className="opacity-70 hover:opacity-100"
+                      aria-label={`Remove ${item}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="priority">Priority</Label>
@@ -224,14 +514,45 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
+                  {statuses.map(status => (
+                    <SelectItem key={status.key} value={status.key}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="estimate_hours_assign">Estimate (hours)</Label>
+              <Input
+                id="estimate_hours_assign"
+                type="number"
+                min={ESTIMATE_HOURS_MIN}
+                step={ESTIMATE_HOURS_STEP}
+                value={formData.estimate_hours}
+                onChange={(e) => setFormData({ ...formData, estimate_hours: e.target.value })}
+                placeholder="e.g. 4"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="story_points_assign">Story Points</Label>
+              <Input
+                id="story_points_assign"
+                type="number"
+                min={STORY_POINTS_MIN}
+                step={STORY_POINTS_STEP}
+                value={formData.story_points}
+                onChange={(e) => setFormData({ ...formData, story_points: e.target.value })}
+                placeholder="e.g. 3"
+              />
+            </div>
+          </div>
+
+          <LabelPicker value={labelIds} onChange={setLabelIds} disabled={isLoading} />
+
           {/* Deadline Picker */}
           <div className="space-y-2">
             <Label>Deadline (Optional)</Label>
@@ -289,6 +610,13 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
             )}
           </div>
 
+          {/* Recurrence */}
+          <RecurrencePicker
+            value={formData.recurrence_rule}
+            onChange={(rule) => setFormData({ ...formData, recurrence_rule: rule })}
+            disabled={isLoading}
+          />
+
           {/* Private Task Toggle */}
           <div className="flex items-center space-x-2">
             <Checkbox
@@ -314,6 +642,7 @@ export const TaskAssignmentDialog = ({ open, onOpenChange, onSuccess }: TaskAssi
           </div>
         </form>
       </DialogContent>
+      <TaskTemplatesDialog open={templatesDialogOpen} onOpenChange={setTemplatesDialogOpen} />
     </Dialog>
   );
 };
@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useTaskComments, TaskComment } from '@/hooks/useTaskComments';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Loader2, MessageSquare, Send, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface MentionProfile {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+interface TaskCommentsProps {
+  task: {
+    id: string;
+    title: string;
+    user_id: string;
+  };
+}
+
+const getDisplayName = (profile: { full_name: string | null; email: string }) =>
+  profile.full_name || profile.email;
+
+const getInitials = (name: string | null, email: string) => {
+  if (name) {
+    return name
+      .split(' ')
+      .map((n) => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+  }
+  return email.slice(0, 2).toUpperCase();
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const TaskComments = ({ task }: TaskCommentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { comments, isLoading, addComment, deleteComment } = useTaskComments(task);
+  const [profiles, setProfiles] = useState<MentionProfile[]>([]);
+  const [content, setContent] = useState('');
+  const [mentions, setMentions] = useState<MentionProfile[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  // Watchers and others who can only see the task read along without commenting
+  const [canComment, setCanComment] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const checkCanComment = async () => {
+      const { data, error } = await supabase.rpc('can_edit_task', { _task_id: task.id, _user_id: user.id });
+      if (error) console.error('Error checking comment permission:', error);
+      setCanComment(!!data);
+    };
+    checkCanComment();
+  }, [task.id, user]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [comments.length]);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .order('full_name');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    }
+  };
+
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : profiles
+        .filter(p => p.id !== user?.id)
+        .filter(p => getDisplayName(p).toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+  const handleContentChange = (value: string, caret: number) => {
+    setContent(value);
+    // An "@word" directly before the caret opens the mention picker
+    const match = value.slice(0, caret).match(/@([^@\s]*)$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const handleSelectMention = (profile: MentionProfile) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? content.length;
+    const before = content.slice(0, caret).replace(/@([^@\s]*)$/, `@${getDisplayName(profile)} `);
+    const newContent = before + content.slice(caret);
+
+    setContent(newContent);
+    setMentions(prev => (prev.some(m => m.id === profile.id) ? prev : [...prev, profile]));
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = content.trim();
+    if (!trimmed) return;
+
+    // Only keep mentions whose "@Name" is still present in the text
+    const mentionIds = mentions
+      .filter(m => trimmed.includes(`@${getDisplayName(m)}`))
+      .map(m => m.id);
+
+    setIsSending(true);
+    const success = await addComment(trimmed, mentionIds);
+    setIsSending(false);
+
+    if (success) {
+      setContent('');
+      setMentions([]);
+      setMentionQuery(null);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to post comment',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderContent = (comment: TaskComment) => {
+    const names = comment.mentions
+      .map(id => profiles.find(p => p.id === id))
+      .filter((p): p is MentionProfile => !!p)
+      .map(p => `@${getDisplayName(p)}`);
+
+    if (names.length === 0) return comment.content;
+
+    const pattern = new RegExp(`(${names.map(escapeRegExp).join('|')})`, 'g');
+    return comment.content.split(pattern).map((part, index) =>
+      names.includes(part) ? (
+        <span key={index} className="font-medium text-primary">{part}</span>
+      ) : (
+        part
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+        {comments.length > 0 && (
+          <span className="text-xs text-muted-foreground font-normal">({comments.length})</span>
+        )}
+      </Label>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2">No comments yet. Start the discussion!</p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto pr-2">
+          <div className="space-y-3">
+            {comments.map((comment) => (
+              <div key={comment.id} className="flex gap-2 group">
+                <Avatar className="h-7 w-7">
+                  {comment.profiles?.avatar_url && <AvatarImage src={comment.profiles.avatar_url} />}
+                  <AvatarFallback className="text-[10px]">
+                    {getInitials(comment.profiles?.full_name ?? null, comment.profiles?.email || '?')}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium truncate">
+                      {comment.profiles ? getDisplayName(comment.profiles) : 'Unknown User'}
+                    </span>
+                    <span className="text-[10px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </span>
+                    {comment.user_id === user?.id && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 ml-auto opacity-0 group-hover:opacity-100"
+                        onClick={() => deleteComment(comment.id)}
+                      >
+                        <Trash2 className="h-3 w-3 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap break-words">{renderContent(comment)}</p>
+                </div>
+              </div>
+            ))}
+            <div ref={bottomRef} />
+          </div>
+        </div>
+      )}
+
+      {!canComment ? (
+        <p className="text-xs text-muted-foreground">Only people working on this task can comment</p>
+      ) : (
+        <div className="relative">
+          <Textarea
+            ref={textareaRef}
+            placeholder="Write a comment... use @ to mention someone"
+            value={content}
+            onChange={(e) => handleContentChange(e.target.value, e.target.selectionStart)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                if (mentionSuggestions.length > 0) {
+                  handleSelectMention(mentionSuggestions[0]);
+                } else {
+                  handleSubmit();
+                }
+              } else if (e.key === 'Escape' && mentionQuery !== null) {
+                e.stopPropagation();
+                setMentionQuery(null);
+              }
+            }}
+            disabled={isSending}
+            rows={2}
+            maxLength={2000}
+            className="pr-12 resize-none"
+          />
+          <Button
+            type="button"
+            size="icon"
+            className="absolute right-2 bottom-2 h-8 w-8"
+            onClick={handleSubmit}
+            disabled={isSending || !content.trim()}
+          >
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+
+          {mentionSuggestions.length > 0 && (
+            <div className="absolute left-0 right-0 bottom-full mb-1 z-50 rounded-md border bg-popover shadow-md py-1">
+              {mentionSuggestions.map((profile) => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-accent text-left"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    handleSelectMention(profile);
+                  }}
+                >
+                  <Avatar className="h-5 w-5">
+                    <AvatarFallback className="text-[9px]">
+                      {getInitials(profile.full_name, profile.email)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="truncate">{getDisplayName(profile)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, CheckCircle2, CornerDownRight, GitBranch, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getOpenBlockers, TaskBlocker } from '@/lib/taskDependencies';
+
+interface ChainEntry extends TaskBlocker {
+  blocks_id: string;
+  depth: number;
+}
+
+interface TaskDependenciesProps {
+  task: {
+    id: string;
+    title: string;
+  };
+  onBlockersChange?: (blockers: TaskBlocker[]) => void;
+}
+
+export const TaskDependencies = ({ task, onBlockersChange }: TaskDependenciesProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [chain, setChain] = useState<ChainEntry[]>([]);
+  const [dependents, setDependents] = useState<TaskBlocker[]>([]);
+  const [candidates, setCandidates] = useState<TaskBlocker[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      const [chainResult, dependentsResult] = await Promise.all([
+        supabase.rpc('get_task_dependency_chain', { _task_id: task.id }),
+        supabase
+          .from('task_dependencies')
+          .select('task:tasks!task_dependencies_task_id_fkey (id, title, status)')
+          .eq('depends_on_id', task.id),
+      ]);
+
+      if (chainResult.error) throw chainResult.error;
+      if (dependentsResult.error) throw dependentsResult.error;
+
+      const entries = chainResult.data || [];
+      setChain(entries);
+      setDependents(
+        (dependentsResult.data || [])
+          .map(d => d.task)
+          .filter((t): t is TaskBlocker => t !== null)
+      );
+      onBlockersChange?.(entries.filter(e => e.depth === 1 && e.blocks_id === task.id));
+    } catch (error) {
+      console.error('Error fetching dependencies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [task.id, onBlockersChange]);
+
+  useEffect(() => {
+    const fetchCandidates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('tasks')
+          .select('id, title, status')
+          .neq('id', task.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setCandidates(data || []);
+      } catch (error) {
+        console.error('Error fetching tasks:', error);
+      }
+    };
+
+    fetchDependencies();
+    fetchCandidates();
+  }, [task.id, fetchDependencies]);
+
+  const directBlockers = chain.filter(e => e.depth === 1 && e.blocks_id === task.id);
+  const openBlockers = getOpenBlockers(directBlockers);
+  const unavailableIds = new Set([
+    ...directBlockers.map(b => b.id),
+    // A task that depends on this one can't also block it
+    ...dependents.map(d => d.id),
+  ]);
+  const availableCandidates = candidates.filter(c => !unavailableIds.has(c.id));
+
+  // Render the upstream chain as a tree: each blocker followed by its own blockers
+  const renderChain = (blocksId: string, depth: number, seen: Set<string>): JSX.Element[] =>
+    chain
+      .filter(e => e.blocks_id === blocksId && !seen.has(e.id))
+      .flatMap(entry => [
+        <div
+          key={`${blocksId}-${entry.id}`}
+          className="flex items-center gap-2 text-sm group"
+          style={{ paddingLeft: `${(depth - 1) * 1.25}rem` }}
+        >
+          {depth > 1 && <CornerDownRight className="h-3 w-3 text-muted-foreground shrink-0" />}
+          {entry.status === 'completed' ? (
+            <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+          ) : (
+            <Ban className="h-4 w-4 text-destructive shrink-0" />
+          )}
+          <span className={cn('truncate', entry.status === 'completed' && 'line-through text-muted-foreground')}>
+            {entry.title}
+          </span>
+          <Badge variant="outline" className="text-[10px] capitalize ml-auto shrink-0">
+            {entry.status}
+          </Badge>
+          {depth === 1 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 shrink-0"
+              onClick={() => handleRemove(entry.id)}
+              disabled={isSaving}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>,
+        ...renderChain(entry.id, depth + 1, new Set([...seen, entry.id])),
+      ]);
+
+  const handleAdd = async (dependsOnId: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert({ task_id: task.id, depends_on_id: dependsOnId, created_by: user!.id });
+
+      if (error) throw error;
+      await fetchDependencies();
+    } catch (error) {
+      console.error('Error adding dependency:', error);
+      const message = (error as { message?: string }).message;
+      toast({
+        title: 'Error',
+        description: message?.includes('cycle')
+          ? 'That task already depends on this one'
+          : 'Failed to add dependency',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependsOnId: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', task.id)
+        .eq('depends_on_id', dependsOnId);
+
+      if (error) throw error;
+      await fetchDependencies();
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove dependency',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <GitBranch className="h-4 w-4" />
+        Blocked by
+        {openBlockers.length > 0 && (
+          <span className="text-xs text-destructive font-normal">
+            ({openBlockers.length} open, can't start yet)
+          </span>
+        )}
+      </Label>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : chain.length === 0 ? (
+        <p className="text-xs text-muted-foreground">This task doesn't depend on any other task.</p>
+      ) : (
+        <div className="space-y-1">{renderChain(task.id, 1, new Set([task.id]))}</div>
+      )}
+
+      <Select value="" onValueChange={handleAdd} disabled={isSaving || availableCandidates.length === 0}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Add a task this one depends on..." />
+        </SelectTrigger>
+        <SelectContent>
+          {availableCandidates.map(candidate => (
+            <SelectItem key={candidate.id} value={candidate.id}>
+              {candidate.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {dependents.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Blocks: {dependents.map(d => d.title).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
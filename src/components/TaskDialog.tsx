@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,20 +14,40 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Loader2, Lock, CalendarIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/hooks/useNotifications';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
+import { useUserRole } from '@/hooks/useUserRole';
+import { SubtaskChecklist, SubtaskDraft } from '@/components/SubtaskChecklist';
+import { TaskComments } from '@/components/TaskComments';
+import { TaskDependencies } from '@/components/TaskDependencies';
+import { TaskTimeTracker } from '@/components/TaskTimeTracker';
+import { TaskParticipants } from '@/components/TaskParticipants';
+import { LabelPicker } from '@/components/LabelPicker';
+import { RecurrencePicker } from '@/components/RecurrencePicker';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { canMoveToStatus, describeBlockers, isBlockedTaskError, TaskBlocker } from '@/lib/taskDependencies';
+import { ESTIMATE_HOURS_MIN, ESTIMATE_HOURS_STEP, STORY_POINTS_MIN, STORY_POINTS_STEP, estimateHoursSchema, storyPointsSchema } from '@/lib/estimates';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 
-const taskSchema = z.object({
+// Status options come from the team's workflow columns, so the schema is built per render
+const createTaskSchema = (statusKeys: [string, ...string[]]) => z.object({
   title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
   description: z.string().trim().max(1000, 'Description must be less than 1000 characters').optional(),
-  status: z.enum(['pending', 'in-progress', 'completed']),
+  status: z.enum(statusKeys, { errorMap: () => ({ message: 'Unknown status' }) }),
   priority: z.enum(['low', 'medium', 'high']),
   is_private: z.boolean(),
   deadline: z.date().nullable().optional(),
+  recurrence_rule: z.string().refine(isValidRecurrenceRule, 'Invalid recurrence rule').nullable().optional(),
+  estimate_hours: estimateHoursSchema.nullable().optional(),
+  story_points: storyPointsSchema.nullable().optional(),
+  project_id: z.string().nullable().optional(),
+}).refine((data) => !data.recurrence_rule || !!data.deadline, {
+  message: 'Repeating tasks need a deadline to schedule the next occurrence',
+  path: ['recurrence_rule'],
 });
 
-type TaskForm = z.infer<typeof taskSchema>;
+type TaskForm = z.infer<ReturnType<typeof createTaskSchema>>;
 
 interface Task {
   id: string;
@@ -36,6 +57,11 @@ interface Task {
   priority: string;
   is_private?: boolean;
   deadline?: string | null;
+  user_id?: string;
+  recurrence_id?: string | null;
+  estimate_hours?: number | null;
+  story_points?: number | null;
+  project_id?: string | null;
 }
 
 interface TaskDialogProps {
@@ -49,6 +75,9 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
   const { user } = useAuth();
   const { toast } = useToast();
   const { createNotification } = useNotifications();
+  const { statuses } = useWorkflowStatuses();
+  const { projects, currentProjectId } = useProject();
+  const { isAdmin } = useUserRole();
   const [formData, setFormData] = useState<TaskForm>({
     title: '',
     description: '',
@@ -56,9 +85,21 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
     priority: 'medium',
     is_private: false,
     deadline: null,
+    recurrence_rule: null,
+    estimate_hours: null,
+    story_points: null,
+    project_id: null,
   });
+  const [seriesScope, setSeriesScope] = useState<'occurrence' | 'series'>('occurrence');
+  const [hasActiveSeries, setHasActiveSeries] = useState(false);
+  const [subtasks, setSubtasks] = useState<SubtaskDraft[]>([]);
+  const [blockers, setBlockers] = useState<TaskBlocker[]>([]);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   const [errors, setErrors] = useState<Partial<Record<keyof TaskForm, string>>>({});
   const [isLoading, setIsLoading] = useState(false);
+  // Co-assignees can move the task along, the rest stays with the owner and admins
+  const statusOnly = !!task?.user_id && task.user_id !== user?.id && !isAdmin;
+  const detailsDisabled = isLoading || statusOnly;
 
   useEffect(() => {
     if (task) {
@@ -69,6 +110,10 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
         priority: task.priority as TaskForm['priority'],
         is_private: task.is_private || false,
         deadline: task.deadline ? new Date(task.deadline) : null,
+        recurrence_rule: null,
+        estimate_hours: task.estimate_hours ?? null,
+        story_points: task.story_points ?? null,
+        project_id: task.project_id ?? null,
       });
     } else {
       setFormData({
@@ -78,48 +123,258 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
         priority: 'medium',
         is_private: false,
         deadline: null,
+        recurrence_rule: null,
+        estimate_hours: null,
+        story_points: null,
+        project_id: currentProjectId,
       });
     }
+    setSubtasks([]);
+    setBlockers([]);
+    setLabelIds([]);
+    setSeriesScope('occurrence');
+    setHasActiveSeries(false);
     setErrors({});
-  }, [task, open]);
+    if (task && open) {
+      fetchSubtasks(task.id);
+      fetchLabels(task.id);
+      if (task.recurrence_id) {
+        fetchRecurrence(task.recurrence_id);
+      }
+    }
+  }, [task, open, currentProjectId]);
+
+  const fetchRecurrence = async (recurrenceId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('task_recurrences')
+        .select('rule, is_active')
+        .eq('id', recurrenceId)
+        .single();
+
+      if (error) throw error;
+      if (data.is_active) {
+        setHasActiveSeries(true);
+        setFormData(prev => ({ ...prev, recurrence_rule: data.rule }));
+      }
+    } catch (error) {
+      console.error('Error fetching recurrence:', error);
+    }
+  };
+
+  // Create, update or stop the series behind a task; returns the series id to link the task to
+  const saveRecurrence = async (ownerId: string, existingId: string | null) => {
+    const template = {
+      title: formData.title,
+      description: formData.description || null,
+      priority: formData.priority,
+      is_private: formData.is_private,
+    };
+
+    if (!formData.recurrence_rule) {
+      if (existingId && hasActiveSeries) {
+        const { error } = await supabase
+          .from('task_recurrences')
+          .update({ is_active: false })
+          .eq('id', existingId);
+        if (error) throw error;
+      }
+      return existingId;
+    }
+
+    if (existingId) {
+      // The rule always belongs to the series; the template only changes when editing the whole series
+      const { error } = await supabase
+        .from('task_recurrences')
+        .update({
+          rule: formData.recurrence_rule,
+          is_active: true,
+          ...(seriesScope === 'series' || !hasActiveSeries ? template : {}),
+        })
+        .eq('id', existingId);
+      if (error) throw error;
+      return existingId;
+    }
+
+    const { data, error } = await supabase
+      .from('task_recurrences')
+      .insert({
+        ...template,
+        rule: formData.recurrence_rule,
+        user_id: ownerId,
+        created_by: user!.id,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  };
+
+  const fetchSubtasks = async (taskId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('task_subtasks')
+        .select('id, title, is_completed')
+        .eq('task_id', taskId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setSubtasks(data || []);
+    } catch (error) {
+      console.error('Error fetching subtasks:', error);
+    }
+  };
+
+  const fetchLabels = async (taskId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('task_labels')
+        .select('label_id')
+        .eq('task_id', taskId);
+
+      if (error) throw error;
+      setLabelIds((data || []).map(l => l.label_id));
+    } catch (error) {
+      console.error('Error fetching task labels:', error);
+    }
+  };
+
+  const saveLabels = async (taskId: string) => {
+    let deleteQuery = supabase.from('task_labels').delete().eq('task_id', taskId);
+    if (labelIds.length > 0) {
+      deleteQuery = deleteQuery.not('label_id', 'in', `(${labelIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) throw deleteError;
+
+    if (labelIds.length > 0) {
+      const { error } = await supabase
+        .from('task_labels')
+        .upsert(labelIds.map(labelId => ({ task_id: taskId, label_id: labelId })), { ignoreDuplicates: true });
+      if (error) throw error;
+    }
+  };
+
+  // Sync the checklist with the database: drop removed items, update kept ones, insert new ones
+  const saveSubtasks = async (taskId: string) => {
+    const keptIds = subtasks.filter(s => s.id).map(s => s.id as string);
+
+    let deleteQuery = supabase.from('task_subtasks').delete().eq('task_id', taskId);
+    if (keptIds.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) throw deleteError;
+
+    const rows = subtasks.map((s, index) => ({
+      ...(s.id ? { id: s.id } : {}),
+      task_id: taskId,
+      title: s.title,
+      is_completed: s.is_completed,
+      position: index,
+    }));
+
+    const existingRows = rows.filter(r => 'id' in r);
+    const newRows = rows.filter(r => !('id' in r));
+
+    if (existingRows.length > 0) {
+      const { error } = await supabase.from('task_subtasks').upsert(existingRows);
+      if (error) throw error;
+    }
+    if (newRows.length > 0) {
+      const { error } = await supabase.from('task_subtasks').insert(newRows);
+      if (error) throw error;
+    }
+  };
 
-  const handleChange = (field: keyof TaskForm, value: string) => {
+  const handleChange = (field: keyof TaskForm, value: string | null) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
   };
 
+  // Empty number inputs clear the estimate
+  const handleNumberChange = (field: 'estimate_hours' | 'story_points', value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
     try {
-      taskSchema.parse(formData);
+      const statusKeys = statuses.map(s => s.key);
+      createTaskSchema([statusKeys[0], ...statusKeys.slice(1)]).parse(formData);
+
+      if (task && formData.status !== task.status && !canMoveToStatus(formData.status, blockers)) {
+        setErrors({ status: describeBlockers(blockers) || 'This task is blocked' });
+        return;
+      }
+
       setIsLoading(true);
 
       if (task) {
-        // Update existing task
-        const { error } = await supabase
-          .from('tasks')
-          .update({
-            title: formData.title,
-            description: formData.description || null,
-            status: formData.status,
-            priority: formData.priority,
-            is_private: formData.is_private,
-            deadline: formData.deadline?.toISOString() || null,
-            reminder_sent: formData.deadline ? false : true, // Reset reminder if deadline changed
-          })
-          .eq('id', task.id);
+        if (statusOnly) {
+          const { error } = await supabase
+            .from('tasks')
+            .update({ status: formData.status })
+            .eq('id', task.id);
 
-        if (error) throw error;
+          if (error) throw error;
+        } else {
+          const recurrenceId = await saveRecurrence(task.user_id || user!.id, task.recurrence_id ?? null);
+
+          // Update existing task
+          const { error } = await supabase
+            .from('tasks')
+            .update({
+              title: formData.title,
+              description: formData.description || null,
+              status: formData.status,
+              priority: formData.priority,
+              is_private: formData.is_private,
+              deadline: formData.deadline?.toISOString() || null,
+              estimate_hours: formData.estimate_hours ?? null,
+              story_points: formData.story_points ?? null,
+              project_id: formData.project_id ?? null,
+              recurrence_id: recurrenceId,
+            })
+            .eq('id', task.id);
+
+          if (error) throw error;
+
+          // Editing the whole series also updates its other open occurrences
+          if (recurrenceId && seriesScope === 'series') {
+            const { error: seriesError } = await supabase
+              .from('tasks')
+              .update({
+                title: formData.title,
+                description: formData.description || null,
+                priority: formData.priority,
+                is_private: formData.is_private,
+              })
+              .eq('recurrence_id', recurrenceId)
+              .neq('status', 'completed')
+              .neq('id', task.id);
+
+            if (seriesError) throw seriesError;
+          }
+
+          await saveSubtasks(task.id);
+          await saveLabels(task.id);
+        }
 
         toast({
           title: 'Success',
           description: 'Task updated successfully',
         });
       } else {
+        const recurrenceId = await saveRecurrence(user!.id, null);
+
         // Create new task
         const { data: insertedTask, error } = await supabase
           .from('tasks')
@@ -130,13 +385,20 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
             priority: formData.priority,
             is_private: formData.is_private,
             deadline: formData.deadline?.toISOString() || null,
+            estimate_hours: formData.estimate_hours ?? null,
+            story_points: formData.story_points ?? null,
+            project_id: formData.project_id ?? null,
             user_id: user!.id,
+            recurrence_id: recurrenceId,
           })
           .select()
           .single();
 
         if (error) throw error;
 
+        await saveSubtasks(insertedTask.id);
+        await saveLabels(insertedTask.id);
+
         // Create self-notification for task creation
         await createNotification(
           user!.id,
@@ -162,6 +424,8 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
           }
         });
         setErrors(fieldErrors);
+      } else if (isBlockedTaskError(error as { message?: string })) {
+        setErrors({ status: 'Complete the tasks this one depends on first' });
       } else {
         console.error('Error saving task:', error);
         toast({
@@ -177,11 +441,13 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{task ? 'Edit Task' : 'Create New Task'}</DialogTitle>
           <DialogDescription>
-            {task ? 'Update the task details below' : 'Fill in the details for your new task'}
+            {statusOnly
+              ? 'As a co-assignee you can update the status'
+              : task ? 'Update the task details below' : 'Fill in the details for your new task'}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -193,7 +459,7 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
                 placeholder="Enter task title"
                 value={formData.title}
                 onChange={(e) => handleChange('title', e.target.value)}
-                disabled={isLoading}
+                disabled={detailsDisabled}
                 className={errors.title ? 'border-destructive' : ''}
               />
               {errors.title && (
@@ -207,7 +473,7 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
                 placeholder="Enter task description (optional)"
                 value={formData.description}
                 onChange={(e) => handleChange('description', e.target.value)}
-                disabled={isLoading}
+                disabled={detailsDisabled}
                 rows={4}
                 className={errors.description ? 'border-destructive' : ''}
               />
@@ -227,18 +493,23 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="in-progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
+                    {statuses.map(status => (
+                      <SelectItem key={status.key} value={status.key}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {errors.status && (
+                  <p className="text-sm text-destructive">{errors.status}</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="priority">Priority</Label>
                 <Select
                   value={formData.priority}
                   onValueChange={(value) => handleChange('priority', value)}
-                  disabled={isLoading}
+                  disabled={detailsDisabled}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -252,6 +523,76 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
               </div>
             </div>
 
+            {/* Estimate */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="estimate_hours">Estimate (hours)</Label>
+                <Input
+                  id="estimate_hours"
+                  type="number"
+                  min={ESTIMATE_HOURS_MIN}
+                  step={ESTIMATE_HOURS_STEP}
+                  placeholder="e.g. 4"
+                  value={formData.estimate_hours ?? ''}
+                  onChange={(e) => handleNumberChange('estimate_hours', e.target.value)}
+                  disabled={detailsDisabled}
+                />
+                {errors.estimate_hours && (
+                  <p className="text-sm text-destructive">{errors.estimate_hours}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="story_points">Story Points</Label>
+                <Input
+                  id="story_points"
+                  type="number"
+                  min={STORY_POINTS_MIN}
+                  step={STORY_POINTS_STEP}
+                  placeholder="e.g. 3"
+                  value={formData.story_points ?? ''}
+                  onChange={(e) => handleNumberChange('story_points', e.target.value)}
+                  disabled={detailsDisabled}
+                />
+                {errors.story_points && (
+                  <p className="text-sm text-destructive">{errors.story_points}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Project */}
+            {projects.length > 0 && (
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select
+                  value={formData.project_id || 'none'}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, project_id: value === 'none' ? null : value }))}
+                  disabled={detailsDisabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Labels */}
+            <LabelPicker value={labelIds} onChange={setLabelIds} disabled={detailsDisabled} />
+
+            {/* Subtask Checklist */}
+            <SubtaskChecklist
+              subtasks={subtasks}
+              onChange={setSubtasks}
+              disabled={detailsDisabled}
+            />
+
             {/* Deadline Picker */}
             <div className="space-y-2">
               <Label>Deadline (Optional)</Label>
@@ -263,7 +604,7 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
                       "w-full justify-start text-left font-normal",
                       !formData.deadline && "text-muted-foreground"
                     )}
-                    disabled={isLoading}
+                    disabled={detailsDisabled}
                   >
                     <CalendarIcon className="mr-2 h-4 w-4" />
                     {formData.deadline ? format(formData.deadline, "PPP p") : <span>Pick a deadline</span>}
@@ -296,7 +637,7 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
                   </div>
                 </PopoverContent>
               </Popover>
-              {formData.deadline && (
+              {formData.deadline && !statusOnly && (
                 <Button
                   type="button"
                   variant="ghost"
@@ -309,19 +650,74 @@ export const TaskDialog = ({ open, onOpenChange, onTaskSaved, task }: TaskDialog
               )}
             </div>
 
+            {/* Recurrence */}
+            <RecurrencePicker
+              value={formData.recurrence_rule ?? null}
+              onChange={(rule) => handleChange('recurrence_rule', rule)}
+              disabled={detailsDisabled}
+              error={errors.recurrence_rule}
+            />
+
+            {hasActiveSeries && (
+              <div className="space-y-2">
+                <Label>Apply changes to</Label>
+                <Select
+                  value={seriesScope}
+                  onValueChange={(value) => setSeriesScope(value as 'occurrence' | 'series')}
+                  disabled={detailsDisabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="occurrence">This occurrence only</SelectItem>
+                    <SelectItem value="series">All open occurrences in the series</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Private Task Toggle */}
             <div className="flex items-center space-x-2 pt-2">
               <Checkbox
                 id="is_private"
                 checked={formData.is_private}
                 onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_private: checked === true }))}
-                disabled={isLoading}
+                disabled={detailsDisabled}
               />
               <Label htmlFor="is_private" className="flex items-center gap-2 cursor-pointer">
                 <Lock className="h-4 w-4" />
-                Private Task (only visible to you)
+                Private Task (only visible to you and people you add)
               </Label>
             </div>
+
+            {/* Co-assignees and watchers - only for existing tasks */}
+            {task?.user_id && (
+              <div className="pt-4 border-t">
+                <TaskParticipants task={{ id: task.id, title: task.title, user_id: task.user_id }} />
+              </div>
+            )}
+
+            {/* Dependencies - only for existing tasks */}
+            {task && (
+              <div className="pt-4 border-t">
+                <TaskDependencies task={{ id: task.id, title: task.title }} onBlockersChange={setBlockers} />
+              </div>
+            )}
+
+            {/* Time Tracking - only for existing tasks */}
+            {task && (
+              <div className="pt-4 border-t">
+                <TaskTimeTracker task={{ id: task.id, title: task.title }} />
+              </div>
+            )}
+
+            {/* Comment Thread - only for existing tasks */}
+            {task?.user_id && (
+              <div className="pt-4 border-t">
+                <TaskComments task={{ id: task.id, title: task.title, user_id: task.user_id }} />
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, History, PlusCircle, Trash2, Edit2, ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatHours } from '@/lib/estimates';
+import { useUserGroups } from '@/hooks/useUserGroups';
+
+interface TaskHistoryEntry {
+  id: string;
+  task_id: string;
+  changed_by: string | null;
+  action: string;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+  profiles?: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+interface TaskHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  deadline: 'Deadline',
+  is_private: 'Private',
+  user_id: 'Assignee',
+  estimate_hours: 'Estimate',
+  story_points: 'Story points',
+  pool_group_id: 'Group pool',
+};
+
+export const TaskHistoryDialog = ({ open, onOpenChange, task }: TaskHistoryDialogProps) => {
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { groups } = useUserGroups();
+
+  useEffect(() => {
+    if (open && task) {
+      fetchHistory(task.id);
+    }
+  }, [open, task]);
+
+  const fetchHistory = async (taskId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('task_history')
+        .select(`
+          *,
+          profiles!task_history_changed_by_fkey (
+            full_name,
+            email
+          )
+        `)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+
+      // Resolve assignee ids from reassignment entries to readable names
+      const userIds = new Set<string>();
+      (data || [])
+        .filter(entry => entry.field === 'user_id')
+        .forEach(entry => {
+          if (entry.old_value) userIds.add(entry.old_value);
+          if (entry.new_value) userIds.add(entry.new_value);
+        });
+
+      if (userIds.size > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', Array.from(userIds));
+
+        setUserNames(
+          Object.fromEntries((profiles || []).map(p => [p.id, p.full_name || p.email]))
+        );
+      }
+    } catch (error) {
+      console.error('Error fetching task history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatValue = (field: string | null, value: string | null) => {
+    if (value === null || value === '') return '—';
+    switch (field) {
+      case 'deadline':
+        return format(new Date(value), 'PPP p');
+      case 'is_private':
+        return value === 'true' ? 'Yes' : 'No';
+      case 'user_id':
+        return userNames[value] || 'Unknown User';
+      case 'estimate_hours':
+        return formatHours(Number(value));
+      case 'pool_group_id':
+        return groups.find(g => g.id === value)?.name || 'Deleted group';
+      default:
+        return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+    }
+  };
+
+  const getActionIcon = (action: string) => {
+    switch (action) {
+      case 'created':
+        return <PlusCircle className="h-4 w-4 text-primary" />;
+      case 'deleted':
+        return <Trash2 className="h-4 w-4 text-destructive" />;
+      default:
+        return <Edit2 className="h-4 w-4 text-muted-foreground" />;
+    }
+  };
+
+  const getActionText = (entry: TaskHistoryEntry) => {
+    switch (entry.action) {
+      case 'created':
+        return 'created the task';
+      case 'deleted':
+        return 'deleted the task';
+      default:
+        return `changed ${(fieldLabels[entry.field || ''] || entry.field || 'a field').toLowerCase()}`;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Task History
+          </DialogTitle>
+          <DialogDescription className="truncate">
+            {task ? `Every change made to "${task.title}"` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No history recorded for this task</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-5">
+                <span className="absolute -left-[9px] flex h-[18px] w-[18px] items-center justify-center rounded-full bg-background">
+                  {getActionIcon(entry.action)}
+                </span>
+                <div className="text-sm">
+                  <span className="font-medium">
+                    {entry.profiles?.full_name || entry.profiles?.email || 'System'}
+                  </span>{' '}
+                  <span className="text-muted-foreground">{getActionText(entry)}</span>
+                </div>
+                {entry.action === 'updated' && (
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                    <Badge variant="outline" className="font-normal line-through opacity-70">
+                      {formatValue(entry.field, entry.old_value)}
+                    </Badge>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <Badge variant="secondary" className="font-normal">
+                      {formatValue(entry.field, entry.new_value)}
+                    </Badge>
+                  </div>
+                )}
+                <time className="block text-[11px] text-muted-foreground mt-1">
+                  {format(new Date(entry.created_at), 'PPP p')}
+                </time>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
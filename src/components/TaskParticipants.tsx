@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/hooks/useUserRole';
+import { supabase } from '@/integrations/supabase/client';
+import { useTaskParticipants } from '@/hooks/useTaskParticipants';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, EyeOff, Loader2, Users, X } from 'lucide-react';
+import { ParticipantRole, ROLE_LABELS } from '@/lib/taskParticipants';
+
+interface ParticipantOption {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+interface TaskParticipantsProps {
+  task: {
+    id: string;
+    title: string;
+    user_id: string;
+  };
+}
+
+export const TaskParticipants = ({ task }: TaskParticipantsProps) => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { toast } = useToast();
+  const { participants, isLoading, addParticipant, removeParticipant } = useTaskParticipants(task);
+  const [profiles, setProfiles] = useState<ParticipantOption[]>([]);
+  const [newRole, setNewRole] = useState<ParticipantRole>('assignee');
+
+  // Only the owner and admins decide who works on a task, anyone else can just watch it
+  const canManage = isAdmin || task.user_id === user?.id;
+  const ownRole = participants.find(p => p.user_id === user?.id)?.role;
+
+  useEffect(() => {
+    if (canManage) {
+      fetchProfiles();
+    }
+  }, [canManage]);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .order('full_name');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    }
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAdd = async (userId: string, role: ParticipantRole) => {
+    const ok = await addParticipant(userId, role);
+    if (!ok) showError('Failed to update people on this task');
+  };
+
+  const handleRemove = async (userId: string) => {
+    const ok = await removeParticipant(userId);
+    if (!ok) showError('Failed to remove person from this task');
+  };
+
+  const candidates = profiles.filter(
+    p => p.id !== task.user_id && !participants.some(participant => participant.user_id === p.id)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          People
+        </Label>
+        {!canManage && ownRole !== 'assignee' && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => (ownRole ? handleRemove(user!.id) : handleAdd(user!.id, 'watcher'))}
+          >
+            {ownRole ? <EyeOff className="mr-1 h-3 w-3" /> : <Eye className="mr-1 h-3 w-3" />}
+            {ownRole ? 'Stop watching' : 'Watch'}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : participants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No co-assignees or watchers yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {participants.map(participant => {
+            const name = participant.user_id === user?.id
+              ? 'You'
+              : participant.profiles?.full_name || participant.profiles?.email || 'Unknown User';
+            const role = participant.role as ParticipantRole;
+            const canRemove = canManage || participant.user_id === user?.id;
+            return (
+              <Badge
+                key={participant.user_id}
+                variant={role === 'assignee' ? 'secondary' : 'outline'}
+                className="gap-1"
+              >
+                {role === 'watcher' && <Eye className="h-3 w-3" />}
+                {name}
+                {canManage ? (
+                  <button
+                    type="button"
+                    onClick={() => handleAdd(participant.user_id, role === 'assignee' ? 'watcher' : 'assignee')}
+                    className="text-[10px] text-muted-foreground underline-offset-2 hover:underline"
+                    title="Switch role"
+                  >
+                    {ROLE_LABELS[role].toLowerCase()}
+                  </button>
+                ) : (
+                  <span className="text-[10px] text-muted-foreground">{ROLE_LABELS[role].toLowerCase()}</span>
+                )}
+                {canRemove && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(participant.user_id)}
+                    className="rounded-full opacity-70 hover:opacity-100"
+                    aria-label={`Remove ${name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="grid grid-cols-[8rem_1fr] gap-2">
+          <Select value={newRole} onValueChange={(value: ParticipantRole) => setNewRole(value)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="assignee">Co-assignee</SelectItem>
+              <SelectItem value="watcher">Watcher</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(userId) => handleAdd(userId, newRole)} disabled={candidates.length === 0}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Add a person..." />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.full_name || p.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Edit2, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  describeDeadlineOffset,
+  OffsetUnit,
+  parseChecklist,
+  splitOffset,
+  TaskTemplate,
+  toOffsetHours,
+} from '@/lib/taskTemplates';
+
+interface TaskTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  name: '',
+  title: '',
+  description: '',
+  priority: 'medium',
+  offsetAmount: '',
+  offsetUnit: 'days' as OffsetUnit,
+  checklist: '',
+};
+
+export const TaskTemplatesDialog = ({ open, onOpenChange }: TaskTemplatesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { templates, refetch } = useTaskTemplates();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const handleEdit = (template: TaskTemplate) => {
+    const { amount, unit } = splitOffset(template.deadline_offset_hours);
+    setEditingId(template.id);
+    setFormData({
+      name: template.name,
+      title: template.title,
+      description: template.description || '',
+      priority: template.priority,
+      offsetAmount: amount,
+      offsetUnit: unit,
+      checklist: template.checklist.join('\n'),
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+    const title = formData.title.trim();
+    if (!name || !title || !user) return;
+
+    const values = {
+      name,
+      title,
+      description: formData.description.trim() || null,
+      priority: formData.priority,
+      deadline_offset_hours: toOffsetHours(formData.offsetAmount, formData.offsetUnit),
+      checklist: parseChecklist(formData.checklist),
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = editingId
+        ? await supabase.from('task_templates').update(values).eq('id', editingId)
+        : await supabase.from('task_templates').insert({ ...values, created_by: user.id });
+
+      if (error) throw error;
+
+      toast({
+        title: editingId ? 'Template updated' : 'Template created',
+        description: `"${name}" is ready to use when assigning tasks`,
+      });
+      handleCancel();
+    } catch (error) {
+      console.error('Error saving task template:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'A template with that name already exists'
+        : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', template.id);
+
+      if (error) throw error;
+      if (editingId === template.id) handleCancel();
+    } catch (error) {
+      console.error('Error deleting task template:', error);
+      showError('Failed to delete template');
+    } finally {
+      refetch();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Task Templates
+          </DialogTitle>
+          <DialogDescription>
+            Reusable tasks with a checklist and a deadline relative to when they are assigned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-2">No templates yet</p>
+          ) : (
+            templates.map(template => (
+              <div
+                key={template.id}
+                className={`flex items-start gap-2 rounded-md border p-3 ${editingId === template.id ? 'border-primary' : ''}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{template.title}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    <Badge variant="outline" className="text-xs capitalize">{template.priority}</Badge>
+                    {template.checklist.length > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        {template.checklist.length} checklist {template.checklist.length === 1 ? 'item' : 'items'}
+                      </Badge>
+                    )}
+                    {describeDeadlineOffset(template.deadline_offset_hours) && (
+                      <Badge variant="outline" className="text-xs">
+                        {describeDeadlineOffset(template.deadline_offset_hours)}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(template)}>
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(template)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 pt-4 border-t">
+          <h4 className="text-sm font-semibold">{editingId ? 'Edit template' : 'New template'}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g. Onboarding"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                maxLength={60}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Priority</Label>
+              <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-title">Task title</Label>
+            <Input
+              id="template-title"
+              placeholder="e.g. Onboard new team member"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              maxLength={1000}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Deadline after assignment (optional)</Label>
+            <div className="grid grid-cols-[1fr_8rem] gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="No deadline"
+                value={formData.offsetAmount}
+                onChange={(e) => setFormData({ ...formData, offsetAmount: e.target.value })}
+              />
+              <Select
+                value={formData.offsetUnit}
+                onValueChange={(value: OffsetUnit) => setFormData({ ...formData, offsetUnit: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="days">Days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-checklist">Checklist (one item per line)</Label>
+            <Textarea
+              id="template-checklist"
+              placeholder={'Create accounts\nOrder laptop\nSchedule intro meetings'}
+              value={formData.checklist}
+              onChange={(e) => setFormData({ ...formData, checklist: e.target.value })}
+              rows={4}
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={handleCancel} className="flex-1">
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || !formData.name.trim() || !formData.title.trim()}
+              className="flex-1"
+            >
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              {editingId ? 'Save template' : 'Add template'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Clock, Loader2, Pencil, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatDuration, formatTimer, getEntryDuration, isRunning, sumDurations } from '@/lib/timeTracking';
+
+interface TaskTimeTrackerProps {
+  task: {
+    id: string;
+    title: string;
+  };
+}
+
+export const TaskTimeTracker = ({ task }: TaskTimeTrackerProps) => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { toast } = useToast();
+  const { entries, runningEntry, isLoading, startTimer, stopTimer, addManualEntry, deleteEntry } =
+    useTimeEntries({ taskId: task.id });
+  const [now, setNow] = useState(new Date());
+  const [isSaving, setIsSaving] = useState(false);
+  const [showManual, setShowManual] = useState(false);
+  const [manualDate, setManualDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [manualHours, setManualHours] = useState('');
+  const [manualMinutes, setManualMinutes] = useState('');
+  const [manualNote, setManualNote] = useState('');
+
+  const isTimingThisTask = runningEntry?.task_id === task.id;
+
+  // Tick once a second while a timer is running so totals stay live
+  useEffect(() => {
+    if (!entries.some(isRunning)) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [entries]);
+
+  const totalSeconds = sumDurations(entries, now);
+  const perUser = Object.values(
+    entries.reduce((acc, entry) => {
+      const name = entry.user_id === user?.id
+        ? 'You'
+        : entry.profiles?.full_name || entry.profiles?.email || 'Unknown User';
+      acc[entry.user_id] = acc[entry.user_id] || { name, seconds: 0 };
+      acc[entry.user_id].seconds += getEntryDuration(entry, now);
+      return acc;
+    }, {} as Record<string, { name: string; seconds: number }>)
+  ).sort((a, b) => b.seconds - a.seconds);
+
+  const handleToggleTimer = async () => {
+    setIsSaving(true);
+    const ok = isTimingThisTask ? await stopTimer() : await startTimer(task.id);
+    setIsSaving(false);
+
+    if (!ok) {
+      toast({
+        title: 'Error',
+        description: isTimingThisTask ? 'Failed to stop timer' : 'Failed to start timer',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddManual = async () => {
+    const seconds = (parseInt(manualHours, 10) || 0) * 3600 + (parseInt(manualMinutes, 10) || 0) * 60;
+    if (seconds <= 0) return;
+
+    // Manual entries start at 9:00 on the chosen day, only the duration matters
+    const startedAt = new Date(`${manualDate}T09:00:00`);
+    setIsSaving(true);
+    const ok = await addManualEntry(task.id, startedAt, seconds, manualNote);
+    setIsSaving(false);
+
+    if (ok) {
+      setManualHours('');
+      setManualMinutes('');
+      setManualNote('');
+      setShowManual(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to log time',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          Time Tracking
+          {totalSeconds > 0 && (
+            <span className="text-xs text-muted-foreground font-normal">
+              ({formatDuration(totalSeconds)} total)
+            </span>
+          )}
+        </Label>
+        <div className="flex items-center gap-2">
+          {isTimingThisTask && runningEntry && (
+            <span className="text-sm font-mono tabular-nums text-primary">
+              {formatTimer(getEntryDuration(runningEntry, now))}
+            </span>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant={isTimingThisTask ? 'destructive' : 'outline'}
+            className="h-7 text-xs"
+            onClick={handleToggleTimer}
+            disabled={isSaving}
+          >
+            {isTimingThisTask ? <Square className="mr-1 h-3 w-3" /> : <Play className="mr-1 h-3 w-3" />}
+            {isTimingThisTask ? 'Stop' : 'Start timer'}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => setShowManual(prev => !prev)}
+          >
+            <Pencil className="mr-1 h-3 w-3" />
+            Log time
+          </Button>
+        </div>
+      </div>
+
+      {runningEntry && !isTimingThisTask && (
+        <p className="text-xs text-muted-foreground">
+          Your timer is running on "{runningEntry.tasks?.title}". Starting one here will stop it.
+        </p>
+      )}
+
+      {showManual && (
+        <div className="grid grid-cols-[1fr_4rem_4rem] gap-2 rounded-md border p-2">
+          <Input
+            type="date"
+            value={manualDate}
+            onChange={(e) => setManualDate(e.target.value)}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            className="h-8 text-xs"
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="h"
+            value={manualHours}
+            onChange={(e) => setManualHours(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Input
+            type="number"
+            min={0}
+            max={59}
+            placeholder="min"
+            value={manualMinutes}
+            onChange={(e) => setManualMinutes(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Input
+            placeholder="What did you work on? (optional)"
+            value={manualNote}
+            onChange={(e) => setManualNote(e.target.value)}
+            maxLength={200}
+            className="h-8 text-xs col-span-2"
+          />
+          <Button
+            type="button"
+            size="sm"
+            className="h-8"
+            onClick={handleAddManual}
+            disabled={isSaving || !(parseInt(manualHours, 10) > 0 || parseInt(manualMinutes, 10) > 0)}
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No time logged yet.</p>
+      ) : (
+        <>
+          {perUser.length > 1 && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {perUser.map(u => (
+                <span key={u.name}>
+                  {u.name}: <span className="font-medium text-foreground">{formatDuration(u.seconds)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2 text-xs group">
+                <span className="text-muted-foreground w-20 shrink-0">
+                  {format(new Date(entry.started_at), 'MMM d')}
+                </span>
+                <span className="font-medium w-16 shrink-0">
+                  {isRunning(entry) ? 'running' : formatDuration(getEntryDuration(entry, now))}
+                </span>
+                <span className="truncate text-muted-foreground">
+                  {entry.user_id === user?.id ? 'You' : entry.profiles?.full_name || entry.profiles?.email}
+                  {entry.note && ` · ${entry.note}`}
+                </span>
+                {(entry.user_id === user?.id || isAdmin) && !isRunning(entry) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 ml-auto opacity-0 group-hover:opacity-100 shrink-0"
+                    onClick={() => deleteEntry(entry.id)}
+                  >
+                    <Trash2 className="h-3 w-3 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useUserGroups, UserGroup } from '@/hooks/useUserGroups';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2, UsersRound, X } from 'lucide-react';
+
+interface UserProfile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface UserGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const UserGroupsDialog = ({ open, onOpenChange }: UserGroupsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { groups, refetch } = useUserGroups();
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchUsers();
+    }
+  }, [open]);
+
+  const fetchUsers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .order('full_name');
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name || !user) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_groups')
+        .insert({ name, created_by: user.id });
+
+      if (error) throw error;
+      setNewName('');
+    } catch (error) {
+      console.error('Error creating group:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'A group with that name already exists'
+        : 'Failed to create group');
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleRename = async (group: UserGroup, name: string) => {
+    try {
+      const { error } = await supabase
+        .from('user_groups')
+        .update({ name })
+        .eq('id', group.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error renaming group:', error);
+      showError((error as { code?: string }).code === '23505'
+        ? 'A group with that name already exists'
+        : 'Failed to rename group');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleDelete = async (group: UserGroup) => {
+    try {
+      const { error } = await supabase
+        .from('user_groups')
+        .delete()
+        .eq('id', group.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Group deleted',
+        description: `Unclaimed tasks in "${group.name}" stay with whoever created them`,
+      });
+    } catch (error) {
+      console.error('Error deleting group:', error);
+      showError('Failed to delete group');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleAddMember = async (group: UserGroup, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('user_group_members')
+        .insert({ group_id: group.id, user_id: userId });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error adding group member:', error);
+      showError('Failed to add member');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleRemoveMember = async (group: UserGroup, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('user_group_members')
+        .delete()
+        .eq('group_id', group.id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error removing group member:', error);
+      showError('Failed to remove member');
+    } finally {
+      refetch();
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const profile = users.find(u => u.id === userId);
+    return profile?.full_name || profile?.email || 'Unknown User';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UsersRound className="h-5 w-5" />
+            Groups
+          </DialogTitle>
+          <DialogDescription>
+            Tasks can be assigned to every member of a group, rotated between members, or left in the
+            group's pool for the first member to claim.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New group, e.g. Support"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            maxLength={60}
+            disabled={isSaving}
+            className="h-8"
+          />
+          <Button type="button" size="sm" onClick={handleAdd} disabled={isSaving || !newName.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <div className="space-y-4 pt-2 border-t">
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No groups yet</p>
+          ) : (
+            groups.map(group => {
+              const nonMembers = users.filter(u => !group.memberIds.includes(u.id));
+              return (
+                <div key={group.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      key={group.name}
+                      defaultValue={group.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== group.name) handleRename(group, name);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      maxLength={60}
+                      className="h-8 font-medium"
+                    />
+                    <Badge variant="secondary" className="shrink-0">
+                      {group.memberIds.length} {group.memberIds.length === 1 ? 'member' : 'members'}
+                    </Badge>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => handleDelete(group)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {group.memberIds.map(memberId => (
+                      <Badge key={memberId} variant="outline" className="gap-1">
+                        {getUserName(memberId)}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveMember(group, memberId)}
+                          className="rounded-full opacity-70 hover:opacity-100"
+                          aria-label={`Remove ${getUserName(memberId)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <Select
+                    value=""
+                    onValueChange={(userId) => handleAddMember(group, userId)}
+                    disabled={nonMembers.length === 0}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Add a member..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {nonMembers.map(u => (
+                        <SelectItem key={u.id} value={u.id}>
+                          {u.full_name || u.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
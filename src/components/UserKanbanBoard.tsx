@@ -1,10 +1,24 @@
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Edit2, Trash2, Clock, CheckCircle2, Circle, PlayCircle } from 'lucide-react';
+import { Edit2, Trash2, Clock, CheckCircle2, Circle, PlayCircle, Ban, GripVertical, LucideIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
+import { getChecklistCompletionRate, SubtaskSummary } from '@/lib/taskProgress';
+import { compareBoardPosition, WorkflowStatus } from '@/lib/workflow';
+import { SubtaskProgressBar } from '@/components/SubtaskChecklist';
+import { ParticipantAvatars } from '@/components/ParticipantAvatars';
+import { isAssignedTo, ParticipantProfile, TaskParticipantLink } from '@/lib/taskParticipants';
+import {
+  canMoveToStatus,
+  describeBlockers,
+  getTaskBlockers,
+  isTaskBlocked,
+  TaskDependencyLink,
+} from '@/lib/taskDependencies';
 
 interface Task {
   id: string;
@@ -14,6 +28,11 @@ interface Task {
   priority: string;
   created_at: string;
   user_id: string;
+  board_position?: number;
+  profiles?: ParticipantProfile | null;
+  task_subtasks?: SubtaskSummary[];
+  task_dependencies?: TaskDependencyLink[];
+  task_participants?: TaskParticipantLink[];
 }
 
 interface UserKanbanBoardProps {
@@ -22,28 +41,52 @@ interface UserKanbanBoardProps {
   tasks: Task[];
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
-  onStatusChange: (taskId: string, newStatus: string) => void;
+  // orderedTaskIds is the full order of the target column after the move
+  onMoveTask: (taskId: string, newStatus: string, orderedTaskIds: string[]) => void;
   isAdmin: boolean;
   currentUserId?: string;
 }
 
+interface DropTarget {
+  status: string;
+  index: number;
+}
+
+const getColumnStyle = (status: WorkflowStatus): { icon: LucideIcon; colorClass: string } => {
+  switch (status.key) {
+    case 'pending':
+      return { icon: Circle, colorClass: 'border-muted-foreground/30 text-muted-foreground' };
+    case 'completed':
+      return { icon: CheckCircle2, colorClass: 'border-primary text-primary' };
+    default:
+      return { icon: PlayCircle, colorClass: 'border-warning text-warning' };
+  }
+};
+
 export const UserKanbanBoard = ({
   userName,
   userId,
   tasks,
   onEdit,
   onDelete,
-  onStatusChange,
+  onMoveTask,
   isAdmin,
   currentUserId,
 }: UserKanbanBoardProps) => {
-  const pendingTasks = tasks.filter(t => t.status === 'pending');
-  const inProgressTasks = tasks.filter(t => t.status === 'in-progress' || t.status === 'in_progress');
-  const completedTasks = tasks.filter(t => t.status === 'completed');
+  const { toast } = useToast();
+  const { statuses } = useWorkflowStatuses();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const getColumnTasks = (statusKey: string) =>
+    tasks.filter(t => t.status === statusKey).sort(compareBoardPosition);
 
   const total = tasks.length;
-  const completed = completedTasks.length;
+  const completed = tasks.filter(t => t.status === 'completed').length;
   const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
+  const checklistRate = getChecklistCompletionRate(tasks);
+
+  const canEdit = (task: Task) => isAdmin || isAssignedTo(task, currentUserId);
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -58,115 +101,208 @@ export const UserKanbanBoard = ({
     }
   };
 
-  const StatusColumn = ({ 
-    title, 
-    tasks, 
-    icon: Icon, 
-    colorClass 
-  }: { 
-    title: string; 
-    tasks: Task[]; 
-    icon: any; 
-    colorClass: string;
-  }) => (
-    <div className="flex-1 min-w-[280px]">
-      <div className={cn(
-        "flex items-center gap-2 mb-3 pb-2 border-b-2",
-        colorClass
-      )}>
-        <Icon className="h-4 w-4" />
-        <h4 className="font-semibold text-sm">{title}</h4>
-        <Badge variant="outline" className="ml-auto">
-          {tasks.length}
-        </Badge>
-      </div>
-      <div className="space-y-3">
-        {tasks.length === 0 ? (
-          <div className="text-center py-8 text-muted-foreground text-sm">
-            No tasks
-          </div>
-        ) : (
-          tasks.map(task => (
-            <Card 
-              key={task.id} 
-              className="hover:shadow-md transition-all duration-200 animate-fade-in border-l-4"
-              style={{
-                borderLeftColor: task.priority === 'high' 
-                  ? 'hsl(var(--destructive))' 
-                  : task.priority === 'medium' 
-                  ? 'hsl(var(--warning))' 
-                  : 'hsl(var(--muted))'
-              }}
-            >
-              <CardHeader className="p-3 pb-2">
-                <div className="flex items-start justify-between gap-2">
-                  <CardTitle className="text-sm font-medium line-clamp-2">
-                    {task.title}
-                  </CardTitle>
-                  <div className="flex gap-1 shrink-0">
-                    {(isAdmin || task.user_id === currentUserId) && (
-                      <>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-7 w-7"
-                          onClick={() => onEdit(task)}
-                        >
-                          <Edit2 className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-7 w-7"
-                          onClick={() => onDelete(task.id)}
-                        >
-                          <Trash2 className="h-3 w-3 text-destructive" />
-                        </Button>
-                      </>
-                    )}
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="p-3 pt-0">
-                {task.description && (
-                  <CardDescription className="text-xs line-clamp-2 mb-2">
-                    {task.description}
-                  </CardDescription>
-                )}
-                <div className="flex items-center justify-between">
-                  <Badge variant={getPriorityColor(task.priority)} className="text-xs capitalize">
-                    {task.priority}
-                  </Badge>
+  // Work out where in the column the card would land from the cursor position
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, statusKey: string) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    const cards = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[data-task-id]'))
+      .filter(el => el.dataset.taskId !== draggingId);
+    let index = cards.findIndex(el => {
+      const rect = el.getBoundingClientRect();
+      return e.clientY < rect.top + rect.height / 2;
+    });
+    if (index === -1) index = cards.length;
+
+    if (dropTarget?.status !== statusKey || dropTarget.index !== index) {
+      setDropTarget({ status: statusKey, index });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, statusKey: string) => {
+    e.preventDefault();
+    const task = tasks.find(t => t.id === draggingId);
+    const index = dropTarget?.status === statusKey ? dropTarget.index : 0;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    if (task.status !== statusKey) {
+      const blockers = getTaskBlockers(task.task_dependencies);
+      if (!canMoveToStatus(statusKey, blockers)) {
+        toast({
+          title: 'Task is blocked',
+          description: describeBlockers(blockers),
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    const columnIds = getColumnTasks(statusKey).map(t => t.id).filter(id => id !== task.id);
+    columnIds.splice(index, 0, task.id);
+
+    const currentIds = getColumnTasks(statusKey).map(t => t.id);
+    if (task.status === statusKey && columnIds.join() === currentIds.join()) return;
+
+    onMoveTask(task.id, statusKey, columnIds);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const renderDropIndicator = (statusKey: string, index: number) =>
+    dropTarget?.status === statusKey && dropTarget.index === index ? (
+      <div className="h-1 rounded-full bg-primary/60" />
+    ) : null;
+
+  const renderTaskCard = (task: Task) => {
+    const blockers = getTaskBlockers(task.task_dependencies);
+    const editable = canEdit(task);
+
+    return (
+      <Card
+        key={task.id}
+        data-task-id={task.id}
+        draggable={editable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', task.id);
+          setDraggingId(task.id);
+        }}
+        onDragEnd={handleDragEnd}
+        className={cn(
+          "hover:shadow-md transition-all duration-200 animate-fade-in border-l-4",
+          editable && "cursor-grab active:cursor-grabbing",
+          draggingId === task.id && "opacity-50"
+        )}
+        style={{
+          borderLeftColor: task.priority === 'high'
+            ? 'hsl(var(--destructive))'
+            : task.priority === 'medium'
+            ? 'hsl(var(--warning))'
+            : 'hsl(var(--muted))'
+        }}
+      >
+        <CardHeader className="p-3 pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-sm font-medium line-clamp-2 flex items-start gap-1">
+              {editable && <GripVertical className="h-4 w-4 text-muted-foreground shrink-0" />}
+              {task.title}
+            </CardTitle>
+            <div className="flex gap-1 shrink-0">
+              {editable && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onEdit(task)}
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </Button>
                   {(isAdmin || task.user_id === currentUserId) && (
-                    <Select
-                      value={task.status}
-                      onValueChange={(value) => onStatusChange(task.id, value)}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onDelete(task.id)}
                     >
-                      <SelectTrigger className="h-6 w-24 text-[10px]">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="in-progress">In Progress</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                      </SelectContent>
-                    </Select>
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                    </Button>
                   )}
-                </div>
-                <span className="text-[10px] text-muted-foreground flex items-center gap-1 mt-1">
-                  <Clock className="h-3 w-3" />
-                  {new Date(task.created_at).toLocaleDateString('en-US', { 
-                    month: 'short', 
-                    day: 'numeric' 
-                  })}
-                </span>
-              </CardContent>
-            </Card>
-          ))
-        )}
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-3 pt-0">
+          {task.description && (
+            <CardDescription className="text-xs line-clamp-2 mb-2">
+              {task.description}
+            </CardDescription>
+          )}
+          <SubtaskProgressBar subtasks={task.task_subtasks} className="mb-2" />
+          {isTaskBlocked(blockers) && (
+            <p className="text-[10px] text-destructive flex items-start gap-1 mb-2">
+              <Ban className="h-3 w-3 shrink-0 mt-px" />
+              {describeBlockers(blockers)}
+            </p>
+          )}
+          <div className="flex items-center justify-between">
+            <Badge variant={getPriorityColor(task.priority)} className="text-xs capitalize">
+              {task.priority}
+            </Badge>
+            <ParticipantAvatars task={task} max={3} className="ml-auto mr-2" />
+            <span className="text-[10px] text-muted-foreground flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {new Date(task.created_at).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric'
+              })}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Rendered as a plain function rather than a nested component so cards
+  // aren't remounted mid-drag when the drop indicator moves
+  const renderColumn = (status: WorkflowStatus) => {
+    const { icon: Icon, colorClass } = getColumnStyle(status);
+    const columnTasks = getColumnTasks(status.key);
+    const visibleTasks = columnTasks.filter(t => t.id !== draggingId || t.status !== status.key);
+    const isDropTarget = dropTarget?.status === status.key;
+
+    return (
+      <div key={status.key} className="flex-1 min-w-[280px]">
+        <div className={cn(
+          "flex items-center gap-2 mb-3 pb-2 border-b-2",
+          colorClass
+        )}>
+          <Icon className="h-4 w-4" />
+          <h4 className="font-semibold text-sm">{status.label}</h4>
+          <Badge variant="outline" className="ml-auto">
+            {columnTasks.length}
+          </Badge>
+        </div>
+        <div
+          className={cn(
+            "space-y-3 min-h-[120px] rounded-md transition-colors",
+            isDropTarget && "bg-primary/5"
+          )}
+          onDragOver={(e) => handleDragOver(e, status.key)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+          }}
+          onDrop={(e) => handleDrop(e, status.key)}
+        >
+          {columnTasks.length === 0 && !isDropTarget ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              No tasks
+            </div>
+          ) : (
+            <>
+              {columnTasks.map(task => {
+                const visibleIndex = visibleTasks.indexOf(task);
+                return (
+                  <div key={task.id} className="space-y-3">
+                    {visibleIndex !== -1 && renderDropIndicator(status.key, visibleIndex)}
+                    {renderTaskCard(task)}
+                  </div>
+                );
+              })}
+              {renderDropIndicator(status.key, visibleTasks.length)}
+            </>
+          )}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <Card className="overflow-hidden animate-scale-in">
@@ -175,7 +311,7 @@ export const UserKanbanBoard = ({
           <div className="flex-1 min-w-[200px]">
             <CardTitle className="text-lg">{userName}</CardTitle>
             <CardDescription className="text-xs mt-1">
-              Task completion overview
+              Drag cards between columns to update their status
             </CardDescription>
           </div>
           <div className="flex items-center gap-4">
@@ -186,6 +322,11 @@ export const UserKanbanBoard = ({
               <div className="text-xs text-muted-foreground">
                 {completed} of {total} completed
               </div>
+              {checklistRate !== completionRate && (
+                <div className="text-xs text-muted-foreground">
+                  {checklistRate}% incl. checklists
+                </div>
+              )}
             </div>
             <div className="w-16 h-16 relative">
               <svg className="transform -rotate-90 w-16 h-16">
@@ -218,39 +359,21 @@ export const UserKanbanBoard = ({
         </div>
         <div className="mt-3 space-y-1">
           <Progress value={completionRate} className="h-2" />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span className="flex items-center gap-1">
-              <Circle className="h-3 w-3" /> Pending: {pendingTasks.length}
-            </span>
-            <span className="flex items-center gap-1">
-              <PlayCircle className="h-3 w-3" /> In Progress: {inProgressTasks.length}
-            </span>
-            <span className="flex items-center gap-1">
-              <CheckCircle2 className="h-3 w-3" /> Completed: {completedTasks.length}
-            </span>
+          <div className="flex justify-between flex-wrap gap-2 text-xs text-muted-foreground">
+            {statuses.map(status => {
+              const { icon: Icon } = getColumnStyle(status);
+              return (
+                <span key={status.key} className="flex items-center gap-1">
+                  <Icon className="h-3 w-3" /> {status.label}: {getColumnTasks(status.key).length}
+                </span>
+              );
+            })}
           </div>
         </div>
       </CardHeader>
       <CardContent className="p-4">
         <div className="flex gap-4 overflow-x-auto pb-2">
-          <StatusColumn
-            title="Pending"
-            tasks={pendingTasks}
-            icon={Circle}
-            colorClass="border-muted-foreground/30 text-muted-foreground"
-          />
-          <StatusColumn
-            title="In Progress"
-            tasks={inProgressTasks}
-            icon={PlayCircle}
-            colorClass="border-warning text-warning"
-          />
-          <StatusColumn
-            title="Completed"
-            tasks={completedTasks}
-            icon={CheckCircle2}
-            colorClass="border-primary text-primary"
-          />
+          {statuses.map(renderColumn)}
         </div>
       </CardContent>
     </Card>
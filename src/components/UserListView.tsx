@@ -1,7 +1,13 @@
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { User, ChevronRight, CheckCircle2, Circle, PlayCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { User, ChevronRight, CheckCircle2, Circle, PlayCircle, Gauge, AlertTriangle } from 'lucide-react';
+import { LabelBadge } from '@/components/LabelPicker';
+import { compareLabels, getTaskLabels, Label, TaskLabelLink } from '@/lib/labels';
+import { useTeamCapacity } from '@/hooks/useTeamCapacity';
+import { formatHours, getLoadLevel, getLoadPercent, getOpenWorkload, LoadLevel } from '@/lib/estimates';
 
 interface Task {
   id: string;
@@ -12,10 +18,13 @@ interface Task {
   created_at: string;
   user_id: string;
   is_private?: boolean;
+  estimate_hours?: number | null;
+  story_points?: number | null;
   profiles?: {
     full_name: string | null;
     email: string;
   };
+  task_labels?: TaskLabelLink[];
 }
 
 interface UserData {
@@ -30,84 +39,243 @@ interface UserListViewProps {
   onUserClick: (user: UserData) => void;
 }
 
+const hasLabel = (task: Task, labelId: string) =>
+  getTaskLabels(task.task_labels).some(l => l.id === labelId);
+
+const LOAD_STYLES: Record<LoadLevel, { text: string; bar: string }> = {
+  light: { text: 'text-muted-foreground', bar: '' },
+  busy: { text: 'text-warning', bar: '[&>div]:bg-warning' },
+  overloaded: { text: 'text-destructive', bar: '[&>div]:bg-destructive' },
+};
+
 export const UserListView = ({ users, onUserClick }: UserListViewProps) => {
+  const [labelFilter, setLabelFilter] = useState<string>('all');
+  const [groupByLabel, setGroupByLabel] = useState(false);
+  const [sortByLoad, setSortByLoad] = useState(false);
+  const { getCapacity } = useTeamCapacity();
+
+  // Capacity is about all of a user's open work, regardless of the label filter
+  const getLoad = (userData: UserData) => {
+    const workload = getOpenWorkload(userData.tasks);
+    const capacity = getCapacity(userData.userId);
+    return {
+      ...workload,
+      capacity,
+      percent: getLoadPercent(workload.hours, capacity),
+      level: getLoadLevel(workload.hours, capacity),
+    };
+  };
+
+  const overloadedCount = users.filter(u => getLoad(u).level === 'overloaded').length;
+
+  // Only offer labels that are actually used by someone's tasks
+  const usedLabels = Object.values(
+    users
+      .flatMap(u => u.tasks.flatMap(t => getTaskLabels(t.task_labels)))
+      .reduce((acc, label) => ({ ...acc, [label.id]: label }), {} as Record<string, Label>)
+  ).sort(compareLabels);
+
+  // Narrow each user's tasks to a label; users without matching tasks are left out
+  const scopeToLabel = (labelId: string) =>
+    users
+      .map(u => ({ userData: u, tasks: u.tasks.filter(t => hasLabel(t, labelId)) }))
+      .filter(entry => entry.tasks.length > 0);
+
+  const sortEntries = <T extends { userData: UserData }>(entries: T[]) =>
+    sortByLoad ? [...entries].sort((a, b) => getLoad(b.userData).percent - getLoad(a.userData).percent) : entries;
+
+  const visibleUsers = sortEntries(
+    labelFilter === 'all'
+      ? users.map(u => ({ userData: u, tasks: u.tasks }))
+      : scopeToLabel(labelFilter)
+  );
+
+  const groups = groupByLabel
+    ? usedLabels
+        .filter(label => labelFilter === 'all' || label.id === labelFilter)
+        .map(label => ({ label: label as Label | null, entries: sortEntries(scopeToLabel(label.id)) }))
+    : [{ label: null as Label | null, entries: visibleUsers }];
+
+  const renderUserCard = (userData: UserData, tasks: Task[]) => {
+    const total = tasks.length;
+    const completed = tasks.filter(t => t.status === 'completed').length;
+    const inProgress = tasks.filter(t => t.status !== 'pending' && t.status !== 'completed').length;
+    const pending = tasks.filter(t => t.status === 'pending').length;
+    const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+    // Most used labels first
+    const labelCounts = tasks
+      .flatMap(t => getTaskLabels(t.task_labels))
+      .reduce((acc, label) => {
+        acc[label.id] = { label, count: (acc[label.id]?.count || 0) + 1 };
+        return acc;
+      }, {} as Record<string, { label: Label; count: number }>);
+    const topLabels = Object.values(labelCounts).sort((a, b) => b.count - a.count).slice(0, 4);
+    const load = getLoad(userData);
+
+    return (
+      <Card
+        key={userData.userId}
+        className="cursor-pointer hover:shadow-lg hover:border-primary/50 transition-all duration-200 group"
+        onClick={() => onUserClick(userData)}
+      >
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+                <User className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-base">{userData.userName}</CardTitle>
+                <CardDescription className="text-xs truncate max-w-[150px]">
+                  {userData.userEmail}
+                </CardDescription>
+              </div>
+            </div>
+            <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-primary transition-colors" />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Tasks</span>
+            <Badge variant="secondary">{total}</Badge>
+          </div>
+          
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span>Completion</span>
+              <span className="font-medium">{completionRate}%</span>
+            </div>
+            <Progress value={completionRate} className="h-2" />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="flex items-center gap-1">
+                <Gauge className="h-3 w-3" /> Open workload
+              </span>
+              <span className={`font-medium ${LOAD_STYLES[load.level].text}`}>
+                {formatHours(load.hours)} / {formatHours(load.capacity)}
+                {load.points > 0 && ` · ${load.points} pts`}
+              </span>
+            </div>
+            <Progress value={Math.min(load.percent, 100)} className={`h-2 ${LOAD_STYLES[load.level].bar}`} />
+            {(load.level === 'overloaded' || load.unestimated > 0) && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                {load.level === 'overloaded' && (
+                  <span className="flex items-center gap-1 text-destructive font-medium">
+                    <AlertTriangle className="h-3 w-3" /> Overloaded
+                  </span>
+                )}
+                {load.unestimated > 0 && (
+                  <span>{load.unestimated} open task{load.unestimated === 1 ? '' : 's'} without estimate</span>
+                )}
+              </p>
+            )}
+          </div>
+
+          {topLabels.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {topLabels.map(({ label, count }) => (
+                <LabelBadge key={label.id} label={label} count={count} />
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between text-xs text-muted-foreground pt-2 border-t">
+            <span className="flex items-center gap-1">
+              <Circle className="h-3 w-3" /> {pending}
+            </span>
+            <span className="flex items-center gap-1">
+              <PlayCircle className="h-3 w-3" /> {inProgress}
+            </span>
+            <span className="flex items-center gap-1">
+              <CheckCircle2 className="h-3 w-3" /> {completed}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <div className="space-y-4">
-      <div className="flex items-center gap-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
         <User className="h-5 w-5 text-primary" />
         <h3 className="text-xl font-semibold">Users Overview</h3>
         <Badge variant="secondary" className="ml-2">
-          {users.length} {users.length === 1 ? 'user' : 'users'}
+          {visibleUsers.length} {visibleUsers.length === 1 ? 'user' : 'users'}
         </Badge>
+        {overloadedCount > 0 && (
+          <Badge variant="destructive" className="gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {overloadedCount} overloaded
+          </Badge>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Select value={sortByLoad ? 'load' : 'name'} onValueChange={(value) => setSortByLoad(value === 'load')}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="name">Default Order</SelectItem>
+              <SelectItem value="load">Most Loaded First</SelectItem>
+            </SelectContent>
+          </Select>
+          {usedLabels.length > 0 && (
+            <>
+              <Select value={labelFilter} onValueChange={setLabelFilter}>
+                <SelectTrigger className="h-8 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Labels</SelectItem>
+                  {usedLabels.map(label => (
+                    <SelectItem key={label.id} value={label.id}>
+                      {label.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={groupByLabel ? 'label' : 'none'}
+                onValueChange={(value) => setGroupByLabel(value === 'label')}
+              >
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No Grouping</SelectItem>
+                  <SelectItem value="label">Group by Label</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
       </div>
 
-      {users.length === 0 ? (
+      {visibleUsers.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
             <p className="text-muted-foreground">No users found</p>
           </CardContent>
         </Card>
       ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {users.map((userData) => {
-            const total = userData.tasks.length;
-            const completed = userData.tasks.filter(t => t.status === 'completed').length;
-            const inProgress = userData.tasks.filter(t => t.status === 'in-progress' || t.status === 'in_progress').length;
-            const pending = userData.tasks.filter(t => t.status === 'pending').length;
-            const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
-
-            return (
-              <Card
-                key={userData.userId}
-                className="cursor-pointer hover:shadow-lg hover:border-primary/50 transition-all duration-200 group"
-                onClick={() => onUserClick(userData)}
-              >
-                <CardHeader className="pb-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
-                        <User className="h-5 w-5 text-primary" />
-                      </div>
-                      <div>
-                        <CardTitle className="text-base">{userData.userName}</CardTitle>
-                        <CardDescription className="text-xs truncate max-w-[150px]">
-                          {userData.userEmail}
-                        </CardDescription>
-                      </div>
-                    </div>
-                    <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-primary transition-colors" />
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Tasks</span>
-                    <Badge variant="secondary">{total}</Badge>
-                  </div>
-                  
-                  <div className="space-y-1">
-                    <div className="flex justify-between text-xs">
-                      <span>Completion</span>
-                      <span className="font-medium">{completionRate}%</span>
-                    </div>
-                    <Progress value={completionRate} className="h-2" />
-                  </div>
-
-                  <div className="flex justify-between text-xs text-muted-foreground pt-2 border-t">
-                    <span className="flex items-center gap-1">
-                      <Circle className="h-3 w-3" /> {pending}
-                    </span>
-                    <span className="flex items-center gap-1">
-                      <PlayCircle className="h-3 w-3" /> {inProgress}
-                    </span>
-                    <span className="flex items-center gap-1">
-                      <CheckCircle2 className="h-3 w-3" /> {completed}
-                    </span>
-                  </div>
-                </CardContent>
-              </Card>
-            );
-          })}
-        </div>
+        groups.map(group => (
+          <div key={group.label?.id || 'all'} className="space-y-3">
+            {group.label && (
+              <div className="flex items-center gap-2 pt-2">
+                <LabelBadge label={group.label} className="text-sm" />
+                <Badge variant="outline">
+                  {group.entries.length} {group.entries.length === 1 ? 'user' : 'users'}
+                </Badge>
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {group.entries.map(({ userData, tasks }) => renderUserCard(userData, tasks))}
+            </div>
+          </div>
+        ))
       )}
     </div>
   );
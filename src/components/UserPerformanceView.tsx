@@ -2,9 +2,16 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, CheckCircle2, Circle, PlayCircle, BarChart3, PieChart, TrendingUp, Lock } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, Circle, PlayCircle, BarChart3, PieChart, TrendingUp, Lock, History, Clock } from 'lucide-react';
+import { TaskHistoryDialog } from '@/components/TaskHistoryDialog';
+import { CompletionRateCard } from '@/components/CompletionRateCard';
+import { getChecklistCompletionRate, SubtaskSummary } from '@/lib/taskProgress';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
+import { getStatusBadgeVariant, getStatusLabel } from '@/lib/workflow';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import { formatDuration, getEntryDuration, getWeekStart, toHours } from '@/lib/timeTracking';
+import { addDays, format } from 'date-fns';
 import { PieChart as RechartsPie, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
 interface Task {
@@ -16,6 +23,7 @@ interface Task {
   created_at: string;
   user_id: string;
   is_private?: boolean;
+  task_subtasks?: SubtaskSummary[];
 }
 
 interface UserPerformanceViewProps {
@@ -43,10 +51,14 @@ export const UserPerformanceView = ({
   isAdmin,
   currentUserId,
 }: UserPerformanceViewProps) => {
-  const [chartType, setChartType] = useState<'pie' | 'bar' | 'progress'>('pie');
+  const [chartType, setChartType] = useState<'pie' | 'bar' | 'progress' | 'time'>('pie');
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
+  const { statuses } = useWorkflowStatuses();
+  const { entries: timeEntries } = useTimeEntries({ userId });
 
   const pendingTasks = tasks.filter(t => t.status === 'pending');
-  const inProgressTasks = tasks.filter(t => t.status === 'in-progress' || t.status === 'in_progress');
+  // Every stage between pending and completed (including custom columns) counts as in progress
+  const inProgressTasks = tasks.filter(t => t.status !== 'pending' && t.status !== 'completed');
   const completedTasks = tasks.filter(t => t.status === 'completed');
 
   const total = tasks.length;
@@ -55,11 +67,17 @@ export const UserPerformanceView = ({
   const pending = pendingTasks.length;
   const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
-  const statusData = [
-    { name: 'Pending', value: pending, color: 'hsl(var(--muted-foreground))' },
-    { name: 'In Progress', value: inProgress, color: 'hsl(var(--warning))' },
-    { name: 'Completed', value: completed, color: 'hsl(var(--primary))' },
-  ];
+  // Custom stages cycle through a few hues so they stay distinguishable in the charts
+  const stageColors = ['hsl(var(--warning))', 'hsl(var(--accent-foreground))', 'hsl(var(--destructive))'];
+  const statusData = statuses.map((status, index) => ({
+    name: status.label,
+    value: tasks.filter(t => t.status === status.key).length,
+    color: status.key === 'pending'
+      ? 'hsl(var(--muted-foreground))'
+      : status.key === 'completed'
+      ? 'hsl(var(--primary))'
+      : stageColors[Math.max(index - 1, 0) % stageColors.length],
+  }));
 
   const priorityData = [
     { name: 'High', value: tasks.filter(t => t.priority === 'high').length, color: 'hsl(var(--destructive))' },
@@ -67,6 +85,31 @@ export const UserPerformanceView = ({
     { name: 'Low', value: tasks.filter(t => t.priority === 'low').length, color: 'hsl(var(--secondary))' },
   ];
 
+  // Time spent: the last 8 weeks, and the tasks that took the most time overall
+  const currentWeekStart = getWeekStart(new Date());
+  const weeklyTimeData = Array.from({ length: 8 }, (_, i) => {
+    const weekStart = addDays(currentWeekStart, (i - 7) * 7);
+    const weekEnd = addDays(weekStart, 7);
+    const seconds = timeEntries
+      .filter(e => new Date(e.started_at) >= weekStart && new Date(e.started_at) < weekEnd)
+      .reduce((sum, e) => sum + getEntryDuration(e), 0);
+    return { name: format(weekStart, 'MMM d'), hours: toHours(seconds) };
+  });
+
+  const taskTimeData = Object.values(
+    timeEntries.reduce((acc, entry) => {
+      const name = entry.tasks?.title || 'Deleted task';
+      acc[entry.task_id] = acc[entry.task_id] || { name, seconds: 0 };
+      acc[entry.task_id].seconds += getEntryDuration(entry);
+      return acc;
+    }, {} as Record<string, { name: string; seconds: number }>)
+  )
+    .sort((a, b) => b.seconds - a.seconds)
+    .slice(0, 8)
+    .map(t => ({ name: t.name, hours: toHours(t.seconds) }));
+
+  const totalTrackedSeconds = timeEntries.reduce((sum, e) => sum + getEntryDuration(e), 0);
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'destructive';
@@ -76,15 +119,6 @@ export const UserPerformanceView = ({
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed': return 'default';
-      case 'in-progress': return 'warning';
-      case 'pending': return 'secondary';
-      default: return 'secondary';
-    }
-  };
-
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Header */}
@@ -142,7 +176,7 @@ export const UserPerformanceView = ({
             <CardTitle>Performance Analytics</CardTitle>
             <CardDescription>Task distribution and progress visualization</CardDescription>
           </div>
-          <Select value={chartType} onValueChange={(v) => setChartType(v as 'pie' | 'bar' | 'progress')}>
+          <Select value={chartType} onValueChange={(v) => setChartType(v as 'pie' | 'bar' | 'progress' | 'time')}>
             <SelectTrigger className="w-40">
               <SelectValue />
             </SelectTrigger>
@@ -165,6 +199,12 @@ export const UserPerformanceView = ({
                   Progress View
                 </div>
               </SelectItem>
+              <SelectItem value="time">
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Time Spent
+                </div>
+              </SelectItem>
             </SelectContent>
           </Select>
         </CardHeader>
@@ -275,45 +315,54 @@ export const UserPerformanceView = ({
             </div>
           )}
 
-          {chartType === 'progress' && (
-            <div className="space-y-6">
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Overall Completion</span>
-                  <span className="font-medium">{completionRate}%</span>
-                </div>
-                <Progress value={completionRate} className="h-4" />
-              </div>
-              <div className="grid md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="flex items-center gap-1">
-                      <Circle className="h-3 w-3" /> Pending
-                    </span>
-                    <span>{total > 0 ? Math.round((pending / total) * 100) : 0}%</span>
-                  </div>
-                  <Progress value={total > 0 ? (pending / total) * 100 : 0} className="h-2" />
-                </div>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="flex items-center gap-1">
-                      <PlayCircle className="h-3 w-3" /> In Progress
-                    </span>
-                    <span>{total > 0 ? Math.round((inProgress / total) * 100) : 0}%</span>
+          {chartType === 'time' && (
+            timeEntries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">No time has been logged yet.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground text-center">
+                  {formatDuration(totalTrackedSeconds)} tracked in total
+                </p>
+                <div className="grid md:grid-cols-2 gap-8">
+                  <div>
+                    <h4 className="text-sm font-medium mb-4 text-center">Hours per Week</h4>
+                    <ResponsiveContainer width="100%" height={250}>
+                      <BarChart data={weeklyTimeData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis />
+                        <Tooltip formatter={(value) => [`${value}h`, 'Time']} />
+                        <Bar dataKey="hours" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
                   </div>
-                  <Progress value={total > 0 ? (inProgress / total) * 100 : 0} className="h-2" />
-                </div>
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="flex items-center gap-1">
-                      <CheckCircle2 className="h-3 w-3" /> Completed
-                    </span>
-                    <span>{total > 0 ? Math.round((completed / total) * 100) : 0}%</span>
+                  <div>
+                    <h4 className="text-sm font-medium mb-4 text-center">Hours by Task</h4>
+                    <ResponsiveContainer width="100%" height={250}>
+                      <BarChart data={taskTimeData} layout="vertical">
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" />
+                        <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 12 }} />
+                        <Tooltip formatter={(value) => [`${value}h`, 'Time']} />
+                        <Bar dataKey="hours" fill="hsl(var(--warning))" radius={[0, 4, 4, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
                   </div>
-                  <Progress value={total > 0 ? (completed / total) * 100 : 0} className="h-2" />
                 </div>
               </div>
-            </div>
+            )
+          )}
+
+          {chartType === 'progress' && (
+            <CompletionRateCard
+              userName={userName}
+              userId={userId}
+              totalTasks={total}
+              completedTasks={completed}
+              inProgressTasks={inProgress}
+              pendingTasks={pending}
+              checklistCompletionRate={getChecklistCompletionRate(tasks)}
+            />
           )}
         </CardContent>
       </Card>
@@ -359,16 +408,29 @@ export const UserPerformanceView = ({
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="pending">Pending</SelectItem>
-                            <SelectItem value="in-progress">In Progress</SelectItem>
-                            <SelectItem value="completed">Completed</SelectItem>
+                            {statuses.map(status => (
+                              <SelectItem key={status.key} value={status.key}>
+                                {status.label}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       ) : (
-                        <Badge variant={getStatusColor(task.status)} className="capitalize">
-                          {task.status}
+                        <Badge variant={getStatusBadgeVariant(task.status)}>
+                          {getStatusLabel(statuses, task.status)}
                         </Badge>
                       )}
+                      {isAdmin && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setHistoryTask(task)}
+                          title="View history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -377,6 +439,12 @@ export const UserPerformanceView = ({
           )}
         </CardContent>
       </Card>
+
+      <TaskHistoryDialog
+        open={!!historyTask}
+        onOpenChange={(open) => !open && setHistoryTask(null)}
+        task={historyTask}
+      />
     </div>
   );
 };
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, Columns3, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toStatusKey, WorkflowStatus } from '@/lib/workflow';
+
+interface WorkflowColumnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const WorkflowColumnsDialog = ({ open, onOpenChange }: WorkflowColumnsDialogProps) => {
+  const { toast } = useToast();
+  const { statuses, refetch } = useWorkflowStatuses();
+  const [newLabel, setNewLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Store the given order as consecutive positions, touching only rows that moved
+  const savePositions = async (ordered: WorkflowStatus[]) => {
+    const changed = ordered
+      .map((status, index) => ({ status, index }))
+      .filter(({ status, index }) => status.position !== index);
+
+    const results = await Promise.all(
+      changed.map(({ status, index }) =>
+        supabase.from('workflow_statuses').update({ position: index }).eq('id', status.id)
+      )
+    );
+    const failed = results.find(r => r.error);
+    if (failed?.error) throw failed.error;
+  };
+
+  const handleAdd = async () => {
+    const label = newLabel.trim();
+    const key = toStatusKey(label);
+    if (!key) return;
+
+    if (statuses.some(s => s.key === key)) {
+      toast({
+        title: 'Column exists',
+        description: `There is already a "${label}" column`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // New stages go right before Completed
+      const ordered = [...statuses];
+      const completedIndex = ordered.findIndex(s => s.key === 'completed');
+      const insertAt = completedIndex === -1 ? ordered.length : completedIndex;
+
+      const { data, error } = await supabase
+        .from('workflow_statuses')
+        .insert({ key, label, position: insertAt })
+        .select('id, key, label, position, is_system')
+        .single();
+
+      if (error) throw error;
+
+      ordered.splice(insertAt, 0, data);
+      await savePositions(ordered);
+
+      setNewLabel('');
+      toast({
+        title: 'Column added',
+        description: `"${label}" is now available on every board`,
+      });
+    } catch (error) {
+      console.error('Error adding workflow status:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add column',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleRename = async (status: WorkflowStatus, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed || trimmed === status.label) return;
+
+    try {
+      const { error } = await supabase
+        .from('workflow_statuses')
+        .update({ label: trimmed })
+        .eq('id', status.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error renaming workflow status:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to rename column',
+        variant: 'destructive',
+      });
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const ordered = [...statuses];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + direction, 0, moved);
+
+    setIsSaving(true);
+    try {
+      await savePositions(ordered);
+    } catch (error) {
+      console.error('Error reordering workflow statuses:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to reorder columns',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  const handleDelete = async (status: WorkflowStatus) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('workflow_statuses')
+        .delete()
+        .eq('id', status.id);
+
+      if (error) {
+        // tasks.status references the column, so it can't go while tasks are in it
+        if (error.code === '23503') {
+          toast({
+            title: 'Column is in use',
+            description: `Move the tasks out of "${status.label}" before deleting it`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error deleting workflow status:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete column',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+      refetch();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            Workflow Columns
+          </DialogTitle>
+          <DialogDescription>
+            Add stages like Review or QA. Columns apply to every board and task status picker.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {statuses.map((status, index) => (
+            <div key={status.id} className="flex items-center gap-2">
+              <Input
+                key={status.label}
+                defaultValue={status.label}
+                onBlur={(e) => handleRename(status, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                maxLength={40}
+                className="h-8"
+              />
+              {status.is_system && (
+                <Badge variant="secondary" className="text-[10px] shrink-0">Built-in</Badge>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => handleMove(index, -1)}
+                disabled={isSaving || index === 0}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => handleMove(index, 1)}
+                disabled={isSaving || index === statuses.length - 1}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => handleDelete(status)}
+                disabled={isSaving || status.is_system}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 pt-2 border-t">
+          <Input
+            placeholder="New column, e.g. Review"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            maxLength={40}
+            disabled={isSaving}
+          />
+          <Button type="button" onClick={handleAdd} disabled={isSaving || !toStatusKey(newLabel)}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Project, ProjectContext } from '@/hooks/useProject';
+
+const STORAGE_KEY = 'currentProjectId';
+
+export const ProjectProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(
+    () => localStorage.getItem(STORAGE_KEY)
+  );
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, description, project_members (user_id)')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(
+        (data || []).map(project => ({
+          id: project.id,
+          name: project.name,
+          description: project.description,
+          memberIds: project.project_members.map(m => m.user_id),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setProjects([]);
+      return;
+    }
+
+    setIsLoading(true);
+    fetchProjects();
+
+    const channel = supabase
+      .channel(`projects-${user.id}-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, () => fetchProjects())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'project_members' }, () => fetchProjects())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (currentProjectId) {
+      localStorage.setItem(STORAGE_KEY, currentProjectId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, [currentProjectId]);
+
+  // Fall back to all projects when the selected one is deleted or the user is removed from it
+  useEffect(() => {
+    if (!isLoading && currentProjectId && !projects.some(p => p.id === currentProjectId)) {
+      setCurrentProjectId(null);
+    }
+  }, [projects, isLoading, currentProjectId]);
+
+  const currentProject = projects.find(p => p.id === currentProjectId) || null;
+
+  return (
+    <ProjectContext.Provider
+      value={{
+        projects,
+        currentProjectId: currentProject?.id ?? null,
+        currentProject,
+        setCurrentProjectId,
+        isLoading,
+        refetch: fetchProjects,
+      }}
+    >
+      {children}
+    </ProjectContext.Provider>
+  );
+};
@@ -1,15 +1,33 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import {
+  ChatConversation,
+  ConversationKind,
+  ConversationMember,
+  ConversationRole,
+  NewConversation,
+  sortConversations,
+  toScopeColumns,
+} from '@/lib/chatConversations';
+import { summarizeThreads } from '@/lib/chatThreads';
+import { ChatSearchResult, MIN_SEARCH_LENGTH } from '@/lib/chatSearch';
 
 export interface ChatMessage {
   id: string;
   sender_id: string;
-  receiver_id: string;
+  receiver_id: string | null;
+  conversation_id?: string | null;
+  // Set on join and leave entries in a conversation timeline
+  event?: string | null;
+  // Root message of the thread this reply belongs to
+  parent_id?: string | null;
   message: string;
   is_read: boolean;
   created_at: string;
+  // Set when the sender changed the text; earlier versions are kept as revisions
+  edited_at?: string | null;
   expires_at?: string | null;
   file_url?: string | null;
   file_name?: string | null;
@@ -27,6 +45,15 @@ export interface ChatMessage {
   reactions?: MessageReaction[];
 }
 
+// Chat history is loaded newest first, this many messages at a time
+const MESSAGE_PAGE_SIZE = 50;
+
+// Where a page of history ends; id breaks ties between messages with the same timestamp
+interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
 interface MessageReaction {
   id: string;
   message_id: string;
@@ -60,6 +87,8 @@ interface UserPresence {
 
 export const useChat = () => {
   const { user } = useAuth();
+  // Callbacks depend on the id, so refreshing the session does not reload the chat
+  const userId = user?.id;
   const { toast } = useToast();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [chatUsers, setChatUsers] = useState<ChatUser[]>([]);
@@ -71,6 +100,18 @@ export const useChat = () => {
   const [otherUserTyping, setOtherUserTyping] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [profileEnsured, setProfileEnsured] = useState(false);
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [conversationMembers, setConversationMembers] = useState<ConversationMember[]>([]);
+  const [threadReads, setThreadReads] = useState<Record<string, string>>({});
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // The chat (conversation or other user) the loaded messages belong to
+  const [loadedChatId, setLoadedChatId] = useState<string | null>(null);
+  // Position of the oldest message loaded for the open chat; null once the start is reached
+  const oldestLoadedRef = useRef<MessageCursor | null>(null);
 
   // Ensure user profile exists before any operations
   const ensureProfile = useCallback(async () => {
@@ -146,21 +187,21 @@ export const useChat = () => {
   }, [selectedUser, updatePresence]);
 
   // Fetch blocked users
-  const fetchBlockedUsers = async () => {
-    if (!user) return;
+  const fetchBlockedUsers = useCallback(async () => {
+    if (!userId) return;
 
     try {
       const { data, error } = await supabase
         .from('blocked_users')
         .select('blocked_id')
-        .eq('blocker_id', user.id);
+        .eq('blocker_id', userId);
 
       if (error) throw error;
       setBlockedUsers(data?.map(b => b.blocked_id) || []);
     } catch (error) {
       console.error('Error fetching blocked users:', error);
     }
-  };
+  }, [userId]);
 
   // Update a chat user's last message locally and move them to top
   const updateChatUserLastMessage = (userId: string, message: string | null, senderId: string | null, createdAt: string | null, isRead: boolean | null) => {
@@ -196,121 +237,193 @@ export const useChat = () => {
   };
 
   // Fetch all users for chat with presence
-  const fetchChatUsers = async () => {
-    if (!user) return;
+  const fetchChatUsers = useCallback(async () => {
+    if (!userId) return;
 
     try {
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, email, full_name, avatar_url')
-        .neq('id', user.id);
+      // Unread counts and the last message of each chat come back with the profiles
+      const [{ data: profiles, error: profilesError }, { data: presenceData }] = await Promise.all([
+        supabase.rpc('get_chat_users'),
+        supabase.from('user_presence').select('*'),
+      ]);
 
       if (profilesError) throw profilesError;
 
-      // Get presence data
-      const { data: presenceData } = await supabase
-        .from('user_presence')
-        .select('*');
-
-      // Get unread counts, blocked status and last message for each user
-      const usersWithData = await Promise.all(
-        (profiles || []).map(async (profile) => {
-          const { count } = await supabase
-            .from('chat_messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('sender_id', profile.id)
-            .eq('receiver_id', user.id)
-            .eq('is_read', false);
-
-          const presence = presenceData?.find(p => p.user_id === profile.id);
-          const isBlocked = blockedUsers.includes(profile.id);
-
-          // Get the last message between the current user and this profile
-          const { data: lastMsg } = await supabase
-            .from('chat_messages')
-            .select('id, message, created_at, sender_id, receiver_id, is_read')
-            .or(`and(sender_id.eq.${user.id},receiver_id.eq.${profile.id}),and(sender_id.eq.${profile.id},receiver_id.eq.${user.id})`)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .maybeSingle();
-
-          return {
-            ...profile,
-            unread_count: count || 0,
-            is_online: presence?.is_online || false,
-            last_seen: presence?.last_seen,
-            is_typing: presence?.is_typing_to === user.id,
-            is_blocked: isBlocked,
-            last_message_at: lastMsg?.created_at || null,
-            last_message: lastMsg?.message || null,
-            last_message_is_read: lastMsg?.is_read || false,
-            last_message_sender_id: lastMsg?.sender_id || null,
-          };
-        })
-      );
+      const presenceByUser = new Map((presenceData || []).map(p => [p.user_id, p]));
 
-      // Sort users by most recent activity (last message), then by unread count, then name
-      usersWithData.sort((a, b) => {
-        const at = a.last_message_at ? new Date(a.last_message_at).getTime() : 0;
-        const bt = b.last_message_at ? new Date(b.last_message_at).getTime() : 0;
-        if (bt !== at) return bt - at;
-        const au = a.unread_count || 0;
-        const bu = b.unread_count || 0;
-        if (bu !== au) return bu - au;
-        return (a.full_name || a.email).localeCompare(b.full_name || b.email);
-      });
-
-      setChatUsers(usersWithData);
+      // Already sorted by most recent activity (last message), then by unread count, then name
+      setChatUsers((profiles || []).map((profile) => {
+        const presence = presenceByUser.get(profile.id);
+        return {
+          ...profile,
+          is_online: presence?.is_online || false,
+          last_seen: presence?.last_seen,
+          is_typing: presence?.is_typing_to === userId,
+          is_blocked: blockedUsers.includes(profile.id),
+        };
+      }));
     } catch (error) {
       console.error('Error fetching chat users:', error);
     }
-  };
+  }, [userId, blockedUsers]);
 
-  // Fetch messages with reactions
-  const fetchMessages = async () => {
-    if (!user || !selectedUser) return;
+  // Fetch groups and channels the user belongs to or can join, with unread counts for joined ones
+  const fetchConversations = useCallback(async () => {
+    if (!userId) return;
 
-    setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .select(`
-          *,
-          sender:profiles!chat_messages_sender_id_fkey(full_name, email, avatar_url),
-          receiver:profiles!chat_messages_receiver_id_fkey(full_name, email, avatar_url)
-        `)
-        .or(`and(sender_id.eq.${user.id},receiver_id.eq.${selectedUser}),and(sender_id.eq.${selectedUser},receiver_id.eq.${user.id})`)
-        .order('created_at', { ascending: true });
+      const { data, error } = await supabase.rpc('get_chat_conversations');
 
       if (error) throw error;
 
-      // Filter out expired messages
-      const now = new Date();
-      const validMessages = (data || []).filter(msg => {
-        if (!msg.expires_at) return true;
-        return new Date(msg.expires_at) > now;
+      setConversations(sortConversations((data || []).map((conversation) => ({
+        ...conversation,
+        kind: conversation.kind as ConversationKind,
+        role: (conversation.role as ConversationRole) || null,
+      }))));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    }
+  }, [userId]);
+
+  // Full-text search across every chat the user is part of
+  const searchAllMessages = useCallback(async (query: string) => {
+    if (!user || query.trim().length < MIN_SEARCH_LENGTH) {
+      setSearchResults([]);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.rpc('search_chat_messages', { _query: query });
+      if (error) throw error;
+      setSearchResults(data || []);
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to search messages',
+        variant: 'destructive',
       });
+    } finally {
+      setSearching(false);
+    }
+  }, [user, toast]);
 
-      // Fetch reactions for all messages
-      const messageIds = validMessages.map(m => m.id);
-      const { data: reactions } = await supabase
-        .from('message_reactions')
-        .select('*')
-        .in('message_id', messageIds);
+  // Members of the open conversation; their read markers drive the read receipts
+  const fetchConversationMembers = useCallback(async () => {
+    if (!selectedConversation) {
+      setConversationMembers([]);
+      return;
+    }
 
-      const messagesWithReactions = validMessages.map(msg => ({
-        ...msg,
-        reactions: reactions?.filter(r => r.message_id === msg.id) || [],
-      }));
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversation_members')
+        .select('user_id, role, last_read_at, joined_at, profile:profiles!chat_conversation_members_user_id_fkey (full_name, email, avatar_url)')
+        .eq('conversation_id', selectedConversation)
+        .order('joined_at');
+
+      if (error) throw error;
+      setConversationMembers((data || []).map(m => ({ ...m, role: m.role as ConversationRole })));
+    } catch (error) {
+      console.error('Error fetching conversation members:', error);
+    }
+  }, [selectedConversation]);
+
+  // One page of the open chat with reactions and thread read markers, older than `before` if given
+  const fetchMessagePage = useCallback(async (userId: string, before?: MessageCursor) => {
+    const query = supabase
+      .from('chat_messages')
+      .select(`
+        *,
+        sender:profiles!chat_messages_sender_id_fkey(full_name, email, avatar_url),
+        receiver:profiles!chat_messages_receiver_id_fkey(full_name, email, avatar_url)
+      `);
+
+    const chatQuery = selectedConversation
+      ? query.eq('conversation_id', selectedConversation)
+      : query.or(`and(sender_id.eq.${userId},receiver_id.eq.${selectedUser}),and(sender_id.eq.${selectedUser},receiver_id.eq.${userId})`);
+
+    // Messages sent in the same instant are ordered by id, so none are skipped between pages
+    const { data, error } = await (before
+      ? chatQuery.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`)
+      : chatQuery)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (error) throw error;
+
+    const rows = (data || []).reverse();
+
+    // Filter out expired messages
+    const now = new Date();
+    const validMessages = rows.filter(msg => {
+      if (!msg.expires_at) return true;
+      return new Date(msg.expires_at) > now;
+    });
+
+    // Fetch reactions for the messages on this page
+    const messageIds = validMessages.map(m => m.id);
+    const { data: reactions } = await supabase
+      .from('message_reactions')
+      .select('*')
+      .in('message_id', messageIds);
+
+    const messagesWithReactions = validMessages.map(msg => ({
+      ...msg,
+      reactions: reactions?.filter(r => r.message_id === msg.id) || [],
+    }));
+
+    // Read markers for the threads on this page
+    let threadReadMarkers: Record<string, string> = {};
+    const threadIds = Array.from(new Set(validMessages.flatMap(m => (m.parent_id ? [m.parent_id] : []))));
+    if (threadIds.length > 0) {
+      const { data: reads } = await supabase
+        .from('chat_thread_reads')
+        .select('message_id, last_read_at')
+        .eq('user_id', userId)
+        .in('message_id', threadIds);
+
+      threadReadMarkers = Object.fromEntries((reads || []).map(r => [r.message_id, r.last_read_at]));
+    }
+
+    return {
+      messages: messagesWithReactions,
+      threadReads: threadReadMarkers,
+      // A full page means there may be more history before it
+      cursor: rows.length === MESSAGE_PAGE_SIZE ? { created_at: rows[0].created_at, id: rows[0].id } : null,
+    };
+  }, [selectedConversation, selectedUser]);
+
+  // Fetch the latest page of the open chat
+  const fetchMessages = useCallback(async () => {
+    if (!userId || (!selectedUser && !selectedConversation)) return;
+
+    setLoading(true);
+    oldestLoadedRef.current = null;
+    try {
+      const page = await fetchMessagePage(userId);
 
-      setMessages(messagesWithReactions);
+      setMessages(page.messages);
+      setLoadedChatId(selectedConversation || selectedUser);
+      setThreadReads(page.threadReads);
+      oldestLoadedRef.current = page.cursor;
+      setHasMoreMessages(!!page.cursor);
 
       // Mark messages as read
+      if (selectedConversation) {
+        await supabase.rpc('mark_conversation_read', { _conversation_id: selectedConversation });
+        fetchConversations();
+        return;
+      }
+
       await supabase
         .from('chat_messages')
         .update({ is_read: true })
         .eq('sender_id', selectedUser)
-        .eq('receiver_id', user.id)
+        .eq('receiver_id', userId)
         .eq('is_read', false);
 
       fetchChatUsers();
@@ -319,6 +432,29 @@ export const useChat = () => {
     } finally {
       setLoading(false);
     }
+  }, [userId, selectedUser, selectedConversation, fetchMessagePage, fetchConversations, fetchChatUsers]);
+
+  // Older history is loaded on demand, as the user scrolls up
+  const loadOlderMessages = async () => {
+    const before = oldestLoadedRef.current;
+    if (!user || !before || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(user.id, before);
+
+      // The chat was switched or reloaded while this page was loading
+      if (oldestLoadedRef.current !== before) return;
+
+      setMessages(prev => [...page.messages, ...prev]);
+      setThreadReads(prev => ({ ...prev, ...page.threadReads }));
+      oldestLoadedRef.current = page.cursor;
+      setHasMoreMessages(!!page.cursor);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
   };
 
   // Upload file and return URL
@@ -409,6 +545,42 @@ export const useChat = () => {
     }
   };
 
+  // Edit the text of one of the user's own messages; the database keeps the previous version
+  const editMessage = async (messageId: string, text: string) => {
+    if (!user) return false;
+
+    const trimmed = text.trim();
+    const original = messages.find(m => m.id === messageId);
+    if (!trimmed || !original || original.message === trimmed) return false;
+
+    // Optimistically show the new text
+    setMessages(prev => prev.map(m =>
+      m.id === messageId ? { ...m, message: trimmed, edited_at: new Date().toISOString() } : m
+    ));
+
+    try {
+      const { error } = await supabase
+        .from('chat_messages')
+        .update({ message: trimmed })
+        .eq('id', messageId)
+        .eq('sender_id', user.id);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error editing message:', error);
+      setMessages(prev => prev.map(m =>
+        m.id === messageId ? { ...m, message: original.message, edited_at: original.edited_at } : m
+      ));
+      toast({
+        title: 'Error',
+        description: 'Failed to edit message',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
   const forwardMessage = async (originalMessage: ChatMessage, recipientIds: string[]) => {
     if (!user) return;
 
@@ -456,9 +628,23 @@ export const useChat = () => {
     }
   };
 
-  // Send a message with optional file and disappearing option
-  const sendMessage = async (message: string, file?: File, expiresInMinutes?: number) => {
-    if (!user || !selectedUser) return;
+  // Move the user's read marker for a thread up to now
+  const markThreadRead = useCallback(async (rootId: string) => {
+    if (!userId) return;
+
+    const now = new Date().toISOString();
+    setThreadReads(prev => ({ ...prev, [rootId]: now }));
+
+    const { error } = await supabase
+      .from('chat_thread_reads')
+      .upsert({ message_id: rootId, user_id: userId, last_read_at: now }, { onConflict: 'message_id,user_id' });
+
+    if (error) console.error('Error marking thread as read:', error);
+  }, [userId]);
+
+  // Send a message with optional file and disappearing option, optionally as a reply in a thread
+  const sendMessage = async (message: string, file?: File, expiresInMinutes?: number, parentId?: string) => {
+    if (!user || (!selectedUser && !selectedConversation)) return;
     if (!message.trim() && !file) return;
 
     // Ensure profile exists first
@@ -473,7 +659,7 @@ export const useChat = () => {
     }
 
     // Check if user is blocked
-    if (blockedUsers.includes(selectedUser)) {
+    if (selectedUser && blockedUsers.includes(selectedUser)) {
       toast({
         title: 'Cannot send message',
         description: 'You have blocked this user',
@@ -495,6 +681,8 @@ export const useChat = () => {
       const { data: insertedMessage, error } = await supabase.from('chat_messages').insert({
         sender_id: user.id,
         receiver_id: selectedUser,
+        conversation_id: selectedConversation,
+        parent_id: parentId || null,
         message: message.trim() || (fileData ? `Sent a file: ${fileData.name}` : ''),
         file_url: fileData?.url || null,
         file_name: fileData?.name || null,
@@ -508,7 +696,7 @@ export const useChat = () => {
       // Append to current conversation immediately and move conversation to top
       if (insertedMessage) {
         setMessages(prev => [...prev, { ...insertedMessage, reactions: [] }]);
-        updateChatUserLastMessage(selectedUser, insertedMessage.message || null, user.id, insertedMessage.created_at || new Date().toISOString(), false);
+        if (selectedUser) updateChatUserLastMessage(selectedUser, insertedMessage.message || null, user.id, insertedMessage.created_at || new Date().toISOString(), false);
       }
     } catch (error) {
       console.error('Error sending message:', error);
@@ -678,6 +866,8 @@ export const useChat = () => {
 
       if (error) throw error;
       setMessages([]);
+      oldestLoadedRef.current = null;
+      setHasMoreMessages(false);
       toast({
         title: 'Chat cleared',
         description: 'All messages have been deleted',
@@ -692,6 +882,184 @@ export const useChat = () => {
     }
   };
 
+  // Create a group or channel; the database makes the creator its first admin
+  const createConversation = async ({ kind, name, description, scope, memberIds }: NewConversation) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .insert({
+          kind,
+          name: name.trim(),
+          description: description?.trim() || null,
+          created_by: user.id,
+          ...toScopeColumns(scope),
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const others = memberIds.filter(id => id !== user.id);
+      if (others.length > 0) {
+        const { error: membersError } = await supabase
+          .from('chat_conversation_members')
+          .insert(others.map(userId => ({ conversation_id: data.id, user_id: userId })));
+
+        if (membersError) throw membersError;
+      }
+
+      await fetchConversations();
+      setSelectedUser(null);
+      setSelectedConversation(data.id);
+      return data.id;
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      toast({
+        title: 'Error',
+        description: `Failed to create ${kind}`,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const joinConversation = async (conversationId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversation_members')
+        .insert({ conversation_id: conversationId, user_id: user.id });
+
+      if (error) throw error;
+
+      await fetchConversations();
+      setSelectedUser(null);
+      setSelectedConversation(conversationId);
+    } catch (error) {
+      console.error('Error joining conversation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to join channel',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const leaveConversation = async (conversationId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversation_members')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      if (selectedConversation === conversationId) setSelectedConversation(null);
+      fetchConversations();
+    } catch (error) {
+      console.error('Error leaving conversation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to leave conversation',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      if (selectedConversation === conversationId) setSelectedConversation(null);
+      fetchConversations();
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete conversation',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Member management is limited to conversation admins by RLS
+  const addConversationMembers = async (conversationId: string, userIds: string[]) => {
+    if (!user || userIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversation_members')
+        .insert(userIds.map(userId => ({ conversation_id: conversationId, user_id: userId })));
+
+      if (error) throw error;
+      fetchConversationMembers();
+    } catch (error) {
+      console.error('Error adding conversation members:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add members',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const removeConversationMember = async (conversationId: string, userId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversation_members')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      fetchConversationMembers();
+    } catch (error) {
+      console.error('Error removing conversation member:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove member',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const setConversationMemberRole = async (conversationId: string, userId: string, role: ConversationRole) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversation_members')
+        .update({ role })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      fetchConversationMembers();
+    } catch (error) {
+      console.error('Error updating conversation member:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update member role',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Subscribe to new messages and read status updates
   useEffect(() => {
     if (!user) return;
@@ -707,7 +1075,31 @@ export const useChat = () => {
         },
         async (payload) => {
           const newMessage = payload.new as ChatMessage;
-          
+
+          if (newMessage.conversation_id) {
+            if (newMessage.conversation_id === selectedConversation) {
+              const { data } = await supabase
+                .from('chat_messages')
+                .select(`
+                  *,
+                  sender:profiles!chat_messages_sender_id_fkey(full_name, email, avatar_url)
+                `)
+                .eq('id', newMessage.id)
+                .maybeSingle();
+
+              if (data) {
+                setMessages((prev) => {
+                  if (prev.some(m => m.id === data.id)) return prev;
+                  return [...prev, { ...data, reactions: [] }];
+                });
+                await supabase.rpc('mark_conversation_read', { _conversation_id: selectedConversation });
+              }
+            }
+
+            fetchConversations();
+            return;
+          }
+
           if (
             (newMessage.sender_id === selectedUser && newMessage.receiver_id === user.id) ||
             (newMessage.sender_id === user.id && newMessage.receiver_id === selectedUser)
@@ -759,11 +1151,16 @@ export const useChat = () => {
         },
         (payload) => {
           const updatedMessage = payload.new as ChatMessage;
-          // Update read status in real-time
+          // Update read status and edits in real-time
           setMessages((prev) =>
             prev.map((msg) =>
               msg.id === updatedMessage.id
-                ? { ...msg, is_read: updatedMessage.is_read }
+                ? {
+                    ...msg,
+                    is_read: updatedMessage.is_read,
+                    message: updatedMessage.message,
+                    edited_at: updatedMessage.edited_at,
+                  }
                 : msg
             )
           );
@@ -788,7 +1185,41 @@ export const useChat = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, selectedUser]);
+  }, [user, selectedUser, selectedConversation, fetchChatUsers, fetchConversations]);
+
+  // Subscribe to conversation membership: joins, leaves, role changes and read markers
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel('chat_conversations_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_conversations',
+        },
+        () => fetchConversations()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_conversation_members',
+        },
+        () => {
+          fetchConversations();
+          fetchConversationMembers();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchConversations, fetchConversationMembers]);
 
   // Subscribe to reactions
   useEffect(() => {
@@ -863,7 +1294,7 @@ export const useChat = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, selectedUser]);
+  }, [user, selectedUser, fetchChatUsers]);
 
   // Update presence on mount and cleanup
   useEffect(() => {
@@ -891,21 +1322,29 @@ export const useChat = () => {
 
   useEffect(() => {
     fetchBlockedUsers();
-  }, [user]);
+  }, [fetchBlockedUsers]);
 
   useEffect(() => {
     fetchChatUsers();
-  }, [user, blockedUsers]);
+  }, [fetchChatUsers]);
 
   useEffect(() => {
-    if (selectedUser) {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  useEffect(() => {
+    if (selectedUser || selectedConversation) {
       fetchMessages();
     } else {
       setMessages([]);
     }
-  }, [selectedUser]);
+    fetchConversationMembers();
+  }, [selectedUser, selectedConversation, fetchMessages, fetchConversationMembers]);
+
+  const threadSummaries = summarizeThreads(messages, threadReads, user?.id);
 
-  const totalUnread = chatUsers.reduce((sum, u) => sum + u.unread_count, 0);
+  const totalUnread = chatUsers.reduce((sum, u) => sum + u.unread_count, 0)
+    + conversations.reduce((sum, c) => sum + c.unread_count, 0);
 
   // Filter messages based on search query
   const filteredMessages = searchQuery.trim()
@@ -918,6 +1357,10 @@ export const useChat = () => {
   return {
     messages: filteredMessages,
     allMessages: messages,
+    hasMoreMessages,
+    loadedChatId,
+    loadingOlder,
+    loadOlderMessages,
     chatUsers,
     selectedUser,
     setSelectedUser,
@@ -937,8 +1380,25 @@ export const useChat = () => {
     otherUserTyping,
     searchQuery,
     setSearchQuery,
+    searchResults,
+    searching,
+    searchAllMessages,
     deleteMessage,
+    editMessage,
     forwardMessage,
+    conversations,
+    selectedConversation,
+    setSelectedConversation,
+    conversationMembers,
+    createConversation,
+    joinConversation,
+    leaveConversation,
+    deleteConversation,
+    addConversationMembers,
+    removeConversationMember,
+    setConversationMemberRole,
+    threadSummaries,
+    markThreadRead,
   };
 };
 
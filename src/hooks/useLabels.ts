@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { compareLabels, FREE_TAG_COLOR, Label, normalizeLabelName } from '@/lib/labels';
+
+export const useLabels = () => {
+  const { user } = useAuth();
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchLabels = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('labels')
+        .select('id, name, color, is_managed');
+
+      if (error) throw error;
+      setLabels((data || []).sort(compareLabels));
+    } catch (error) {
+      console.error('Error fetching labels:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Create a free tag, or reuse the existing label with the same name
+  const createTag = async (name: string): Promise<Label | null> => {
+    const normalized = normalizeLabelName(name);
+    if (!normalized || !user) return null;
+
+    const existing = labels.find(l => l.name.toLowerCase() === normalized.toLowerCase());
+    if (existing) return existing;
+
+    try {
+      const { data, error } = await supabase
+        .from('labels')
+        .insert({ name: normalized, color: FREE_TAG_COLOR, created_by: user.id })
+        .select('id, name, color, is_managed')
+        .single();
+
+      if (error) throw error;
+      setLabels(prev => [...prev, data].sort(compareLabels));
+      return data;
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    fetchLabels();
+  }, []);
+
+  return { labels, isLoading, createTag, refetch: fetchLabels };
+};
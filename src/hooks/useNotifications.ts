@@ -10,6 +10,7 @@ export interface Notification {
   message: string;
   type: string;
   is_read: boolean;
+  is_silent: boolean;
   created_at: string;
   task_id: string | null;
 }
@@ -143,6 +144,8 @@ export const useNotifications = () => {
             const newNotification = payload.new as Notification;
             setNotifications(prev => [newNotification, ...prev]);
             setUnreadCount(prev => prev + 1);
+            // Digest delivery and quiet hours keep notifications out of the user's face
+            if (newNotification.is_silent) return;
             toast({
               title: newNotification.title,
               description: newNotification.message,
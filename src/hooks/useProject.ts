@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  memberIds: string[];
+}
+
+interface ProjectContextType {
+  projects: Project[];
+  // null means "All projects": the shared space plus every project the user can see
+  currentProjectId: string | null;
+  currentProject: Project | null;
+  setCurrentProjectId: (projectId: string | null) => void;
+  // True until the user's projects are known; pages wait for it so the stored selection
+  // is applied before their first fetch
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export const useProject = () => {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error('useProject must be used within a ProjectProvider');
+  }
+  return context;
+};
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  created_at: string;
+}
+
+export const useSavedViews = () => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('id, name, query, created_at')
+        .eq('user_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+      setViews(data || []);
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  // Saving under an existing name replaces that view's filters
+  const saveView = async (name: string, query: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('saved_views')
+        .upsert({ user_id: user.id, name: name.trim(), query }, { onConflict: 'user_id,name' });
+
+      if (error) throw error;
+      await fetchViews();
+      return true;
+    } catch (error) {
+      console.error('Error saving view:', error);
+      return false;
+    }
+  };
+
+  const deleteView = async (viewId: string) => {
+    try {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', viewId);
+
+      if (error) throw error;
+      setViews(prev => prev.filter(v => v.id !== viewId));
+    } catch (error) {
+      console.error('Error deleting saved view:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchViews();
+
+    const channel = supabase
+      .channel(`saved-views-${user.id}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'saved_views',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchViews()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchViews]);
+
+  return { views, isLoading, saveView, deleteView };
+};
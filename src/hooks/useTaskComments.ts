@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  content: string;
+  mentions: string[];
+  created_at: string;
+  profiles?: {
+    full_name: string | null;
+    email: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+interface CommentTask {
+  id: string;
+  title: string;
+  user_id: string;
+}
+
+const commentSelect = `
+  *,
+  profiles!task_comments_user_id_fkey (
+    full_name,
+    email,
+    avatar_url
+  )
+`;
+
+export const useTaskComments = (task: CommentTask | null) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const taskId = task?.id;
+
+  const fetchComments = useCallback(async () => {
+    if (!taskId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .select(commentSelect)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const addComment = async (content: string, mentions: string[]) => {
+    if (!user || !task) return false;
+
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .insert({
+          task_id: task.id,
+          user_id: user.id,
+          content,
+          mentions,
+        });
+
+      if (error) throw error;
+
+      // Mentioned users and the task owner are notified by the notify_task_comment trigger
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      return false;
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw error;
+      setComments(prev => prev.filter(c => c.id !== commentId));
+      return true;
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    setComments([]);
+    if (!taskId) return;
+
+    setIsLoading(true);
+    fetchComments();
+
+    // Subscribe to realtime comments on this task
+    const channel = supabase
+      .channel(`task-comments-${taskId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`,
+        },
+        async (payload) => {
+          const newComment = payload.new as TaskComment;
+          // Realtime payloads carry no joins, so load the author's profile separately
+          const { data } = await supabase
+            .from('task_comments')
+            .select(commentSelect)
+            .eq('id', newComment.id)
+            .single();
+
+          setComments(prev =>
+            prev.some(c => c.id === newComment.id) ? prev : [...prev, data || newComment]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'task_comments',
+        },
+        (payload) => {
+          const oldComment = payload.old as { id: string };
+          if (oldComment && oldComment.id) {
+            setComments(prev => prev.filter(c => c.id !== oldComment.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, fetchComments]);
+
+  return {
+    comments,
+    isLoading,
+    addComment,
+    deleteComment,
+    refetch: fetchComments,
+  };
+};
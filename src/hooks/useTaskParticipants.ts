@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ParticipantRole, TaskParticipantLink } from '@/lib/taskParticipants';
+
+interface ParticipantTask {
+  id: string;
+  title: string;
+}
+
+export const useTaskParticipants = (task: ParticipantTask | null) => {
+  const { user } = useAuth();
+  const [participants, setParticipants] = useState<TaskParticipantLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const taskId = task?.id;
+
+  const fetchParticipants = useCallback(async () => {
+    if (!taskId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_participants')
+        .select(`
+          user_id,
+          role,
+          profiles (
+            full_name,
+            email,
+            avatar_url
+          )
+        `)
+        .eq('task_id', taskId)
+        .order('created_at');
+
+      if (error) throw error;
+      setParticipants(data || []);
+    } catch (error) {
+      console.error('Error fetching participants:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  const addParticipant = async (userId: string, role: ParticipantRole) => {
+    if (!user || !task) return false;
+
+    try {
+      // The database notifies the person who was added
+      const { error } = await supabase
+        .from('task_participants')
+        .upsert({ task_id: task.id, user_id: userId, role });
+
+      if (error) throw error;
+      await fetchParticipants();
+      return true;
+    } catch (error) {
+      console.error('Error adding participant:', error);
+      return false;
+    }
+  };
+
+  const removeParticipant = async (userId: string) => {
+    if (!taskId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('task_participants')
+        .delete()
+        .eq('task_id', taskId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      setParticipants(prev => prev.filter(p => p.user_id !== userId));
+      return true;
+    } catch (error) {
+      console.error('Error removing participant:', error);
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    setParticipants([]);
+    if (!taskId) return;
+
+    setIsLoading(true);
+    fetchParticipants();
+
+    const channel = supabase
+      .channel(`task-participants-${taskId}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_participants',
+          filter: `task_id=eq.${taskId}`,
+        },
+        () => {
+          fetchParticipants();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, fetchParticipants]);
+
+  return {
+    participants,
+    isLoading,
+    addParticipant,
+    removeParticipant,
+    refetch: fetchParticipants,
+  };
+};
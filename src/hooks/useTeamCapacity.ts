@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AvailabilitySlot, DEFAULT_WEEKLY_CAPACITY_HOURS, getWeeklyCapacityHours } from '@/lib/estimates';
+
+// Weekly capacity in hours per user, from their availability schedule
+export const useTeamCapacity = () => {
+  const [slotsByUser, setSlotsByUser] = useState<Record<string, AvailabilitySlot[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchCapacity = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_availability')
+        .select('user_id, day_of_week, start_time, end_time, is_available');
+
+      if (error) throw error;
+      setSlotsByUser(
+        (data || []).reduce((acc, slot) => {
+          (acc[slot.user_id] = acc[slot.user_id] || []).push(slot);
+          return acc;
+        }, {} as Record<string, AvailabilitySlot[]>)
+      );
+    } catch (error) {
+      console.error('Error fetching team capacity:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCapacity();
+  }, [fetchCapacity]);
+
+  // Users who never set a schedule get the default working week
+  const getCapacity = (userId: string) =>
+    slotsByUser[userId] ? getWeeklyCapacityHours(slotsByUser[userId]) : DEFAULT_WEEKLY_CAPACITY_HOURS;
+
+  return { slotsByUser, getCapacity, isLoading, refetch: fetchCapacity };
+};
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TimeEntry } from '@/lib/timeTracking';
+
+export interface TimeEntryWithTask extends TimeEntry {
+  tasks: {
+    id: string;
+    title: string;
+  } | null;
+  profiles: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+interface UseTimeEntriesOptions {
+  taskId?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export const useTimeEntries = ({ taskId, userId, from, to }: UseTimeEntriesOptions) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TimeEntryWithTask[]>([]);
+  const [runningEntry, setRunningEntry] = useState<TimeEntryWithTask | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fromIso = from?.toISOString();
+  const toIso = to?.toISOString();
+
+  const fetchEntries = useCallback(async () => {
+    if (!taskId && !userId) return;
+
+    try {
+      let query = supabase
+        .from('time_entries')
+        .select('*, tasks (id, title), profiles (full_name, email)')
+        .order('started_at', { ascending: false });
+
+      if (taskId) query = query.eq('task_id', taskId);
+      if (userId) query = query.eq('user_id', userId);
+      if (fromIso) query = query.gte('started_at', fromIso);
+      if (toIso) query = query.lt('started_at', toIso);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId, userId, fromIso, toIso]);
+
+  // The current user's running timer, wherever it was started
+  const fetchRunningEntry = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('*, tasks (id, title), profiles (full_name, email)')
+        .eq('user_id', user.id)
+        .is('ended_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      setRunningEntry(data);
+    } catch (error) {
+      console.error('Error fetching running timer:', error);
+    }
+  }, [user]);
+
+  const refetch = useCallback(() => {
+    fetchEntries();
+    fetchRunningEntry();
+  }, [fetchEntries, fetchRunningEntry]);
+
+  // Starting a timer stops whatever was running before, so only one task is timed at once
+  const startTimer = async (forTaskId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error: stopError } = await supabase
+        .from('time_entries')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('ended_at', null);
+
+      if (stopError) throw stopError;
+
+      const { error } = await supabase
+        .from('time_entries')
+        .insert({ task_id: forTaskId, user_id: user.id });
+
+      if (error) throw error;
+      refetch();
+      return true;
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      return false;
+    }
+  };
+
+  const stopTimer = async () => {
+    if (!user || !runningEntry) return false;
+
+    try {
+      const { error } = await supabase
+        .from('time_entries')
+        .update({ ended_at: new Date().toISOString() })
+        .eq('id', runningEntry.id);
+
+      if (error) throw error;
+      refetch();
+      return true;
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      return false;
+    }
+  };
+
+  const addManualEntry = async (forTaskId: string, startedAt: Date, durationSeconds: number, note?: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('time_entries')
+        .insert({
+          task_id: forTaskId,
+          user_id: user.id,
+          started_at: startedAt.toISOString(),
+          ended_at: new Date(startedAt.getTime() + durationSeconds * 1000).toISOString(),
+          note: note?.trim() || null,
+          is_manual: true,
+        });
+
+      if (error) throw error;
+      fetchEntries();
+      return true;
+    } catch (error) {
+      console.error('Error adding time entry:', error);
+      return false;
+    }
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) throw error;
+      refetch();
+      return true;
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    if (!user || (!taskId && !userId)) return;
+
+    refetch();
+
+    const channel = supabase
+      .channel(`time-entries-${taskId || userId}-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'time_entries',
+          filter: taskId ? `task_id=eq.${taskId}` : `user_id=eq.${userId}`,
+        },
+        () => refetch()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, taskId, userId, refetch]);
+
+  return { entries, runningEntry, isLoading, startTimer, stopTimer, addManualEntry, deleteEntry, refetch };
+};
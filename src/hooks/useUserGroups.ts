@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface UserGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  memberIds: string[];
+}
+
+export const useUserGroups = () => {
+  const [groups, setGroups] = useState<UserGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchGroups = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_groups')
+        .select('id, name, description, user_group_members (user_id)')
+        .order('name');
+
+      if (error) throw error;
+      setGroups(
+        (data || []).map(group => ({
+          id: group.id,
+          name: group.name,
+          description: group.description,
+          memberIds: group.user_group_members.map(m => m.user_id),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching groups:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGroups();
+
+    // Used by several components at once, so each subscription needs its own channel
+    const channel = supabase
+      .channel(`user-groups-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_groups' }, () => fetchGroups())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_group_members' }, () => fetchGroups())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { groups, isLoading, refetch: fetchGroups };
+};
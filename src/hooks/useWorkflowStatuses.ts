@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_WORKFLOW_STATUSES, WorkflowStatus } from '@/lib/workflow';
+
+export const useWorkflowStatuses = () => {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(DEFAULT_WORKFLOW_STATUSES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchStatuses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('workflow_statuses')
+        .select('id, key, label, position, is_system')
+        .order('position')
+        .order('created_at');
+
+      if (error) throw error;
+      if (data && data.length > 0) {
+        setStatuses(data);
+      }
+    } catch (error) {
+      console.error('Error fetching workflow statuses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatuses();
+
+    // Keep every board in sync when admins edit the columns
+    const channel = supabase
+      .channel(`workflow-statuses-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workflow_statuses' },
+        () => fetchStatuses()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { statuses, isLoading, refetch: fetchStatuses };
+};
@@ -50,9 +50,151 @@ export type Database = {
           },
         ]
       }
+      chat_conversation_members: {
+        Row: {
+          conversation_id: string
+          joined_at: string
+          last_read_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string
+          last_read_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string
+          last_read_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_conversation_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_conversations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          group_id: string | null
+          id: string
+          kind: string
+          meeting_id: string | null
+          name: string
+          project_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          group_id?: string | null
+          id?: string
+          kind: string
+          meeting_id?: string | null
+          name: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          group_id?: string | null
+          id?: string
+          kind?: string
+          meeting_id?: string | null
+          name?: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_conversations_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "user_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_conversations_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_conversations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_message_revisions: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          message_id: string
+          written_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          message_id: string
+          written_at: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          message_id?: string
+          written_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_messages: {
         Row: {
+          conversation_id: string | null
           created_at: string
+          edited_at: string | null
+          event: string | null
           expires_at: string | null
           file_name: string | null
           file_type: string | null
@@ -60,11 +202,15 @@ export type Database = {
           id: string
           is_read: boolean
           message: string
-          receiver_id: string
+          parent_id: string | null
+          receiver_id: string | null
           sender_id: string
         }
         Insert: {
+          conversation_id?: string | null
           created_at?: string
+          edited_at?: string | null
+          event?: string | null
           expires_at?: string | null
           file_name?: string | null
           file_type?: string | null
@@ -72,11 +218,15 @@ export type Database = {
           id?: string
           is_read?: boolean
           message: string
-          receiver_id: string
+          parent_id?: string | null
+          receiver_id?: string | null
           sender_id: string
         }
         Update: {
+          conversation_id?: string | null
           created_at?: string
+          edited_at?: string | null
+          event?: string | null
           expires_at?: string | null
           file_name?: string | null
           file_type?: string | null
@@ -84,10 +234,25 @@ export type Database = {
           id?: string
           is_read?: boolean
           message?: string
-          receiver_id?: string
+          parent_id?: string | null
+          receiver_id?: string | null
           sender_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_messages_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -104,6 +269,74 @@ export type Database = {
           },
         ]
       }
+      chat_thread_reads: {
+        Row: {
+          last_read_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_thread_reads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_thread_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labels: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_managed: boolean
+          name: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_managed?: boolean
+          name: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_managed?: boolean
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labels_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meeting_minutes: {
         Row: {
           content: string
@@ -194,6 +427,7 @@ export type Database = {
           id: string
           meeting_date: string
           mom_taker: string | null
+          project_id: string | null
           title: string
           updated_at: string
         }
@@ -205,6 +439,7 @@ export type Database = {
           id?: string
           meeting_date: string
           mom_taker?: string | null
+          project_id?: string | null
           title: string
           updated_at?: string
         }
@@ -216,6 +451,7 @@ export type Database = {
           id?: string
           meeting_date?: string
           mom_taker?: string | null
+          project_id?: string | null
           title?: string
           updated_at?: string
         }
@@ -227,6 +463,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "meetings_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
       message_reactions: {
@@ -268,11 +511,59 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          delivery: string
+          digest_frequency: string
+          last_digest_at: string | null
+          muted_types: string[]
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery?: string
+          digest_frequency?: string
+          last_digest_at?: string | null
+          muted_types?: string[]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery?: string
+          digest_frequency?: string
+          last_digest_at?: string | null
+          muted_types?: string[]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
           id: string
           is_read: boolean
+          is_silent: boolean
           message: string
           task_id: string | null
           title: string
@@ -283,6 +574,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_read?: boolean
+          is_silent?: boolean
           message: string
           task_id?: string | null
           title: string
@@ -293,6 +585,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_read?: boolean
+          is_silent?: boolean
           message?: string
           task_id?: string | null
           title?: string
@@ -352,135 +645,112 @@ export type Database = {
         }
         Relationships: []
       }
-      reported_users: {
+      project_members: {
         Row: {
           created_at: string
-          details: string | null
-          id: string
-          reason: string
-          reported_id: string
-          reporter_id: string
-          status: string
+          project_id: string
+          user_id: string
         }
         Insert: {
           created_at?: string
-          details?: string | null
-          id?: string
-          reason: string
-          reported_id: string
-          reporter_id: string
-          status?: string
+          project_id: string
+          user_id: string
         }
         Update: {
           created_at?: string
-          details?: string | null
-          id?: string
-          reason?: string
-          reported_id?: string
-          reporter_id?: string
-          status?: string
+          project_id?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "reported_users_reported_id_fkey"
-            columns: ["reported_id"]
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "reported_users_reporter_id_fkey"
-            columns: ["reporter_id"]
+            foreignKeyName: "project_members_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      tasks: {
+      projects: {
         Row: {
           created_at: string
-          deadline: string | null
+          created_by: string | null
           description: string | null
           id: string
-          is_private: boolean
-          priority: string
-          reminder_sent: boolean
-          status: string
-          title: string
+          name: string
           updated_at: string
-          user_id: string
         }
         Insert: {
           created_at?: string
-          deadline?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
-          is_private?: boolean
-          priority?: string
-          reminder_sent?: boolean
-          status?: string
-          title: string
+          name: string
           updated_at?: string
-          user_id: string
         }
         Update: {
           created_at?: string
-          deadline?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
-          is_private?: boolean
-          priority?: string
-          reminder_sent?: boolean
-          status?: string
-          title?: string
+          name?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "tasks_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "projects_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_availability: {
+      reminder_rules: {
         Row: {
           created_at: string
-          day_of_week: number
-          end_time: string
+          created_by: string | null
           id: string
-          is_available: boolean | null
-          start_time: string
-          updated_at: string
-          user_id: string
+          kind: string
+          offset_minutes: number
+          priority: string | null
+          user_id: string | null
         }
         Insert: {
           created_at?: string
-          day_of_week: number
-          end_time: string
+          created_by?: string | null
           id?: string
-          is_available?: boolean | null
-          start_time: string
-          updated_at?: string
-          user_id: string
+          kind: string
+          offset_minutes: number
+          priority?: string | null
+          user_id?: string | null
         }
         Update: {
           created_at?: string
-          day_of_week?: number
-          end_time?: string
+          created_by?: string | null
           id?: string
-          is_available?: boolean | null
-          start_time?: string
-          updated_at?: string
-          user_id?: string
+          kind?: string
+          offset_minutes?: number
+          priority?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "user_availability_user_id_fkey"
+            foreignKeyName: "reminder_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_rules_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -488,6 +758,729 @@ export type Database = {
           },
         ]
       }
+      reported_users: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_id: string
+          reporter_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_id: string
+          reporter_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_id?: string
+          reporter_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reported_users_reported_id_fkey"
+            columns: ["reported_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reported_users_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          mentions: string[]
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          depends_on_id: string
+          id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_id: string
+          id?: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_id?: string
+          id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_depends_on_id_fkey"
+            columns: ["depends_on_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_history: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string
+          field: string | null
+          id: string
+          new_value: string | null
+          old_value: string | null
+          task_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          created_at: string
+          label_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          label_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          label_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_participants: {
+        Row: {
+          created_at: string
+          role: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_participants_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_recurrences: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_private: boolean
+          priority: string
+          rule: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_private?: boolean
+          priority?: string
+          rule: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_private?: boolean
+          priority?: string
+          rule?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_reminders: {
+        Row: {
+          deadline: string
+          rule_id: string
+          sent_at: string
+          task_id: string
+        }
+        Insert: {
+          deadline: string
+          rule_id: string
+          sent_at?: string
+          task_id: string
+        }
+        Update: {
+          deadline?: string
+          rule_id?: string
+          sent_at?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_reminders_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "reminder_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_reminders_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_subtasks: {
+        Row: {
+          created_at: string
+          id: string
+          is_completed: boolean
+          position: number
+          task_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_subtasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          checklist: string[]
+          created_at: string
+          created_by: string | null
+          deadline_offset_hours: number | null
+          description: string | null
+          id: string
+          name: string
+          priority: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string | null
+          deadline_offset_hours?: number | null
+          description?: string | null
+          id?: string
+          name: string
+          priority?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string | null
+          deadline_offset_hours?: number | null
+          description?: string | null
+          id?: string
+          name?: string
+          priority?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_by: string | null
+          board_position: number
+          created_at: string
+          deadline: string | null
+          description: string | null
+          estimate_hours: number | null
+          id: string
+          is_private: boolean
+          pool_group_id: string | null
+          priority: string
+          project_id: string | null
+          recurrence_id: string | null
+          reminder_sent: boolean
+          status: string
+          story_points: number | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          board_position?: number
+          created_at?: string
+          deadline?: string | null
+          description?: string | null
+          estimate_hours?: number | null
+          id?: string
+          is_private?: boolean
+          pool_group_id?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence_id?: string | null
+          reminder_sent?: boolean
+          status?: string
+          story_points?: number | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          board_position?: number
+          created_at?: string
+          deadline?: string | null
+          description?: string | null
+          estimate_hours?: number | null
+          id?: string
+          is_private?: boolean
+          pool_group_id?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence_id?: string | null
+          reminder_sent?: boolean
+          status?: string
+          story_points?: number | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_pool_group_id_fkey"
+            columns: ["pool_group_id"]
+            isOneToOne: false
+            referencedRelation: "user_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "workflow_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "tasks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          created_at: string
+          ended_at: string | null
+          id: string
+          is_manual: boolean
+          note: string | null
+          started_at: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          is_manual?: boolean
+          note?: string | null
+          started_at?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          is_manual?: boolean
+          note?: string | null
+          started_at?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_availability: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          end_time: string
+          id: string
+          is_available: boolean | null
+          start_time: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          end_time: string
+          id?: string
+          is_available?: boolean | null
+          start_time: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          is_available?: boolean | null
+          start_time?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_availability_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_group_members: {
+        Row: {
+          created_at: string
+          group_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "user_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_groups: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          last_assigned_user_id: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          last_assigned_user_id?: string | null
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          last_assigned_user_id?: string | null
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_groups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_groups_last_assigned_user_id_fkey"
+            columns: ["last_assigned_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_presence: {
         Row: {
           is_online: boolean
@@ -545,15 +1538,128 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_statuses: {
+        Row: {
+          created_at: string
+          id: string
+          is_system: boolean
+          key: string
+          label: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_system?: boolean
+          key: string
+          label: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_system?: boolean
+          key?: string
+          label?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_access_chat_message: {
+        Args: { _message_id: string; _user_id: string }
+        Returns: boolean
+      }
       can_access_meeting: {
         Args: { _meeting_id: string; _user_id: string }
         Returns: boolean
       }
+      can_access_task: {
+        Args: { _task_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_edit_task: {
+        Args: { _task_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_join_conversation: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      chat_message_search_vector: {
+        Args: { _file_name: string; _message: string }
+        Returns: unknown
+      }
+      claim_task: {
+        Args: { _task_id: string }
+        Returns: string
+      }
+      create_assigned_tasks: {
+        Args: {
+          _assignee_ids: string[]
+          _checklist?: string[]
+          _label_ids?: string[]
+          _round_robin_group_id?: string
+          _task: Json
+        }
+        Returns: {
+          id: string
+          user_id: string
+        }[]
+      }
+      get_chat_conversations: {
+        Args: never
+        Returns: {
+          created_by: string
+          description: string
+          group_id: string
+          id: string
+          kind: string
+          last_message: string
+          last_message_at: string
+          meeting_id: string
+          member_count: number
+          name: string
+          project_id: string
+          role: string
+          unread_count: number
+        }[]
+      }
+      get_chat_users: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          email: string
+          full_name: string
+          id: string
+          last_message: string
+          last_message_at: string
+          last_message_is_read: boolean
+          last_message_sender_id: string
+          unread_count: number
+        }[]
+      }
+      get_deleted_task: {
+        Args: { _task_id: string }
+        Returns: Json
+      }
+      get_task_dependency_chain: {
+        Args: { _task_id: string }
+        Returns: {
+          blocks_id: string
+          depth: number
+          id: string
+          status: string
+          title: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -561,6 +1667,69 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_conversation_admin: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_conversation_member: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { _group_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_in_quiet_hours: {
+        Args: { _at?: string; _end: string; _start: string; _timezone: string }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_task_participant: {
+        Args: { _role?: string; _task_id: string; _user_id: string }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      move_task_on_board: {
+        Args: { _ordered_ids: string[]; _status: string; _task_id: string }
+        Returns: undefined
+      }
+      next_task_occurrence: {
+        Args: { _after: string; _rule: string }
+        Returns: string
+      }
+      restore_tasks: {
+        Args: { _tasks: Json }
+        Returns: undefined
+      }
+      search_chat_messages: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          file_name: string
+          file_type: string
+          id: string
+          message: string
+          parent_id: string
+          rank: number
+          receiver_id: string
+          sender_id: string
+        }[]
+      }
+      spawn_next_task_occurrence: {
+        Args: { _task_id: string }
+        Returns: string
+      }
+      spawn_overdue_task_occurrences: {
+        Args: never
+        Returns: number
+      }
     }
     Enums: {
       app_role: "user" | "admin"
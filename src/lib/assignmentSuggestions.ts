@@ -0,0 +1,81 @@
+// Ranks possible assignees for a new task by how likely they are to deliver it on time.
+// Everything is computed client-side from open tasks and the users' availability schedules.
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { AvailabilitySlot, getSlotHours } from '@/lib/estimates';
+
+export interface CandidateTask {
+  user_id: string;
+  status: string;
+  deadline: string | null;
+  estimate_hours: number | null;
+}
+
+export interface AssignmentCandidate {
+  userId: string;
+  openCount: number;
+  overdueCount: number;
+  openHours: number;
+  availableHours: number;
+  freeHours: number;
+  fits: boolean;
+  score: number;
+}
+
+// Without a deadline we look at the coming week
+const DEFAULT_HORIZON_DAYS = 7;
+// Far-off deadlines don't make anyone more suitable than a month of availability does
+const MAX_HORIZON_DAYS = 30;
+// Users who never filled in their availability are assumed to work Mon-Fri, 8 hours a day
+const DEFAULT_DAY_HOURS = [0, 8, 8, 8, 8, 8, 0];
+// Open tasks without an estimate still take some time
+const UNESTIMATED_TASK_HOURS = 2;
+const OVERDUE_PENALTY_HOURS = 4;
+
+export const getAvailableHoursUntil = (slots: AvailabilitySlot[] | undefined, deadline: Date | null, now = new Date()) => {
+  const today = startOfDay(now);
+  const days = deadline
+    ? Math.min(Math.max(differenceInCalendarDays(deadline, today) + 1, 1), MAX_HORIZON_DAYS)
+    : DEFAULT_HORIZON_DAYS;
+
+  let hours = 0;
+  for (let i = 0; i < days; i++) {
+    const dayOfWeek = addDays(today, i).getDay();
+    hours += slots
+      ? slots.filter(s => s.day_of_week === dayOfWeek).reduce((total, s) => total + getSlotHours(s), 0)
+      : DEFAULT_DAY_HOURS[dayOfWeek];
+  }
+  return hours;
+};
+
+export const rankCandidates = (
+  userIds: string[],
+  openTasks: CandidateTask[],
+  slotsByUser: Record<string, AvailabilitySlot[]>,
+  deadline: Date | null,
+  estimateHours: number | null,
+  now = new Date()
+): AssignmentCandidate[] =>
+  userIds
+    .map(userId => {
+      const tasks = openTasks.filter(t => t.user_id === userId && t.status !== 'completed');
+      const overdueCount = tasks.filter(t => t.deadline && new Date(t.deadline) < now).length;
+      const openHours = tasks.reduce(
+        (total, t) => total + (t.estimate_hours ? Number(t.estimate_hours) : UNESTIMATED_TASK_HOURS),
+        0
+      );
+      const availableHours = getAvailableHoursUntil(slotsByUser[userId], deadline, now);
+      // Assume existing work gets done first; what's left is time for the new task
+      const freeHours = availableHours - openHours;
+
+      return {
+        userId,
+        openCount: tasks.length,
+        overdueCount,
+        openHours,
+        availableHours,
+        freeHours,
+        fits: freeHours >= (estimateHours || 0) && availableHours > 0,
+        score: freeHours - overdueCount * OVERDUE_PENALTY_HOURS,
+      };
+    })
+    .sort((a, b) => Number(b.fits) - Number(a.fits) || b.score - a.score || a.openCount - b.openCount);
@@ -0,0 +1,93 @@
+// Helpers for the calendar page. Tasks are placed at their deadline and meetings at their start time;
+// weeks start on Monday like the timesheet.
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+export type CalendarViewMode = 'month' | 'week' | 'day';
+
+interface CalendarEventBase {
+  id: string;
+  title: string;
+  start: Date;
+}
+
+export interface TaskCalendarEvent extends CalendarEventBase {
+  kind: 'task';
+  priority: string;
+  status: string;
+  // Whether the current user may drag the task to a new deadline
+  editable: boolean;
+}
+
+export interface MeetingCalendarEvent extends CalendarEventBase {
+  kind: 'meeting';
+  durationMinutes: number | null;
+}
+
+export type CalendarEvent = TaskCalendarEvent | MeetingCalendarEvent;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const getVisibleDays = (view: CalendarViewMode, date: Date): Date[] => {
+  switch (view) {
+    case 'month':
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(date), WEEK_OPTIONS),
+      });
+    case 'week':
+      return eachDayOfInterval({ start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) });
+    case 'day':
+      return [startOfDay(date)];
+  }
+};
+
+export const getVisibleRange = (view: CalendarViewMode, date: Date) => {
+  const days = getVisibleDays(view, date);
+  return { start: days[0], end: endOfDay(days[days.length - 1]) };
+};
+
+export const shiftDate = (view: CalendarViewMode, date: Date, amount: number) => {
+  switch (view) {
+    case 'month':
+      return addMonths(date, amount);
+    case 'week':
+      return addWeeks(date, amount);
+    case 'day':
+      return addDays(date, amount);
+  }
+};
+
+export const getRangeLabel = (view: CalendarViewMode, date: Date) => {
+  if (view === 'month') return format(date, 'MMMM yyyy');
+  if (view === 'day') return format(date, 'EEEE, MMMM d, yyyy');
+
+  const { start, end } = getVisibleRange(view, date);
+  return start.getMonth() === end.getMonth()
+    ? `${format(start, 'MMM d')} – ${format(end, 'd, yyyy')}`
+    : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+};
+
+export const getEventsForDay = (events: CalendarEvent[], day: Date) =>
+  events
+    .filter(event => isSameDay(event.start, day))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+// Dropping a task on a day keeps its time of day; dropping it on an hour slot also moves the hour
+export const rescheduleDeadline = (deadline: Date, day: Date, hour?: number) => {
+  const next = new Date(day);
+  next.setHours(hour ?? deadline.getHours(), deadline.getMinutes(), 0, 0);
+  return next;
+};
@@ -0,0 +1,81 @@
+// Group conversations and channels. Direct messages are keyed by the other user's id,
+// conversations by their own id, with read state tracked per member instead of per message.
+export type ConversationKind = 'group' | 'channel';
+export type ConversationRole = 'admin' | 'member';
+export type ConversationEvent = 'joined' | 'left';
+
+// Which part of the workspace a channel belongs to; 'everyone' channels are open to all users
+export type ConversationScope =
+  | { type: 'everyone' }
+  | { type: 'team'; id: string }
+  | { type: 'project'; id: string }
+  | { type: 'meeting'; id: string };
+
+export interface ChatConversation {
+  id: string;
+  kind: ConversationKind;
+  name: string;
+  description: string | null;
+  group_id: string | null;
+  project_id: string | null;
+  meeting_id: string | null;
+  created_by: string | null;
+  // null when the current user has not joined yet
+  role: ConversationRole | null;
+  member_count: number;
+  unread_count: number;
+  last_message: string | null;
+  last_message_at: string | null;
+}
+
+export interface ConversationMember {
+  user_id: string;
+  role: ConversationRole;
+  last_read_at: string;
+  joined_at: string;
+  profile: {
+    full_name: string | null;
+    email: string;
+    avatar_url?: string | null;
+  } | null;
+}
+
+export interface NewConversation {
+  kind: ConversationKind;
+  name: string;
+  description?: string;
+  scope: ConversationScope;
+  memberIds: string[];
+}
+
+export const getConversationScope = (conversation: Pick<ChatConversation, 'group_id' | 'project_id' | 'meeting_id'>): ConversationScope => {
+  if (conversation.group_id) return { type: 'team', id: conversation.group_id };
+  if (conversation.project_id) return { type: 'project', id: conversation.project_id };
+  if (conversation.meeting_id) return { type: 'meeting', id: conversation.meeting_id };
+  return { type: 'everyone' };
+};
+
+export const toScopeColumns = (scope: ConversationScope) => ({
+  group_id: scope.type === 'team' ? scope.id : null,
+  project_id: scope.type === 'project' ? scope.id : null,
+  meeting_id: scope.type === 'meeting' ? scope.id : null,
+});
+
+export const describeConversationEvent = (event: ConversationEvent, name: string) =>
+  event === 'joined' ? `${name} joined` : `${name} left`;
+
+// A message counts as read once every other member's read marker has passed it
+export const isReadByAllMembers = (members: ConversationMember[], senderId: string, createdAt: string) => {
+  const others = members.filter(m => m.user_id !== senderId);
+  return others.length > 0 && others.every(m => new Date(m.last_read_at) >= new Date(createdAt));
+};
+
+// Joined conversations first, most recent activity on top
+export const sortConversations = (conversations: ChatConversation[]) =>
+  [...conversations].sort((a, b) => {
+    if (!!a.role !== !!b.role) return a.role ? -1 : 1;
+    const at = a.last_message_at ? new Date(a.last_message_at).getTime() : 0;
+    const bt = b.last_message_at ? new Date(b.last_message_at).getTime() : 0;
+    if (bt !== at) return bt - at;
+    return a.name.localeCompare(b.name);
+  });
@@ -0,0 +1,47 @@
+// Global chat search. Matching happens in Postgres (search_chat_messages); these helpers
+// describe the results and mark the matched words so the UI can highlight them.
+export interface ChatSearchResult {
+  id: string;
+  sender_id: string;
+  receiver_id: string | null;
+  conversation_id: string | null;
+  parent_id: string | null;
+  message: string;
+  file_name: string | null;
+  file_type: string | null;
+  created_at: string;
+  rank: number;
+}
+
+// Queries shorter than this return too many results to be useful
+export const MIN_SEARCH_LENGTH = 2;
+
+// Same word splitting as the database query, so highlights line up with what matched
+export const getSearchTerms = (query: string) =>
+  query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// The chat a result belongs to: a conversation, or the other person in a direct message
+export const getResultChat = (result: ChatSearchResult, userId: string | undefined) =>
+  result.conversation_id
+    ? { conversationId: result.conversation_id, userId: null }
+    : { conversationId: null, userId: result.sender_id === userId ? result.receiver_id : result.sender_id };
+
+// Words are matched by prefix, like the tsquery built by search_chat_messages
+export const splitHighlights = (text: string, terms: string[]) => {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})`, 'giu');
+  const parts: { text: string; match: boolean }[] = [];
+  let last = 0;
+
+  for (const hit of text.matchAll(pattern)) {
+    const start = hit.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: hit[0], match: true });
+    last = start + hit[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+
+  return parts;
+};
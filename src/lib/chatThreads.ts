@@ -0,0 +1,43 @@
+// Threaded replies. Every reply points at the message that started its thread, and each
+// user keeps a read marker per thread; replies from others after that marker are unread.
+export interface ThreadMessage {
+  id: string;
+  sender_id: string;
+  created_at: string;
+  parent_id?: string | null;
+}
+
+export interface ThreadSummary {
+  reply_count: number;
+  unread_count: number;
+  last_reply_at: string;
+}
+
+// Threads the user has never opened count as unread from the moment they started
+export const summarizeThreads = (
+  messages: ThreadMessage[],
+  readMarkers: Record<string, string>,
+  userId: string | undefined
+): Record<string, ThreadSummary> => {
+  const roots = new Map(messages.filter(m => !m.parent_id).map(m => [m.id, m]));
+  const summaries: Record<string, ThreadSummary> = {};
+
+  messages.forEach(reply => {
+    const root = reply.parent_id ? roots.get(reply.parent_id) : undefined;
+    if (!root) return;
+
+    const summary = summaries[root.id] || { reply_count: 0, unread_count: 0, last_reply_at: reply.created_at };
+    const readUntil = new Date(readMarkers[root.id] || root.created_at);
+
+    summary.reply_count += 1;
+    if (reply.sender_id !== userId && new Date(reply.created_at) > readUntil) summary.unread_count += 1;
+    if (new Date(reply.created_at) > new Date(summary.last_reply_at)) summary.last_reply_at = reply.created_at;
+
+    summaries[root.id] = summary;
+  });
+
+  return summaries;
+};
+
+export const getThreadReplies = <T extends ThreadMessage>(messages: T[], rootId: string) =>
+  messages.filter(m => m.parent_id === rootId);
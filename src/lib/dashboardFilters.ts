@@ -0,0 +1,85 @@
+// Dashboard filter state lives in the URL query string so views can be
+// bookmarked, shared and saved. Defaults are left out to keep links short.
+
+export type SortOrder = 'newest' | 'oldest';
+export type DueFilter = 'all' | 'overdue' | 'week' | 'none';
+export type GroupBy = 'none' | 'label';
+export type ViewMode = 'cards' | 'board';
+export type AdminScope = 'self' | 'all';
+
+export interface DashboardFilters {
+  search: string;
+  status: string;
+  priority: string;
+  label: string;
+  due: DueFilter;
+  sort: SortOrder;
+  group: GroupBy;
+  view: ViewMode;
+  scope: AdminScope;
+}
+
+export const DEFAULT_DASHBOARD_FILTERS: DashboardFilters = {
+  search: '',
+  status: 'all',
+  priority: 'all',
+  label: 'all',
+  due: 'all',
+  sort: 'newest',
+  group: 'none',
+  view: 'cards',
+  scope: 'all',
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const parseDashboardFilters = (params: URLSearchParams): DashboardFilters => ({
+  search: params.get('q') || DEFAULT_DASHBOARD_FILTERS.search,
+  status: params.get('status') || DEFAULT_DASHBOARD_FILTERS.status,
+  priority: oneOf(params.get('priority'), ['all', 'low', 'medium', 'high'] as const, 'all'),
+  label: params.get('label') || DEFAULT_DASHBOARD_FILTERS.label,
+  due: oneOf(params.get('due'), ['all', 'overdue', 'week', 'none'] as const, 'all'),
+  sort: oneOf(params.get('sort'), ['newest', 'oldest'] as const, 'newest'),
+  group: oneOf(params.get('group'), ['none', 'label'] as const, 'none'),
+  view: oneOf(params.get('view'), ['cards', 'board'] as const, 'cards'),
+  scope: oneOf(params.get('scope'), ['self', 'all'] as const, 'all'),
+});
+
+// Param names are kept short since they end up in shared links
+const PARAM_NAMES: Record<keyof DashboardFilters, string> = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  label: 'label',
+  due: 'due',
+  sort: 'sort',
+  group: 'group',
+  view: 'view',
+  scope: 'scope',
+};
+
+export const dashboardFiltersToParams = (filters: DashboardFilters) => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof DashboardFilters)[]).forEach(key => {
+    if (filters[key] !== DEFAULT_DASHBOARD_FILTERS[key]) {
+      params.set(PARAM_NAMES[key], filters[key]);
+    }
+  });
+  return params;
+};
+
+export const matchesDueFilter = (
+  task: { deadline?: string | null; status: string },
+  due: DueFilter,
+  now = new Date()
+) => {
+  if (due === 'all') return true;
+  if (due === 'none') return !task.deadline;
+  if (!task.deadline || task.status === 'completed') return false;
+
+  const deadline = new Date(task.deadline).getTime();
+  if (due === 'overdue') return deadline < now.getTime();
+  // due === 'week': still open and due within the next 7 days
+  return deadline >= now.getTime() && deadline <= now.getTime() + 7 * 24 * 60 * 60 * 1000;
+};
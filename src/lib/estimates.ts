@@ -0,0 +1,74 @@
+// Task size estimates and per-user capacity.
+// Capacity comes from the weekly schedule users set on the Availability page.
+import { z } from 'zod';
+
+export interface EstimatedTask {
+  status: string;
+  estimate_hours?: number | null;
+  story_points?: number | null;
+}
+
+export interface AvailabilitySlot {
+  user_id: string;
+  day_of_week: number; // 0 = Sunday
+  start_time: string; // HH:MM[:SS]
+  end_time: string;
+  is_available: boolean | null;
+}
+
+// Matches the Mon-Fri 9:00-17:00 schedule the Availability page starts from
+export const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+
+// Every form that sets an estimate uses these, so values always fit the tasks table
+// (estimate_hours NUMERIC(6,2) > 0, story_points SMALLINT >= 0)
+export const ESTIMATE_HOURS_STEP = 0.5;
+export const ESTIMATE_HOURS_MIN = ESTIMATE_HOURS_STEP;
+export const STORY_POINTS_STEP = 1;
+export const STORY_POINTS_MIN = 0;
+
+export const estimateHoursSchema = z.number().min(ESTIMATE_HOURS_MIN, `Estimate must be at least ${ESTIMATE_HOURS_MIN} hours`).max(9999, 'Estimate is too large');
+export const storyPointsSchema = z.number().int('Story points must be a whole number').min(STORY_POINTS_MIN).max(999, 'Too many story points');
+
+export type LoadLevel = 'light' | 'busy' | 'overloaded';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const getSlotHours = (slot: AvailabilitySlot) =>
+  slot.is_available ? Math.max(0, toMinutes(slot.end_time) - toMinutes(slot.start_time)) / 60 : 0;
+
+export const getWeeklyCapacityHours = (slots: AvailabilitySlot[]) =>
+  Math.round(slots.reduce((total, s) => total + getSlotHours(s), 0) * 10) / 10;
+
+// Sums estimates of work that is not done yet
+export const getOpenWorkload = (tasks: EstimatedTask[]) => {
+  const open = tasks.filter(t => t.status !== 'completed');
+  return {
+    hours: open.reduce((total, t) => total + (Number(t.estimate_hours) || 0), 0),
+    points: open.reduce((total, t) => total + (t.story_points || 0), 0),
+    unestimated: open.filter(t => !t.estimate_hours && t.story_points == null).length,
+  };
+};
+
+export const getLoadPercent = (hours: number, capacityHours: number) =>
+  capacityHours > 0 ? Math.round((hours / capacityHours) * 100) : hours > 0 ? Infinity : 0;
+
+export const getLoadLevel = (hours: number, capacityHours: number): LoadLevel => {
+  const percent = getLoadPercent(hours, capacityHours);
+  if (percent > 100) return 'overloaded';
+  if (percent >= 80) return 'busy';
+  return 'light';
+};
+
+export const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+// "4h · 3 pts", or null when the task has no estimate
+export const formatEstimate = (task: Pick<EstimatedTask, 'estimate_hours' | 'story_points'>) => {
+  const parts = [
+    task.estimate_hours ? formatHours(Number(task.estimate_hours)) : null,
+    task.story_points != null ? `${task.story_points} pt${task.story_points === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : null;
+};
@@ -0,0 +1,49 @@
+// Helpers for task labels. Managed labels are the admin-curated vocabulary,
+// free tags are created on the fly by anyone tagging a task.
+
+export interface Label {
+  id: string;
+  name: string;
+  color: string;
+  is_managed: boolean;
+}
+
+// Shape returned when tasks embed their labels via task_labels ( labels (...) )
+export interface TaskLabelLink {
+  labels: Label | null;
+}
+
+export const LABEL_COLORS = [
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#64748b', // slate
+];
+
+export const FREE_TAG_COLOR = '#64748b';
+
+export const getTaskLabels = (links: TaskLabelLink[] | null | undefined): Label[] =>
+  (links || [])
+    .map(link => link.labels)
+    .filter((label): label is Label => label !== null)
+    .sort(compareLabels);
+
+// Vocabulary labels first, then free tags, each alphabetically
+export const compareLabels = (a: Label, b: Label) =>
+  Number(b.is_managed) - Number(a.is_managed) || a.name.localeCompare(b.name);
+
+export const normalizeLabelName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+// Pick black or white text depending on how light the label color is
+export const getLabelTextColor = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  const r = (value >> 16) & 255;
+  const g = (value >> 8) & 255;
+  const b = value & 255;
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#0f172a' : '#ffffff';
+};
@@ -0,0 +1,45 @@
+// Notification types users can mute, and the lead times offered for personal deadline reminders.
+// The preferences themselves are enforced by a trigger on the notifications table.
+export type NotificationDelivery = 'immediate' | 'digest';
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  muted_types: string[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  delivery: NotificationDelivery;
+  digest_frequency: DigestFrequency;
+}
+
+export const NOTIFICATION_TYPES: { type: string; label: string; description: string }[] = [
+  { type: 'task_assigned', label: 'Task assignments', description: 'Someone assigns a task to you' },
+  { type: 'task_pool', label: 'Tasks up for grabs', description: 'A task is waiting to be claimed in one of your groups' },
+  { type: 'task_watch', label: 'Watched tasks', description: 'Status or deadline changes on tasks you watch or share' },
+  { type: 'task_comment', label: 'Comments', description: 'New comments on your tasks' },
+  { type: 'task_mention', label: 'Mentions', description: 'Someone mentions you in a comment' },
+  { type: 'task_created', label: 'Task created', description: 'Confirmation when you create a task' },
+  { type: 'deadline_reminder', label: 'Deadline reminders', description: 'Your tasks are coming due' },
+  { type: 'deadline_escalation', label: 'Overdue escalations', description: 'Tasks you assigned are overdue' },
+];
+
+// null means "follow the team schedule" configured by admins
+export const REMINDER_LEAD_TIMES: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Team schedule' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 180, label: '3 hours before' },
+  { minutes: 1440, label: '1 day before' },
+  { minutes: 2880, label: '2 days before' },
+];
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  muted_types: [],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'UTC',
+  delivery: 'immediate',
+  digest_frequency: 'off',
+};
@@ -0,0 +1,109 @@
+// Client-side helpers for the RRULE-style rules stored in task_recurrences.rule.
+// Occurrences themselves are computed in the database (next_task_occurrence).
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type WeekdayCode = typeof WEEKDAY_CODES[number];
+
+export const WEEKDAY_LABELS: Record<WeekdayCode, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayCode[];
+  until: string | null; // YYYYMMDD
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+export const parseRecurrenceRule = (rule: string): RecurrenceRule | null => {
+  const parts = rule.trim().replace(/^RRULE:/i, '').toUpperCase().split(';').filter(Boolean);
+  const parsed: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], until: null };
+  let hasFreq = false;
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!value) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RecurrenceFrequency)) return null;
+        parsed.freq = value as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        parsed.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',');
+        if (!days.every(d => (WEEKDAY_CODES as readonly string[]).includes(d))) return null;
+        parsed.byDay = days as WeekdayCode[];
+        break;
+      }
+      case 'UNTIL':
+        if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) return null;
+        parsed.until = value.slice(0, 8);
+        break;
+      default:
+        // Unsupported parts would be silently ignored by the database, so reject them here
+        return null;
+    }
+  }
+
+  // next_task_occurrence only honours BYDAY for weekly rules, so other combinations would
+  // describe a schedule that never gets generated
+  if (parsed.byDay.length > 0 && parsed.freq !== 'WEEKLY') return null;
+
+  return hasFreq ? parsed : null;
+};
+
+export const buildRecurrenceRule = ({ freq, interval, byDay, until }: RecurrenceRule) => {
+  const parts = [`FREQ=${freq}`];
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (freq === 'WEEKLY' && byDay.length > 0) {
+    // Keep weekday order stable regardless of selection order
+    parts.push(`BYDAY=${WEEKDAY_CODES.filter(d => byDay.includes(d)).join(',')}`);
+  }
+  if (until) parts.push(`UNTIL=${until}`);
+  return parts.join(';');
+};
+
+export const isValidRecurrenceRule = (rule: string) => parseRecurrenceRule(rule) !== null;
+
+export const describeRecurrence = (rule: string | null | undefined) => {
+  if (!rule) return null;
+  const parsed = parseRecurrenceRule(rule);
+  if (!parsed) return 'Custom schedule';
+
+  const unit = FREQUENCY_UNITS[parsed.freq];
+  let text = parsed.interval === 1
+    ? `Every ${unit}`
+    : `Every ${parsed.interval} ${unit}s`;
+
+  if (parsed.freq === 'WEEKLY' && parsed.byDay.length > 0) {
+    text += ` on ${parsed.byDay.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (parsed.until) {
+    text += ` until ${parsed.until.slice(0, 4)}-${parsed.until.slice(4, 6)}-${parsed.until.slice(6, 8)}`;
+  }
+  return text;
+};
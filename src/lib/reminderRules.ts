@@ -0,0 +1,50 @@
+// Helpers for the deadline reminder schedule evaluated by the check-deadlines function.
+// Reminders fire before a deadline and go to the assignee, escalations fire after it and go to the assigner.
+export type ReminderKind = 'reminder' | 'escalation';
+
+export interface ReminderRule {
+  id: string;
+  kind: ReminderKind;
+  offset_minutes: number;
+  priority: string | null;
+}
+
+export type ReminderUnit = 'minutes' | 'hours' | 'days';
+
+const MINUTES_PER_UNIT: Record<ReminderUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+};
+
+// Upper bound enforced by the reminder_rules check constraint (30 days)
+export const MAX_OFFSET_MINUTES = 30 * 24 * 60;
+
+export const toOffsetMinutes = (amount: string, unit: ReminderUnit) => {
+  const value = parseInt(amount, 10);
+  if (isNaN(value) || value < 0) return null;
+  const minutes = value * MINUTES_PER_UNIT[unit];
+  return minutes <= MAX_OFFSET_MINUTES ? minutes : null;
+};
+
+const formatOffset = (minutes: number) => {
+  const unit: ReminderUnit = minutes % MINUTES_PER_UNIT.days === 0
+    ? 'days'
+    : minutes % MINUTES_PER_UNIT.hours === 0 ? 'hours' : 'minutes';
+  const amount = minutes / MINUTES_PER_UNIT[unit];
+  return `${amount} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+};
+
+// "1 day before the deadline", "At the deadline", "2 hours overdue"
+export const describeReminderRule = (rule: Pick<ReminderRule, 'kind' | 'offset_minutes'>) => {
+  if (rule.kind === 'escalation') {
+    return rule.offset_minutes === 0 ? 'As soon as it is overdue' : `${formatOffset(rule.offset_minutes)} overdue`;
+  }
+  return rule.offset_minutes === 0 ? 'At the deadline' : `${formatOffset(rule.offset_minutes)} before the deadline`;
+};
+
+// Earliest reminders first, escalations in the order they fire
+export const sortReminderRules = (rules: ReminderRule[]) =>
+  [...rules].sort((a, b) =>
+    a.kind === 'reminder' ? b.offset_minutes - a.offset_minutes : a.offset_minutes - b.offset_minutes
+  );
@@ -0,0 +1,38 @@
+// Client-side helpers for task_dependencies. The database enforces the same
+// rule (enforce_task_dependencies), these only let the UI explain it up front.
+
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: string;
+}
+
+// Shape returned when tasks embed their dependencies via
+// task_dependencies!task_dependencies_task_id_fkey ( depends_on:tasks!task_dependencies_depends_on_id_fkey (...) )
+export interface TaskDependencyLink {
+  depends_on: TaskBlocker | null;
+}
+
+export const getTaskBlockers = (links: TaskDependencyLink[] | null | undefined): TaskBlocker[] =>
+  (links || [])
+    .map(link => link.depends_on)
+    .filter((blocker): blocker is TaskBlocker => blocker !== null);
+
+export const getOpenBlockers = (blockers: TaskBlocker[]) =>
+  blockers.filter(blocker => blocker.status !== 'completed');
+
+export const isTaskBlocked = (blockers: TaskBlocker[]) => getOpenBlockers(blockers).length > 0;
+
+// Blocked tasks have to stay pending until every dependency is completed
+export const canMoveToStatus = (status: string, blockers: TaskBlocker[]) =>
+  status === 'pending' || !isTaskBlocked(blockers);
+
+export const describeBlockers = (blockers: TaskBlocker[]) => {
+  const open = getOpenBlockers(blockers);
+  if (open.length === 0) return null;
+  return `Waiting on ${open.map(blocker => `"${blocker.title}"`).join(', ')}`;
+};
+
+// Error raised by the enforce_task_dependencies trigger
+export const isBlockedTaskError = (error: { message?: string } | null | undefined) =>
+  !!error?.message?.includes('blocked by incomplete dependencies');
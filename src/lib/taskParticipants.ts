@@ -0,0 +1,60 @@
+// Helpers for task_participants. The owner (tasks.user_id) is not stored there,
+// co-assignees share the work and watchers only get notified about changes.
+
+export type ParticipantRole = 'assignee' | 'watcher';
+
+export interface ParticipantProfile {
+  full_name: string | null;
+  email: string;
+  avatar_url?: string | null;
+}
+
+// Shape returned when tasks embed their participants via task_participants ( user_id, role, profiles (...) )
+export interface TaskParticipantLink {
+  user_id: string;
+  role: string;
+  profiles?: ParticipantProfile | null;
+}
+
+export interface InvolvedPerson {
+  userId: string;
+  role: 'owner' | ParticipantRole;
+  profile: ParticipantProfile | null;
+}
+
+interface TaskWithParticipants {
+  user_id: string;
+  profiles?: ParticipantProfile | null;
+  task_participants?: TaskParticipantLink[];
+}
+
+const ROLE_ORDER: Record<InvolvedPerson['role'], number> = { owner: 0, assignee: 1, watcher: 2 };
+
+// Owner first, then co-assignees, then watchers
+export const getInvolvedPeople = (task: TaskWithParticipants): InvolvedPerson[] => [
+  { userId: task.user_id, role: 'owner', profile: task.profiles ?? null },
+  ...(task.task_participants || [])
+    .filter(p => p.user_id !== task.user_id)
+    .map(p => ({
+      userId: p.user_id,
+      role: (p.role === 'assignee' ? 'assignee' : 'watcher') as ParticipantRole,
+      profile: p.profiles ?? null,
+    }))
+    .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role]),
+];
+
+export const getCoAssigneeIds = (task: TaskWithParticipants) =>
+  (task.task_participants || []).filter(p => p.role === 'assignee').map(p => p.user_id);
+
+// Owners and co-assignees work on the task, watchers don't
+export const isAssignedTo = (task: TaskWithParticipants, userId: string | undefined) =>
+  !!userId && (task.user_id === userId || getCoAssigneeIds(task).includes(userId));
+
+export const getParticipantRole = (task: TaskWithParticipants, userId: string | undefined) =>
+  (task.task_participants || []).find(p => p.user_id === userId)?.role as ParticipantRole | undefined;
+
+export const ROLE_LABELS: Record<InvolvedPerson['role'], string> = {
+  owner: 'Owner',
+  assignee: 'Co-assignee',
+  watcher: 'Watcher',
+};
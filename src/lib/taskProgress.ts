@@ -0,0 +1,29 @@
+export interface SubtaskSummary {
+  id: string;
+  is_completed: boolean;
+}
+
+interface ProgressTask {
+  status: string;
+  task_subtasks?: SubtaskSummary[] | null;
+}
+
+export const getSubtaskProgress = (subtasks?: SubtaskSummary[] | null) => {
+  const total = subtasks?.length || 0;
+  const completed = subtasks?.filter(s => s.is_completed).length || 0;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+  return { total, completed, percent };
+};
+
+// A completed task always counts as 100%; otherwise its checklist decides
+export const getTaskCompletionPercent = (task: ProgressTask) => {
+  if (task.status === 'completed') return 100;
+  return getSubtaskProgress(task.task_subtasks).percent;
+};
+
+// Average completion across tasks, giving partial credit for checklist progress
+export const getChecklistCompletionRate = (tasks: ProgressTask[]) => {
+  if (tasks.length === 0) return 0;
+  const sum = tasks.reduce((acc, task) => acc + getTaskCompletionPercent(task), 0);
+  return Math.round(sum / tasks.length);
+};
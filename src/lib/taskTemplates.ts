@@ -0,0 +1,45 @@
+// Helpers for task templates. Deadlines are stored relative to the moment a
+// template is assigned, so the same template works for every new hire or release.
+import { addHours } from 'date-fns';
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  deadline_offset_hours: number | null;
+  checklist: string[];
+}
+
+export type OffsetUnit = 'hours' | 'days';
+
+export const getTemplateDeadline = (template: Pick<TaskTemplate, 'deadline_offset_hours'>, from: Date) =>
+  template.deadline_offset_hours ? addHours(from, template.deadline_offset_hours) : null;
+
+// Whole days read better in the editor, anything else is shown in hours
+export const splitOffset = (hours: number | null): { amount: string; unit: OffsetUnit } =>
+  hours && hours % 24 === 0
+    ? { amount: String(hours / 24), unit: 'days' }
+    : { amount: hours ? String(hours) : '', unit: hours ? 'hours' : 'days' };
+
+export const toOffsetHours = (amount: string, unit: OffsetUnit) => {
+  const value = parseInt(amount, 10);
+  if (!value || value <= 0) return null;
+  return unit === 'days' ? value * 24 : value;
+};
+
+// "Due 3 days after assignment", or null when the template has no deadline
+export const describeDeadlineOffset = (hours: number | null) => {
+  if (!hours) return null;
+  const { amount, unit } = splitOffset(hours);
+  const label = amount === '1' ? unit.slice(0, -1) : unit;
+  return `Due ${amount} ${label} after assignment`;
+};
+
+// One checklist item per line, blank lines dropped
+export const parseChecklist = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
@@ -0,0 +1,54 @@
+// Helpers for time_entries. Durations are derived from started_at/ended_at;
+// an entry without ended_at is a running timer and counts up to "now".
+import { addDays, startOfWeek } from 'date-fns';
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+  is_manual: boolean;
+}
+
+export const isRunning = (entry: Pick<TimeEntry, 'ended_at'>) => !entry.ended_at;
+
+// Duration in seconds
+export const getEntryDuration = (entry: Pick<TimeEntry, 'started_at' | 'ended_at'>, now = new Date()) => {
+  const start = new Date(entry.started_at).getTime();
+  const end = entry.ended_at ? new Date(entry.ended_at).getTime() : now.getTime();
+  return Math.max(0, Math.floor((end - start) / 1000));
+};
+
+export const sumDurations = (entries: Pick<TimeEntry, 'started_at' | 'ended_at'>[], now = new Date()) =>
+  entries.reduce((total, entry) => total + getEntryDuration(entry, now), 0);
+
+// "2h 05m", "12m", or "45s" for very short entries
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+};
+
+// "1:02:03" for a ticking timer
+export const formatTimer = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const toHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+// Weeks start on Monday, matching the timesheet
+export const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+export const getWeekDays = (weekStart: Date) => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+export const getDayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Entries are attributed to the day they started on
+export const getEntryDayKey = (entry: Pick<TimeEntry, 'started_at'>) => getDayKey(new Date(entry.started_at));
@@ -0,0 +1,49 @@
+// Board columns a task can be in, stored in workflow_statuses. The built-in
+// statuses below always exist; teams add custom ones (e.g. Review, QA).
+
+export interface WorkflowStatus {
+  id: string;
+  key: string;
+  label: string;
+  position: number;
+  is_system: boolean;
+}
+
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { id: 'pending', key: 'pending', label: 'Pending', position: 0, is_system: true },
+  { id: 'in-progress', key: 'in-progress', label: 'In Progress', position: 1, is_system: true },
+  { id: 'completed', key: 'completed', label: 'Completed', position: 100, is_system: true },
+];
+
+export const getStatusLabel = (statuses: WorkflowStatus[], key: string) =>
+  statuses.find(s => s.key === key)?.label || key;
+
+export const getStatusBadgeVariant = (key: string) => {
+  switch (key) {
+    case 'completed':
+      return 'success';
+    case 'pending':
+      return 'secondary';
+    default:
+      // In progress and every custom stage in between
+      return 'warning';
+  }
+};
+
+// Keys must match the workflow_statuses.key check constraint
+export const toStatusKey = (label: string) =>
+  label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+interface BoardTask {
+  board_position?: number;
+  created_at: string;
+}
+
+// Cards are ordered manually within a column; newest first until someone reorders them
+export const compareBoardPosition = (a: BoardTask, b: BoardTask) =>
+  (a.board_position ?? 0) - (b.board_position ?? 0) ||
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format, isValid, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
+import { useUserRole } from '@/hooks/useUserRole';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/AppLayout';
+import { CalendarGrid } from '@/components/CalendarGrid';
+import { ClockCalendarWidget } from '@/components/ClockCalendarWidget';
+import { TaskDialog } from '@/components/TaskDialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronLeft, ChevronRight, ListTodo, Loader2, Video } from 'lucide-react';
+import {
+  CalendarEvent,
+  CalendarViewMode,
+  getRangeLabel,
+  getVisibleRange,
+  rescheduleDeadline,
+  shiftDate,
+} from '@/lib/calendar';
+import { isAssignedTo, TaskParticipantLink } from '@/lib/taskParticipants';
+
+interface CalendarTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  is_private: boolean;
+  deadline: string | null;
+  user_id: string;
+  recurrence_id: string | null;
+  estimate_hours: number | null;
+  story_points: number | null;
+  project_id: string | null;
+  task_participants?: TaskParticipantLink[];
+}
+
+interface CalendarMeeting {
+  id: string;
+  title: string;
+  meeting_date: string;
+  duration_minutes: number | null;
+}
+
+const VIEW_MODES: CalendarViewMode[] = ['month', 'week', 'day'];
+
+// View and focused date live in the URL so reloads and shared links open the same page
+const parseView = (value: string | null): CalendarViewMode =>
+  VIEW_MODES.includes(value as CalendarViewMode) ? (value as CalendarViewMode) : 'month';
+
+const parseDate = (value: string | null) => {
+  const date = value ? parseISO(value) : null;
+  return date && isValid(date) ? date : new Date();
+};
+
+const CalendarPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { toast } = useToast();
+  const { currentProjectId, currentProject, isLoading: projectsLoading } = useProject();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = parseView(searchParams.get('view'));
+  const date = parseDate(searchParams.get('date'));
+  const [tasks, setTasks] = useState<CalendarTask[]>([]);
+  const [meetings, setMeetings] = useState<CalendarMeeting[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [onlyMine, setOnlyMine] = useState(true);
+  const [editingTask, setEditingTask] = useState<CalendarTask | null>(null);
+
+  const { start, end } = getVisibleRange(view, date);
+  const rangeStart = start.toISOString();
+  const rangeEnd = end.toISOString();
+
+  const updateParams = (nextView: CalendarViewMode, nextDate: Date) => {
+    setSearchParams({ view: nextView, date: format(nextDate, 'yyyy-MM-dd') }, { replace: true });
+  };
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      let tasksQuery = supabase
+        .from('tasks')
+        .select('id, title, description, status, priority, is_private, deadline, user_id, recurrence_id, estimate_hours, story_points, project_id, task_participants (user_id, role)')
+        .is('pool_group_id', null)
+        .gte('deadline', rangeStart)
+        .lte('deadline', rangeEnd);
+
+      let meetingsQuery = supabase
+        .from('meetings')
+        .select('id, title, meeting_date, duration_minutes')
+        .gte('meeting_date', rangeStart)
+        .lte('meeting_date', rangeEnd);
+
+      if (currentProjectId) {
+        tasksQuery = tasksQuery.eq('project_id', currentProjectId);
+        meetingsQuery = meetingsQuery.eq('project_id', currentProjectId);
+      }
+
+      const [tasksResult, meetingsResult] = await Promise.all([tasksQuery, meetingsQuery]);
+
+      if (tasksResult.error) throw tasksResult.error;
+      if (meetingsResult.error) throw meetingsResult.error;
+
+      setTasks(tasksResult.data || []);
+      setMeetings(meetingsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load calendar',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeStart, rangeEnd, currentProjectId, toast]);
+
+  useEffect(() => {
+    if (!user || projectsLoading) return;
+    fetchEvents();
+
+    const channel = supabase
+      .channel(`calendar-${user.id}-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, () => fetchEvents())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'meetings' }, () => fetchEvents())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, projectsLoading, fetchEvents]);
+
+  const canEdit = (task: CalendarTask) => isAdmin || isAssignedTo(task, user?.id);
+  // Co-assignees can open the task but only its owner and admins move the deadline
+  const canReschedule = (task: CalendarTask) => isAdmin || task.user_id === user?.id;
+
+  const events: CalendarEvent[] = [
+    ...tasks
+      .filter(task => task.deadline && (!onlyMine || isAssignedTo(task, user?.id)))
+      .map(task => ({
+        kind: 'task' as const,
+        id: task.id,
+        title: task.title,
+        start: new Date(task.deadline as string),
+        priority: task.priority,
+        status: task.status,
+        editable: canReschedule(task),
+      })),
+    ...meetings.map(meeting => ({
+      kind: 'meeting' as const,
+      id: meeting.id,
+      title: meeting.title,
+      start: new Date(meeting.meeting_date),
+      durationMinutes: meeting.duration_minutes,
+    })),
+  ];
+
+  const handleReschedule = async (taskId: string, day: Date, hour?: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task?.deadline || !canReschedule(task)) return;
+
+    const previous = task.deadline;
+    const deadline = rescheduleDeadline(new Date(previous), day, hour);
+    if (deadline.getTime() === new Date(previous).getTime()) return;
+
+    // Move the task right away; the realtime refetch confirms it
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, deadline: deadline.toISOString() } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ deadline: deadline.toISOString() })
+        .eq('id', taskId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Deadline moved',
+        description: `"${task.title}" is now due ${format(deadline, 'EEE, MMM d, h:mm a')}`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      setTasks(prev => prev.map(t => t.id === taskId ? { ...t, deadline: previous } : t));
+      toast({
+        title: 'Error',
+        description: 'Failed to move deadline',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleOpenEvent = (event: CalendarEvent) => {
+    if (event.kind === 'meeting') {
+      navigate('/meetings');
+      return;
+    }
+    const task = tasks.find(t => t.id === event.id);
+    if (task && canEdit(task)) setEditingTask(task);
+  };
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Calendar</h1>
+            <p className="text-muted-foreground">
+              {currentProject
+                ? `Deadlines and meetings in ${currentProject.name}`
+                : 'Task deadlines and meetings at a glance'}
+            </p>
+          </div>
+          <Tabs value={view} onValueChange={(value) => updateParams(value as CalendarViewMode, date)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="day">Day</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_340px]">
+          <div className="space-y-4 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => updateParams(view, shiftDate(view, date, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => updateParams(view, new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => updateParams(view, shiftDate(view, date, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="text-lg font-semibold ml-2">{getRangeLabel(view, date)}</h2>
+            </div>
+
+            <CalendarGrid
+              view={view}
+              date={date}
+              events={events}
+              onReschedule={handleReschedule}
+              onSelectDay={(day) => updateParams('day', day)}
+              onOpenEvent={handleOpenEvent}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <ClockCalendarWidget
+              defaultTab="calendar"
+              selectedDate={date}
+              onSelectDate={(day) => updateParams(view, day)}
+              markedDates={events.map(e => e.start)}
+            />
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="only-mine">Only my tasks</Label>
+                <Switch id="only-mine" checked={onlyMine} onCheckedChange={setOnlyMine} />
+              </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <ListTodo className="h-4 w-4" />
+                Task deadline — drag to reschedule
+              </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Video className="h-4 w-4 text-primary" />
+                Meeting
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <TaskDialog
+          open={!!editingTask}
+          onOpenChange={(open) => !open && setEditingTask(null)}
+          onTaskSaved={fetchEvents}
+          task={editingTask}
+        />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default CalendarPage;
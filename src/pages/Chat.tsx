@@ -1,5 +1,6 @@
-import { useState, useRef, useEffect, useMemo } from 'react';
+import { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChat, ChatMessage } from '@/hooks/useChat';
 import { useToast } from '@/hooks/use-toast';
@@ -22,6 +23,10 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { ImagePreviewModal } from "@/components/ImagePreviewModal";
+import { NewConversationDialog } from '@/components/NewConversationDialog';
+import { ConversationMembersDialog } from '@/components/ConversationMembersDialog';
+import { ChatThreadPanel } from '@/components/ChatThreadPanel';
+import { MessageHistoryDialog } from '@/components/MessageHistoryDialog';
 import { 
   Dialog,
   DialogContent,
@@ -70,9 +75,17 @@ import {
   FileText,
   Download,
   ExternalLink,
-  Home
+  Home,
+  Hash,
+  Users,
+  LogOut,
+  Reply,
+  ChevronDown
 } from 'lucide-react';
 import { format, formatDistanceToNow, isToday, isYesterday } from 'date-fns';
+import { ConversationEvent, describeConversationEvent, isReadByAllMembers } from '@/lib/chatConversations';
+import { getThreadReplies } from '@/lib/chatThreads';
+import { ChatSearchResult, MIN_SEARCH_LENGTH, getResultChat, getSearchTerms, splitHighlights } from '@/lib/chatSearch';
 
 const REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '😡'];
 
@@ -104,7 +117,28 @@ const Chat = () => {
     searchQuery,
     setSearchQuery,
     deleteMessage,
+    editMessage,
     forwardMessage,
+    conversations,
+    selectedConversation,
+    setSelectedConversation,
+    conversationMembers,
+    createConversation,
+    joinConversation,
+    leaveConversation,
+    deleteConversation,
+    addConversationMembers,
+    removeConversationMember,
+    setConversationMemberRole,
+    threadSummaries,
+    markThreadRead,
+    searchResults,
+    searching,
+    searchAllMessages,
+    hasMoreMessages,
+    loadedChatId,
+    loadingOlder,
+    loadOlderMessages,
   } = useChat();
   
   const [newMessage, setNewMessage] = useState('');
@@ -118,7 +152,11 @@ const Chat = () => {
   const [showReactionsFor, setShowReactionsFor] = useState<string | null>(null);
   const [rightSidebarTab, setRightSidebarTab] = useState<'media' | 'links' | 'docs'>('media');
   const [mobileView, setMobileView] = useState<'list' | 'chat' | 'info'>('list');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
+  const historyStartRef = useRef<HTMLDivElement>(null);
+  // Scroll position saved before older messages are prepended, so the view stays put
+  const scrollRestoreRef = useRef<{ viewport: HTMLElement; height: number; top: number } | null>(null);
+  const wasLoadingRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Forwarding state
@@ -127,6 +165,21 @@ const Chat = () => {
   const [forwardToUsers, setForwardToUsers] = useState<string[]>([]);
   const [userSearchQuery, setUserSearchQuery] = useState('');
   const [showChatSearch, setShowChatSearch] = useState(false);
+  const [showNewConversation, setShowNewConversation] = useState(false);
+  const [showMembersDialog, setShowMembersDialog] = useState(false);
+
+  // Thread state: the thread open in the right sidebar and the ones expanded inline
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<string[]>([]);
+
+  // Jump-to-message from global search: the target waits here until its chat has loaded
+  const [pendingJump, setPendingJump] = useState<ChatSearchResult | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  // Editing state
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
 
   // Image modal state
   const [showImageModal, setShowImageModal] = useState(false);
@@ -241,12 +294,18 @@ const Chat = () => {
     });
   }, [messages, searchQuery]);
 
+  // Replies live in their thread; search results include them so they can still be found
+  const timelineMessages = useMemo(
+    () => (searchQuery.trim() ? filteredMessages : filteredMessages.filter((msg) => !msg.parent_id)),
+    [filteredMessages, searchQuery]
+  );
+
   // Group messages into day sections (Today / Yesterday / older dates)
   const groupedMessages = useMemo(() => {
     const groups: { label: string; dateKey: string; items: ChatMessage[] }[] = [];
     const byDay: Record<string, ChatMessage[]> = {};
 
-    filteredMessages.forEach((msg) => {
+    timelineMessages.forEach((msg) => {
       const dateKey = format(new Date(msg.created_at), 'yyyy-MM-dd');
       if (!byDay[dateKey]) byDay[dateKey] = [];
       byDay[dateKey].push(msg);
@@ -266,7 +325,27 @@ const Chat = () => {
       });
 
     return groups;
-  }, [filteredMessages]);
+  }, [timelineMessages]);
+
+  // The list is windowed, so day labels and messages become one flat run of rows
+  const messageRows = useMemo(
+    () =>
+      groupedMessages.flatMap((group) => [
+        { kind: 'day' as const, key: `day-${group.dateKey}`, label: group.label },
+        ...group.items.map((msg) => ({ kind: 'message' as const, key: msg.id, msg })),
+      ]),
+    [groupedMessages]
+  );
+
+  // Only the rows around the visible part of the chat are rendered; their heights are measured as they mount
+  const messageListVirtualizer = useVirtualizer({
+    count: messageRows.length,
+    getScrollElement: () => messageListRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]') ?? null,
+    estimateSize: (index) => (messageRows[index].kind === 'day' ? 48 : 88),
+    getItemKey: (index) => messageRows[index].key,
+    paddingStart: 24,
+    overscan: 8,
+  });
 
   // Extract shared media, links, and docs from messages
   const sharedContent = useMemo(() => {
@@ -322,20 +401,111 @@ const Chat = () => {
 
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  // Jump to the newest message when a chat has loaded, and glide to the ones arriving after.
+  // Keyed on the last message so prepending older history does not scroll.
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (loading) {
+      wasLoadingRef.current = true;
+      return;
+    }
+    messageListVirtualizer.scrollToEnd({ behavior: wasLoadingRef.current ? 'auto' : 'smooth' });
+    wasLoadingRef.current = false;
+  }, [lastMessageId, loading, messageListVirtualizer]);
 
+  // Load the previous page once the top of the loaded history scrolls into view
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const sentinel = historyStartRef.current;
+    if (!sentinel || !hasMoreMessages || loadingOlder) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (!entry.isIntersecting) return;
+      const viewport = sentinel.closest<HTMLElement>('[data-radix-scroll-area-viewport]');
+      if (viewport) {
+        scrollRestoreRef.current = { viewport, height: viewport.scrollHeight, top: viewport.scrollTop };
+      }
+      loadOlderMessages();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreMessages, loadingOlder, loadOlderMessages]);
+
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current;
+    if (!restore || loadingOlder) return;
+    restore.viewport.scrollTop = restore.top + restore.viewport.scrollHeight - restore.height;
+    scrollRestoreRef.current = null;
+  }, [messages, loadingOlder]);
+
+  // Declared after the scroll-to-bottom effect so the jump wins when messages load
+  useEffect(() => {
+    if (!pendingJump) return;
+
+    // The user opened another chat before the message was found
+    const target = getResultChat(pendingJump, user?.id);
+    const targetChatId = target.conversationId || target.userId;
+    if ((selectedConversation || selectedUser) !== targetChatId) {
+      setPendingJump(null);
+      return;
+    }
+    // The previous chat's messages are still shown until the target chat has loaded
+    if (loadedChatId !== targetChatId) return;
+
+    // Older than the loaded history: keep paging back until it shows up
+    if (!messages.some(m => m.id === pendingJump.id)) {
+      if (loading || loadingOlder) return;
+      if (hasMoreMessages) {
+        loadOlderMessages();
+      } else {
+        // Deleted or expired since the search ran
+        toast({ title: 'Message not found', description: 'It may have been deleted' });
+        setPendingJump(null);
+      }
+      return;
+    }
+
+    // Replies open in the thread panel; the thread's root is the one scrolled to
+    if (pendingJump.parent_id) setActiveThreadId(pendingJump.parent_id);
+    const targetId = pendingJump.parent_id || pendingJump.id;
+    // The row may not be rendered yet, so scroll by its place in the list
+    const targetIndex = messageRows.findIndex(row => row.kind === 'message' && row.msg.id === targetId);
+    if (targetIndex !== -1) messageListVirtualizer.scrollToIndex(targetIndex, { align: 'center', behavior: 'smooth' });
+    setHighlightedMessageId(targetId);
+    setPendingJump(null);
+  }, [messages, pendingJump, user?.id, selectedConversation, selectedUser, loadedChatId, loading, loadingOlder, hasMoreMessages, loadOlderMessages, toast, messageRows, messageListVirtualizer]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Message search runs on the server, so wait for the user to stop typing
+  useEffect(() => {
+    const timeout = setTimeout(() => searchAllMessages(userSearchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [userSearchQuery, searchAllMessages]);
 
   // Handle responsive: show user list on mobile when no user selected
   useEffect(() => {
-    if (!selectedUser) {
+    if (!selectedUser && !selectedConversation) {
       setMobileView('list');
     }
-  }, [selectedUser]);
+  }, [selectedUser, selectedConversation]);
+
+  // Threads belong to the chat they were opened in
+  useEffect(() => {
+    setActiveThreadId(null);
+    setExpandedThreads([]);
+  }, [selectedUser, selectedConversation]);
+
+  // Replies arriving in the open thread are read right away
+  const activeThreadUnread = activeThreadId ? threadSummaries[activeThreadId]?.unread_count || 0 : 0;
+  useEffect(() => {
+    if (activeThreadId && activeThreadUnread > 0) {
+      markThreadRead(activeThreadId);
+    }
+  }, [activeThreadId, activeThreadUnread, markThreadRead]);
 
   const clearSelectedFile = () => {
     setSelectedFile(null);
@@ -430,6 +600,8 @@ const Chat = () => {
   };
 
   const selectedUserData = chatUsers.find((u) => u.id === selectedUser);
+  const selectedConversationData = conversations.find((c) => c.id === selectedConversation);
+  const hasOpenChat = !!selectedUser || !!selectedConversation;
   const isUserBlocked = selectedUser ? blockedUsers.includes(selectedUser) : false;
 
   const isImageFile = (type: string | null | undefined) => {
@@ -467,10 +639,79 @@ const Chat = () => {
   };
 
   const handleSelectUser = (userId: string) => {
+    setSelectedConversation(null);
     setSelectedUser(userId);
     setMobileView('chat');
   };
 
+  const handleSelectConversation = (conversationId: string) => {
+    setSelectedUser(null);
+    setSelectedConversation(conversationId);
+    setMobileView('chat');
+  };
+
+  const handleJumpToMessage = (result: ChatSearchResult) => {
+    const chat = getResultChat(result, user?.id);
+    if (chat.conversationId) {
+      handleSelectConversation(chat.conversationId);
+    } else if (chat.userId) {
+      handleSelectUser(chat.userId);
+    }
+    setSearchQuery('');
+    setShowChatSearch(false);
+    setPendingJump(result);
+  };
+
+  const getResultChatName = (result: ChatSearchResult) => {
+    const chat = getResultChat(result, user?.id);
+    if (chat.conversationId) {
+      return conversations.find(c => c.id === chat.conversationId)?.name || 'Conversation';
+    }
+    const chatUser = chatUsers.find(u => u.id === chat.userId);
+    return chatUser?.full_name || chatUser?.email || 'Direct message';
+  };
+
+  const openThread = (message: ChatMessage) => {
+    const rootId = message.parent_id || message.id;
+    setActiveThreadId(rootId);
+    setMobileView('info');
+    markThreadRead(rootId);
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.message);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId) return;
+    const messageId = editingMessageId;
+    setEditingMessageId(null);
+    await editMessage(messageId, editText);
+  };
+
+  const toggleThreadExpanded = (rootId: string) => {
+    setExpandedThreads(prev => prev.includes(rootId) ? prev.filter(id => id !== rootId) : [...prev, rootId]);
+  };
+
+  const getMessageAuthor = (msg: ChatMessage) => {
+    if (msg.sender_id === user?.id) return { name: 'You', avatar_url: null };
+    const author = selectedConversation ? msg.sender : selectedUserData;
+    return {
+      name: author?.full_name || author?.email || getMemberName(msg.sender_id),
+      avatar_url: author?.avatar_url,
+    };
+  };
+
+  const activeThreadRoot = activeThreadId ? messages.find(m => m.id === activeThreadId) : undefined;
+
+  const getMemberName = (userId: string) => {
+    const member = conversationMembers.find(m => m.user_id === userId);
+    const chatUser = chatUsers.find(u => u.id === userId);
+    if (userId === user?.id) return 'You';
+    return member?.profile?.full_name || member?.profile?.email || chatUser?.full_name || chatUser?.email || 'Someone';
+  };
+
   const handleOpenForwardDialog = (message: ChatMessage) => {
     setMessageToForward(message);
     setIsForwarding(true);
@@ -493,6 +734,270 @@ const Chat = () => {
     );
   };
 
+  // One message of the open chat, rendered for the rows the list currently shows
+  const renderMessage = (msg: ChatMessage) => {
+    const isOwn = msg.sender_id === user?.id;
+
+    if (msg.event) {
+      return (
+        <div className="flex justify-center">
+          <span className="text-xs text-muted-foreground">
+            {describeConversationEvent(msg.event as ConversationEvent, msg.sender?.full_name || getMemberName(msg.sender_id))}
+            {' · '}{format(new Date(msg.created_at), 'hh:mm a')}
+          </span>
+        </div>
+      );
+    }
+
+    // In groups and channels the author comes from the message, in DMs from the open chat
+    const author = selectedConversation ? msg.sender : selectedUserData;
+    const isRead = selectedConversation
+      ? isReadByAllMembers(conversationMembers, msg.sender_id, msg.created_at)
+      : msg.is_read;
+    return (
+      <div
+        id={`message-${msg.id}`}
+        className={`flex gap-3 ${isOwn ? 'flex-row-reverse' : 'flex-row'} group rounded-xl transition-colors ${
+          highlightedMessageId === msg.id ? 'bg-primary/10' : ''
+        }`}
+      >
+         {/* Avatar */}
+         <Avatar className="h-8 w-8 mt-1 shrink-0">
+           <AvatarImage src={isOwn ? undefined : author?.avatar_url || undefined} />
+           <AvatarFallback className={isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}>
+             {isOwn ? getInitials(null, user?.email || '') : getInitials(author?.full_name || null, author?.email || '?')}
+           </AvatarFallback>
+         </Avatar>
+
+         {/* Message Bubble Container */}
+         <div className={`max-w-[85%] md:max-w-[70%] ${isOwn ? 'items-end' : 'items-start'} flex flex-col`}>
+            {selectedConversation && !isOwn && (
+              <span className="text-xs font-medium text-muted-foreground mb-1 px-1">
+                {author?.full_name || author?.email || getMemberName(msg.sender_id)}
+              </span>
+            )}
+            <div className={`relative px-4 py-3 text-sm shadow-sm ${
+              isOwn 
+                ? 'bg-primary text-primary-foreground rounded-[12px] rounded-tr-none' 
+                : 'bg-muted text-foreground rounded-[12px] rounded-tl-none'
+            }`}>
+
+              {/* Attachments */}
+              {msg.file_url && (
+               <div className={`${isImageFile(msg.file_type) ? '-mx-4 -mt-3 mb-2' : 'mb-2'}`}>
+                 {isImageFile(msg.file_type) ? (
+                   <button
+                     type="button"
+                     onClick={() => openImage(msg.file_url!)}
+                     className={`block w-full overflow-hidden ${isOwn ? 'rounded-t-[12px] rounded-tr-none' : 'rounded-t-[12px] rounded-tl-none'}`}
+                   >
+                     <img
+                       src={msg.file_url}
+                       alt="attachment"
+                       className="w-full max-h-[300px] object-cover hover:opacity-95 transition-opacity"
+                       onContextMenu={(e) => e.preventDefault()}
+                       draggable={false}
+                     />
+                   </button>
+                 ) : (
+                   <button
+                     type="button"
+                     onClick={() => openFile(msg.file_url!, msg.file_name, msg.file_type)}
+                     onContextMenu={(e) => e.preventDefault()}
+                     className={`flex items-center gap-2 p-2 rounded-lg w-full ${
+                       isOwn ? 'bg-primary-foreground/10' : 'bg-card'
+                     }`}
+                   >
+                     <FileIcon className="h-4 w-4 shrink-0" />
+                     <span className="truncate text-sm flex-1 text-left">{msg.file_name || 'File'}</span>
+                     <Download className="h-4 w-4 shrink-0 opacity-60" />
+                   </button>
+                 )}
+               </div>
+              )}
+
+              {/* Message Text */}
+              {editingMessageId === msg.id ? (
+                 <div className="space-y-2 min-w-[200px]">
+                   <Textarea
+                     autoFocus
+                     value={editText}
+                     onChange={(e) => setEditText(e.target.value)}
+                     onKeyDown={(e) => {
+                       if (e.key === 'Enter' && !e.shiftKey) {
+                         e.preventDefault();
+                         handleSaveEdit();
+                       } else if (e.key === 'Escape') {
+                         setEditingMessageId(null);
+                       }
+                     }}
+                     className="min-h-[60px] resize-none bg-card text-foreground text-sm"
+                   />
+                   <div className="flex justify-end gap-2">
+                     <Button size="sm" variant="ghost" className="h-7" onClick={() => setEditingMessageId(null)}>
+                       Cancel
+                     </Button>
+                     <Button size="sm" variant="secondary" className="h-7" onClick={handleSaveEdit} disabled={!editText.trim()}>
+                       Save
+                     </Button>
+                   </div>
+                 </div>
+              ) : msg.message && !msg.message.startsWith('Sent a file:') && (
+                 <p className="whitespace-pre-wrap leading-relaxed">{msg.message}</p>
+              )}
+
+              {/* Actions on Hover */}
+              <div className={`absolute -top-5 ${isOwn ? 'right-0' : 'left-0'} z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200`}>
+                 <div className="flex items-center gap-1 bg-card border rounded-full shadow-lg p-1">
+                   {REACTIONS.map(r => (
+                     <button 
+                       key={r} 
+                       onClick={() => handleReaction(msg.id, r)} 
+                       className="text-lg p-1 rounded-full hover:scale-125 hover:bg-muted transition-transform"
+                       aria-label={`React with ${r}`}
+                     >
+                       {r}
+                     </button>
+                   ))}
+                   <div className="w-px h-5 bg-border mx-1"></div>
+                   <DropdownMenu>
+                     <DropdownMenuTrigger asChild>
+                       <Button size="icon" variant="ghost" className="h-7 w-7 rounded-full">
+                         <MoreVertical className="h-4 w-4" />
+                       </Button>
+                     </DropdownMenuTrigger>
+                     <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+                       <DropdownMenuItem onClick={() => openThread(msg)}>
+                         <Reply className="h-3 w-3 mr-2" /> Reply in thread
+                       </DropdownMenuItem>
+                       <DropdownMenuItem onClick={() => handleOpenForwardDialog(msg)}>
+                         <Share2 className="h-3 w-3 mr-2" /> Forward
+                       </DropdownMenuItem>
+                       {msg.message && (
+                         <DropdownMenuItem onClick={() => {
+                           navigator.clipboard.writeText(msg.message);
+                           toast({ title: "Copied!" });
+                         }}>
+                           <Copy className="h-3 w-3 mr-2" /> Copy Text
+                         </DropdownMenuItem>
+                       )}
+
+                       {isOwn && msg.message && !msg.message.startsWith('Sent a file:') && (
+                         <DropdownMenuItem onClick={() => startEditing(msg)}>
+                           <Edit2 className="h-3 w-3 mr-2" /> Edit
+                         </DropdownMenuItem>
+                       )}
+                       {isOwn && (
+                         <>
+                           <DropdownMenuSeparator />
+                           <DropdownMenuItem onClick={() => deleteMessage(msg.id)} className="text-destructive">
+                             <Trash2 className="h-3 w-3 mr-2" /> Delete
+                           </DropdownMenuItem>
+                         </>
+                       )}
+                     </DropdownMenuContent>
+                   </DropdownMenu>
+                 </div>
+              </div>
+
+            </div>
+
+            {/* Timestamp */}
+            <span className="text-[11px] text-muted-foreground mt-1 px-1 flex items-center gap-1">
+              {format(new Date(msg.created_at), 'hh:mm a')}
+              {msg.edited_at && (
+                 <button
+                   type="button"
+                   onClick={() => setHistoryMessageId(msg.id)}
+                   className="hover:text-foreground hover:underline"
+                   title="View edit history"
+                 >
+                   (edited)
+                 </button>
+              )}
+              {isOwn && (
+                 <span className="inline-flex">
+                   {isRead ? <CheckCheck className="h-3 w-3 text-primary" /> : <Check className="h-3 w-3" />}
+                 </span>
+              )}
+            </span>
+
+            {/* Reactions */}
+            {msg.reactions && msg.reactions.length > 0 && (
+              <div className="flex gap-1 mt-1">
+                {Array.from(new Set(msg.reactions.map(r => r.reaction))).map(emoji => {
+                  const userReacted = msg.reactions?.some(r => r.reaction === emoji && r.user_id === user?.id);
+                  return (
+                    <Badge
+                      key={emoji}
+                      variant="secondary"
+                      onClick={() => handleReaction(msg.id, emoji)}
+                      className={`text-[10px] px-1 h-5 bg-card border border-border cursor-pointer select-none transition ${userReacted ? 'ring-1 ring-primary/60' : ''}`}
+                    >
+                      {emoji} {msg.reactions?.filter(r => r.reaction === emoji).length}
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Thread */}
+            {msg.parent_id ? (
+              <button
+                type="button"
+                onClick={() => openThread(msg)}
+                className="text-xs text-primary hover:underline mt-1 px-1"
+              >
+                View thread
+              </button>
+            ) : threadSummaries[msg.id] && (
+              <div className="mt-1 w-full">
+                <div className="flex items-center gap-2 text-xs px-1">
+                  <button
+                    type="button"
+                    onClick={() => toggleThreadExpanded(msg.id)}
+                    className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                    aria-label={expandedThreads.includes(msg.id) ? 'Collapse thread' : 'Expand thread'}
+                  >
+                    {expandedThreads.includes(msg.id) ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => openThread(msg)}
+                    className="flex items-center gap-1 font-medium text-primary hover:underline"
+                  >
+                    <MessageSquare className="h-3 w-3" />
+                    {threadSummaries[msg.id].reply_count} {threadSummaries[msg.id].reply_count === 1 ? 'reply' : 'replies'}
+                  </button>
+                  {threadSummaries[msg.id].unread_count > 0 && (
+                    <Badge variant="destructive" className="h-4 px-1.5 text-[10px]">
+                      {threadSummaries[msg.id].unread_count} new
+                    </Badge>
+                  )}
+                  <span className="text-muted-foreground">
+                    Last reply {formatDistanceToNow(new Date(threadSummaries[msg.id].last_reply_at), { addSuffix: true })}
+                  </span>
+                </div>
+                {expandedThreads.includes(msg.id) && (
+                  <div className={`mt-2 space-y-2 border-border ${isOwn ? 'border-r-2 pr-3' : 'border-l-2 pl-3'}`}>
+                    {getThreadReplies(messages, msg.id).map(reply => (
+                      <div key={reply.id} className="text-sm">
+                        <span className="font-medium">{getMessageAuthor(reply).name}</span>
+                        <span className="text-[11px] text-muted-foreground ml-2">{format(new Date(reply.created_at), 'hh:mm a')}</span>
+                        <p className="whitespace-pre-wrap text-muted-foreground">
+                          {reply.file_url && !reply.message ? reply.file_name : reply.message}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+         </div>
+      </div>
+    );
+  };
+
   return (
     <div className="flex h-screen bg-background text-foreground font-sans overflow-hidden">
       
@@ -532,21 +1037,79 @@ const Chat = () => {
         </div>
 
         {/* Search Bar */}
-        <div className="px-4 md:px-6 mb-4">
-          <div className="relative">
+        <div className="px-4 md:px-6 mb-4 flex items-center gap-2">
+          <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input 
-              placeholder="Search users..." 
+              placeholder="Search chats and messages..." 
               className="pl-9 bg-muted border-none rounded-lg text-sm h-10"
               value={userSearchQuery}
               onChange={(e) => setUserSearchQuery(e.target.value)}
             />
           </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="shrink-0 text-muted-foreground hover:text-foreground"
+            onClick={() => setShowNewConversation(true)}
+            title="New group or channel"
+          >
+            <Plus className="h-5 w-5" />
+          </Button>
         </div>
 
         {/* Conversation List */}
         <ScrollArea className="flex-1 px-4">
+          {conversations.some(c => c.name.toLowerCase().includes(userSearchQuery.toLowerCase())) && (
+            <div className="space-y-1 pb-4">
+              <h4 className="px-3 pb-1 text-xs font-bold text-muted-foreground uppercase tracking-wider">Groups & Channels</h4>
+              {conversations
+                .filter(c => c.name.toLowerCase().includes(userSearchQuery.toLowerCase()))
+                .map((conversation) => {
+                  const ConversationIcon = conversation.kind === 'channel' ? Hash : Users;
+                  return (
+                    <div
+                      key={conversation.id}
+                      onClick={() => conversation.role && handleSelectConversation(conversation.id)}
+                      className={`p-3 rounded-xl transition-colors flex items-center gap-3 ${
+                        conversation.role ? 'cursor-pointer' : ''
+                      } ${
+                        selectedConversation === conversation.id ? 'bg-card shadow-md border border-border' : 'hover:bg-muted'
+                      }`}
+                    >
+                      <div className={`h-10 w-10 shrink-0 rounded-full flex items-center justify-center ${
+                        selectedConversation === conversation.id ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                      }`}>
+                        <ConversationIcon className="h-5 w-5" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="text-sm font-semibold truncate text-foreground">{conversation.name}</h4>
+                        <p className={`text-xs truncate ${
+                          conversation.unread_count > 0 ? 'font-semibold text-foreground' : 'text-muted-foreground'
+                        }`}>
+                          {conversation.role
+                            ? conversation.last_message || `${conversation.member_count} ${conversation.member_count === 1 ? 'member' : 'members'}`
+                            : `${conversation.member_count} ${conversation.member_count === 1 ? 'member' : 'members'}`}
+                        </p>
+                      </div>
+                      {conversation.role ? (
+                        conversation.unread_count > 0 && (
+                          <Badge variant="destructive" className="h-5 min-w-5 px-1.5 shrink-0">{conversation.unread_count}</Badge>
+                        )
+                      ) : (
+                        <Button size="sm" variant="outline" className="h-7 shrink-0" onClick={() => joinConversation(conversation.id)}>
+                          Join
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          )}
           <div className="space-y-1 pb-4">
+            {conversations.length > 0 && (
+              <h4 className="px-3 pb-1 text-xs font-bold text-muted-foreground uppercase tracking-wider">Direct Messages</h4>
+            )}
             {chatUsers
               .filter(user => 
                 (user.full_name || user.email).toLowerCase().includes(userSearchQuery.toLowerCase())
@@ -597,6 +1160,48 @@ const Chat = () => {
               </div>
             ))}
           </div>
+          {userSearchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+            <div className="space-y-1 pb-4">
+              <h4 className="px-3 pb-1 text-xs font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                Messages
+                {searching && <Loader2 className="h-3 w-3 animate-spin" />}
+              </h4>
+              {!searching && searchResults.length === 0 && (
+                <p className="px-3 text-xs text-muted-foreground">No messages found</p>
+              )}
+              {searchResults.map((result) => {
+                const terms = getSearchTerms(userSearchQuery);
+                const showText = result.message && !result.message.startsWith('Sent a file:');
+                return (
+                  <div
+                    key={result.id}
+                    onClick={() => handleJumpToMessage(result)}
+                    className="p-3 rounded-xl cursor-pointer transition-colors hover:bg-muted"
+                  >
+                    <div className="flex justify-between items-baseline gap-2 mb-0.5">
+                      <h4 className="text-sm font-semibold truncate text-foreground">{getResultChatName(result)}</h4>
+                      <span className="text-[11px] text-muted-foreground shrink-0">
+                        {format(new Date(result.created_at), 'MMM d')}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2 break-words">
+                      <span className="font-medium">{getMemberName(result.sender_id)}: </span>
+                      {splitHighlights(showText ? result.message : result.file_name || 'File', terms).map((part, idx) => (
+                        part.match
+                          ? <mark key={idx} className="bg-primary/20 text-foreground rounded-sm">{part.text}</mark>
+                          : <span key={idx}>{part.text}</span>
+                      ))}
+                    </p>
+                    {showText && result.file_name && (
+                      <p className="text-[11px] text-muted-foreground truncate flex items-center gap-1 mt-0.5">
+                        <FileIcon className="h-3 w-3 shrink-0" /> {result.file_name}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </ScrollArea>
       </div>
 
@@ -604,7 +1209,60 @@ const Chat = () => {
       <div className={`${mobileView === 'chat' ? 'flex' : 'hidden'} md:flex flex-1 flex-col bg-card border-r border-border min-w-0`}>
         
         {/* Header */}
-        {selectedUser ? (
+        {selectedConversationData ? (
+          <div className="h-[72px] px-4 md:px-6 border-b border-border flex items-center justify-between shrink-0">
+            <div className="flex items-center gap-3 flex-1 min-w-0">
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                className="md:hidden" 
+                onClick={() => setMobileView('list')}
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <button className="flex items-center gap-3 flex-1 min-w-0" onClick={() => setShowMembersDialog(true)}>
+                <div className="h-10 w-10 shrink-0 rounded-full bg-primary text-primary-foreground flex items-center justify-center">
+                  {selectedConversationData.kind === 'channel' ? <Hash className="h-5 w-5" /> : <Users className="h-5 w-5" />}
+                </div>
+                <div className="text-left min-w-0">
+                  <h2 className="text-base font-bold text-foreground truncate">{selectedConversationData.name}</h2>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {selectedConversationData.description || `${conversationMembers.length} ${conversationMembers.length === 1 ? 'member' : 'members'}`}
+                  </p>
+                </div>
+              </button>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary hover:bg-muted" onClick={() => setShowChatSearch(true)}>
+                <Search className="h-5 w-5" />
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-primary hover:bg-muted">
+                    <MoreVertical className="h-5 w-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setShowMembersDialog(true)}>
+                    <Users className="mr-2 h-4 w-4" /> Members
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => leaveConversation(selectedConversationData.id)}>
+                    <LogOut className="mr-2 h-4 w-4" /> Leave {selectedConversationData.kind}
+                  </DropdownMenuItem>
+                  {selectedConversationData.role === 'admin' && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => deleteConversation(selectedConversationData.id)} className="text-destructive">
+                        <Trash2 className="mr-2 h-4 w-4" /> Delete {selectedConversationData.kind}
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        ) : selectedUser ? (
           <div className="h-[72px] px-4 md:px-6 border-b border-border flex items-center justify-between shrink-0">
             <div className="flex items-center gap-3 flex-1 min-w-0">
                <Button 
@@ -711,8 +1369,8 @@ const Chat = () => {
         )}
 
         {/* Messages List */}
-        <ScrollArea className="flex-1 p-4 md:p-6 bg-card">
-          {!selectedUser ? (
+        <ScrollArea ref={messageListRef} className="flex-1 p-4 md:p-6 bg-card">
+          {!hasOpenChat ? (
              <div className="h-full flex flex-col items-center justify-center text-muted-foreground">
                 <MessageSquare className="h-16 w-16 mb-4 opacity-20" />
                 <p>Select a conversation to start chatting</p>
@@ -726,162 +1384,37 @@ const Chat = () => {
                 <p>No messages yet</p>
              </div>
           ) : (
-             <div className="space-y-6">
-               {groupedMessages.map((group) => (
-                 <div key={group.dateKey} className="space-y-4">
-                   <div className="flex justify-center">
-                     <span className="bg-muted text-muted-foreground text-xs px-3 py-1 rounded-full">{group.label}</span>
-                   </div>
-
-                   {group.items.map((msg) => {
-                     const isOwn = msg.sender_id === user?.id;
-                     return (
-                       <div key={msg.id} className={`flex gap-3 ${isOwn ? 'flex-row-reverse' : 'flex-row'} group`}>
-                          {/* Avatar */}
-                          <Avatar className="h-8 w-8 mt-1 shrink-0">
-                            <AvatarImage src={isOwn ? undefined : selectedUserData?.avatar_url || undefined} />
-                            <AvatarFallback className={isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}>
-                              {isOwn ? getInitials(null, user?.email || '') : getInitials(selectedUserData?.full_name || null, selectedUserData?.email || '')}
-                            </AvatarFallback>
-                          </Avatar>
-
-                          {/* Message Bubble Container */}
-                          <div className={`max-w-[85%] md:max-w-[70%] ${isOwn ? 'items-end' : 'items-start'} flex flex-col`}>
-                             <div className={`relative px-4 py-3 text-sm shadow-sm ${
-                               isOwn 
-                                 ? 'bg-primary text-primary-foreground rounded-[12px] rounded-tr-none' 
-                                 : 'bg-muted text-foreground rounded-[12px] rounded-tl-none'
-                             }`}>
-                               
-                               {/* Attachments */}
-                               {msg.file_url && (
-                                <div className={`${isImageFile(msg.file_type) ? '-mx-4 -mt-3 mb-2' : 'mb-2'}`}>
-                                  {isImageFile(msg.file_type) ? (
-                                    <button
-                                      type="button"
-                                      onClick={() => openImage(msg.file_url!)}
-                                      className={`block w-full overflow-hidden ${isOwn ? 'rounded-t-[12px] rounded-tr-none' : 'rounded-t-[12px] rounded-tl-none'}`}
-                                    >
-                                      <img
-                                        src={msg.file_url}
-                                        alt="attachment"
-                                        className="w-full max-h-[300px] object-cover hover:opacity-95 transition-opacity"
-                                        onContextMenu={(e) => e.preventDefault()}
-                                        draggable={false}
-                                      />
-                                    </button>
-                                  ) : (
-                                    <button
-                                      type="button"
-                                      onClick={() => openFile(msg.file_url!, msg.file_name, msg.file_type)}
-                                      onContextMenu={(e) => e.preventDefault()}
-                                      className={`flex items-center gap-2 p-2 rounded-lg w-full ${
-                                        isOwn ? 'bg-primary-foreground/10' : 'bg-card'
-                                      }`}
-                                    >
-                                      <FileIcon className="h-4 w-4 shrink-0" />
-                                      <span className="truncate text-sm flex-1 text-left">{msg.file_name || 'File'}</span>
-                                      <Download className="h-4 w-4 shrink-0 opacity-60" />
-                                    </button>
-                                  )}
-                                </div>
-                               )}
-
-                               {/* Message Text */}
-                               {msg.message && !msg.message.startsWith('Sent a file:') && (
-                                  <p className="whitespace-pre-wrap leading-relaxed">{msg.message}</p>
-                               )}
-
-                               {/* Actions on Hover */}
-                               <div className={`absolute -top-5 ${isOwn ? 'right-0' : 'left-0'} z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200`}>
-                                  <div className="flex items-center gap-1 bg-card border rounded-full shadow-lg p-1">
-                                    {REACTIONS.map(r => (
-                                      <button 
-                                        key={r} 
-                                        onClick={() => handleReaction(msg.id, r)} 
-                                        className="text-lg p-1 rounded-full hover:scale-125 hover:bg-muted transition-transform"
-                                        aria-label={`React with ${r}`}
-                                      >
-                                        {r}
-                                      </button>
-                                    ))}
-                                    <div className="w-px h-5 bg-border mx-1"></div>
-                                    <DropdownMenu>
-                                      <DropdownMenuTrigger asChild>
-                                        <Button size="icon" variant="ghost" className="h-7 w-7 rounded-full">
-                                          <MoreVertical className="h-4 w-4" />
-                                        </Button>
-                                      </DropdownMenuTrigger>
-                                      <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
-                                        <DropdownMenuItem onClick={() => handleOpenForwardDialog(msg)}>
-                                          <Share2 className="h-3 w-3 mr-2" /> Forward
-                                        </DropdownMenuItem>
-                                        {msg.message && (
-                                          <DropdownMenuItem onClick={() => {
-                                            navigator.clipboard.writeText(msg.message);
-                                            toast({ title: "Copied!" });
-                                          }}>
-                                            <Copy className="h-3 w-3 mr-2" /> Copy Text
-                                          </DropdownMenuItem>
-                                        )}
-                                        
-                                        {isOwn && (
-                                          <>
-                                            <DropdownMenuSeparator />
-                                            <DropdownMenuItem onClick={() => deleteMessage(msg.id)} className="text-destructive">
-                                              <Trash2 className="h-3 w-3 mr-2" /> Delete
-                                            </DropdownMenuItem>
-                                          </>
-                                        )}
-                                      </DropdownMenuContent>
-                                    </DropdownMenu>
-                                  </div>
-                               </div>
-
-                             </div>
-                             
-                             {/* Timestamp */}
-                             <span className="text-[11px] text-muted-foreground mt-1 px-1 flex items-center gap-1">
-                               {format(new Date(msg.created_at), 'hh:mm a')}
-                               {isOwn && (
-                                  <span className="inline-flex">
-                                    {msg.is_read ? <CheckCheck className="h-3 w-3 text-primary" /> : <Check className="h-3 w-3" />}
-                                  </span>
-                               )}
-                             </span>
-
-                             {/* Reactions */}
-                             {msg.reactions && msg.reactions.length > 0 && (
-                               <div className="flex gap-1 mt-1">
-                                 {Array.from(new Set(msg.reactions.map(r => r.reaction))).map(emoji => {
-                                   const userReacted = msg.reactions?.some(r => r.reaction === emoji && r.user_id === user?.id);
-                                   return (
-                                     <Badge
-                                       key={emoji}
-                                       variant="secondary"
-                                       onClick={() => handleReaction(msg.id, emoji)}
-                                       className={`text-[10px] px-1 h-5 bg-card border border-border cursor-pointer select-none transition ${userReacted ? 'ring-1 ring-primary/60' : ''}`}
-                                     >
-                                       {emoji} {msg.reactions?.filter(r => r.reaction === emoji).length}
-                                     </Badge>
-                                   );
-                                 })}
-                               </div>
-                             )}
-                          </div>
+             <div className="relative w-full" style={{ height: messageListVirtualizer.getTotalSize() }}>
+               <div ref={historyStartRef} className="absolute inset-x-0 top-0 h-6 flex justify-center">
+                 {loadingOlder && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+               </div>
+               {messageListVirtualizer.getVirtualItems().map((virtualRow) => {
+                 const row = messageRows[virtualRow.index];
+                 return (
+                   <div
+                     key={virtualRow.key}
+                     data-index={virtualRow.index}
+                     ref={messageListVirtualizer.measureElement}
+                     className={`absolute inset-x-0 top-0 pb-4 ${row.kind === 'day' ? 'pt-2' : ''}`}
+                     style={{ transform: `translateY(${virtualRow.start}px)` }}
+                   >
+                     {row.kind === 'day' ? (
+                       <div className="flex justify-center">
+                         <span className="bg-muted text-muted-foreground text-xs px-3 py-1 rounded-full">{row.label}</span>
                        </div>
-                     );
-                   })}
-                 </div>
-               ))}
-               <div ref={messagesEndRef} />
+                     ) : (
+                       renderMessage(row.msg)
+                     )}
+                   </div>
+                 );
+               })}
              </div>
           )}
         </ScrollArea>
 
         {/* Input Area */}
         <div className="p-4 md:p-6 bg-card border-t border-border">
-           {selectedUser && !isUserBlocked ? (
+           {hasOpenChat && !isUserBlocked ? (
             <div className="flex items-end gap-2 md:gap-3">
               {/* Attach Button */}
               <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelect} />
@@ -964,120 +1497,169 @@ const Chat = () => {
       {/* RIGHT SIDEBAR - Media/Links/Docs */}
       <div className={`${mobileView === 'info' ? 'flex' : 'hidden'} xl:flex flex-col absolute xl:relative w-full xl:w-[320px] h-full bg-card border-l border-border shrink-0 z-20`}>
         
-        <div className="xl:hidden p-4 border-b border-border flex items-center gap-2">
-          <Button variant="ghost" size="icon" onClick={() => setMobileView('chat')}>
-            <ArrowLeft className="h-5 w-5" />
-          </Button>
-          <h3 className="text-lg font-semibold">Contact Info</h3>
-        </div>
+        {activeThreadRoot ? (
+          <ChatThreadPanel
+            root={activeThreadRoot}
+            replies={getThreadReplies(messages, activeThreadRoot.id)}
+            getAuthor={getMessageAuthor}
+            onSend={(text) => sendMessage(text, undefined, undefined, activeThreadRoot.id)}
+            onClose={() => {
+              setActiveThreadId(null);
+              setMobileView('chat');
+            }}
+            onOpenImage={openImage}
+            onOpenFile={openFile}
+            sending={uploading}
+          />
+        ) : (
+          <>
+            <div className="xl:hidden p-4 border-b border-border flex items-center gap-2">
+              <Button variant="ghost" size="icon" onClick={() => setMobileView('chat')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <h3 className="text-lg font-semibold">Contact Info</h3>
+            </div>
 
-        <Tabs value={rightSidebarTab} onValueChange={(v) => setRightSidebarTab(v as 'media' | 'links' | 'docs')} className="flex flex-col h-full">
-          <TabsList className="w-full rounded-none border-b border-border bg-transparent h-auto p-0">
-            <TabsTrigger 
-              value="media" 
-              className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
-            >
-              Media
-            </TabsTrigger>
-            <TabsTrigger 
-              value="links" 
-              className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
-            >
-              Links
-            </TabsTrigger>
-            <TabsTrigger 
-              value="docs" 
-              className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
-            >
-              Docs
-            </TabsTrigger>
-          </TabsList>
-
-          <ScrollArea className="flex-1">
-            <TabsContent value="media" className="m-0 p-4">
-              <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-4">Shared Media</h3>
-              {sharedContent.media.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">
-                  <ImageIcon className="h-12 w-12 mx-auto mb-2 opacity-30" />
-                  <p className="text-sm">No shared media yet</p>
-                </div>
-              ) : (
-                <div className="grid grid-cols-3 gap-2">
-                  {sharedContent.media.map((item, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => openImage(item.url)}
-                      className="aspect-square rounded-lg overflow-hidden bg-muted hover:opacity-80 transition-opacity p-0.5"
-                    >
-                      <img src={item.url} alt={item.name} className="w-full h-full object-cover" onContextMenu={(e) => e.preventDefault()} draggable={false} />
-                    </button>
-                  ))}
-                </div>
-              )}
-            </TabsContent>
-
-            <TabsContent value="links" className="m-0 p-4">
-              <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-4">Shared Links</h3>
-              {sharedContent.links.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">
-                  <LinkIcon className="h-12 w-12 mx-auto mb-2 opacity-30" />
-                  <p className="text-sm">No shared links yet</p>
-                </div>
-              ) : (
-                <div className="space-y-3">
-                  {sharedContent.links.map((item, idx) => (
-                    <a
-                      key={idx}
-                      href={item.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-start gap-3 p-3 rounded-lg bg-muted hover:bg-muted/80 transition-colors"
-                    >
-                      <ExternalLink className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
-                      <div className="min-w-0 flex-1">
-                        <p className="text-sm text-foreground truncate">{item.url}</p>
-                        <p className="text-xs text-muted-foreground">{format(new Date(item.date), 'MMM d, yyyy')}</p>
-                      </div>
-                    </a>
-                  ))}
-                </div>
-              )}
-            </TabsContent>
+            <Tabs value={rightSidebarTab} onValueChange={(v) => setRightSidebarTab(v as 'media' | 'links' | 'docs')} className="flex flex-col h-full">
+              <TabsList className="w-full rounded-none border-b border-border bg-transparent h-auto p-0">
+                <TabsTrigger 
+                  value="media" 
+                  className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
+                >
+                  Media
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="links" 
+                  className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
+                >
+                  Links
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="docs" 
+                  className="flex-1 py-4 text-sm font-medium rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:text-primary"
+                >
+                  Docs
+                </TabsTrigger>
+              </TabsList>
+
+              <ScrollArea className="flex-1">
+                <TabsContent value="media" className="m-0 p-4">
+                  <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-4">Shared Media</h3>
+                  {sharedContent.media.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <ImageIcon className="h-12 w-12 mx-auto mb-2 opacity-30" />
+                      <p className="text-sm">No shared media yet</p>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      {sharedContent.media.map((item, idx) => (
+                        <button
+                          key={idx}
+                          onClick={() => openImage(item.url)}
+                          className="aspect-square rounded-lg overflow-hidden bg-muted hover:opacity-80 transition-opacity p-0.5"
+                        >
+                          <img src={item.url} alt={item.name} className="w-full h-full object-cover" onContextMenu={(e) => e.preventDefault()} draggable={false} />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="links" className="m-0 p-4">
+                  <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-4">Shared Links</h3>
+                  {sharedContent.links.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <LinkIcon className="h-12 w-12 mx-auto mb-2 opacity-30" />
+                      <p className="text-sm">No shared links yet</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {sharedContent.links.map((item, idx) => (
+                        <a
+                          key={idx}
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-start gap-3 p-3 rounded-lg bg-muted hover:bg-muted/80 transition-colors"
+                        >
+                          <ExternalLink className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm text-foreground truncate">{item.url}</p>
+                            <p className="text-xs text-muted-foreground">{format(new Date(item.date), 'MMM d, yyyy')}</p>
+                          </div>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
 
-            <TabsContent value="docs" className="m-0">
-              <div className="p-4 border-b border-border">
-                <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Shared Documents</h3>
-              </div>
-              {sharedContent.docs.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">
-                  <FileText className="h-12 w-12 mx-auto mb-2 opacity-30" />
-                  <p className="text-sm">No shared documents yet</p>
-                </div>
-              ) : (
-                <div className="space-y-0">
-                  {sharedContent.docs.map((item, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => openFile(item.url, item.name, item.type)}
-                      className="w-full group flex items-center gap-3 p-3 hover:bg-muted transition-colors text-left border-b border-border"
-                    >
-                      <FileIcon className="h-5 w-5 shrink-0 text-primary" />
-                      <div className="min-w-0 flex-1">
-                        <p className="text-sm font-medium text-foreground break-words">{item.name}</p>
-                        <p className="text-xs text-muted-foreground mt-1">{format(new Date(item.date), 'MMM d, yyyy')}</p>
-                      </div>
-                      <Download className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
-                    </button>
-                  ))}
-                </div>
-              )}
-            </TabsContent>
-          </ScrollArea>
-        </Tabs>
+                <TabsContent value="docs" className="m-0">
+                  <div className="p-4 border-b border-border">
+                    <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Shared Documents</h3>
+                  </div>
+                  {sharedContent.docs.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <FileText className="h-12 w-12 mx-auto mb-2 opacity-30" />
+                      <p className="text-sm">No shared documents yet</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-0">
+                      {sharedContent.docs.map((item, idx) => (
+                        <button
+                          key={idx}
+                          onClick={() => openFile(item.url, item.name, item.type)}
+                          className="w-full group flex items-center gap-3 p-3 hover:bg-muted transition-colors text-left border-b border-border"
+                        >
+                          <FileIcon className="h-5 w-5 shrink-0 text-primary" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-medium text-foreground break-words">{item.name}</p>
+                            <p className="text-xs text-muted-foreground mt-1">{format(new Date(item.date), 'MMM d, yyyy')}</p>
+                          </div>
+                          <Download className="h-4 w-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+              </ScrollArea>
+            </Tabs>
+          </>
+        )}
       </div>
 
 
       {/* Dialogs */}
+      <NewConversationDialog
+        open={showNewConversation}
+        onOpenChange={setShowNewConversation}
+        users={chatUsers}
+        onCreate={async (conversation) => {
+          const id = await createConversation(conversation);
+          if (id) setMobileView('chat');
+          return id;
+        }}
+      />
+
+      <MessageHistoryDialog
+        open={!!historyMessageId}
+        onOpenChange={(open) => !open && setHistoryMessageId(null)}
+        message={messages.find(m => m.id === historyMessageId) || null}
+      />
+
+      {selectedConversationData && (
+        <ConversationMembersDialog
+          open={showMembersDialog}
+          onOpenChange={setShowMembersDialog}
+          conversation={selectedConversationData}
+          members={conversationMembers}
+          users={chatUsers}
+          currentUserId={user?.id}
+          onAddMember={(userId) => addConversationMembers(selectedConversationData.id, [userId])}
+          onRemoveMember={(userId) => removeConversationMember(selectedConversationData.id, userId)}
+          onSetRole={(userId, role) => setConversationMemberRole(selectedConversationData.id, userId, role)}
+        />
+      )}
+
       <ImagePreviewModal
         isOpen={showImageModal}
         onClose={() => setShowImageModal(false)}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
 import { useUserRole } from '@/hooks/useUserRole';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -8,15 +9,55 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Loader2, Plus, Trash2, Edit2, Search, Filter, User, Users, UserPlus, List, Lock, MessageSquare } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Plus, Trash2, Edit2, Search, Filter, User, Users, UserPlus, List, Lock, MessageSquare, Repeat, Ban, LayoutGrid, Columns3, Tags, Bookmark, Link2, Gauge } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkflowStatuses } from '@/hooks/useWorkflowStatuses';
+import { useLabels } from '@/hooks/useLabels';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useNotifications } from '@/hooks/useNotifications';
 import { TaskDialog } from '@/components/TaskDialog';
 import { TaskAssignmentDialog } from '@/components/TaskAssignmentDialog';
 import { UserListView } from '@/components/UserListView';
+import { PooledTasksCard } from '@/components/PooledTasksCard';
+import { ParticipantAvatars } from '@/components/ParticipantAvatars';
+import { BulkTaskActionBar } from '@/components/BulkTaskActionBar';
 import { UserPerformanceView } from '@/components/UserPerformanceView';
+import { UserKanbanBoard } from '@/components/UserKanbanBoard';
+import { WorkflowColumnsDialog } from '@/components/WorkflowColumnsDialog';
+import { LabelManagerDialog } from '@/components/LabelManagerDialog';
+import { LabelBadge } from '@/components/LabelPicker';
 import { ClockCalendarWidget } from '@/components/ClockCalendarWidget';
 import { ChatSection } from '@/components/ChatSection';
 import { AppLayout } from '@/components/AppLayout';
+import { SubtaskProgressBar } from '@/components/SubtaskChecklist';
+import { describeRecurrence } from '@/lib/recurrence';
+import { addDays } from 'date-fns';
+import { getStatusBadgeVariant, getStatusLabel } from '@/lib/workflow';
+import { getTaskLabels, Label, TaskLabelLink } from '@/lib/labels';
+import { formatEstimate } from '@/lib/estimates';
+import { isAssignedTo, TaskParticipantLink } from '@/lib/taskParticipants';
+import {
+  AdminScope,
+  DashboardFilters,
+  dashboardFiltersToParams,
+  DEFAULT_DASHBOARD_FILTERS,
+  DueFilter,
+  GroupBy,
+  matchesDueFilter,
+  parseDashboardFilters,
+  SortOrder,
+  ViewMode,
+} from '@/lib/dashboardFilters';
+import {
+  canMoveToStatus,
+  describeBlockers,
+  getTaskBlockers,
+  isBlockedTaskError,
+  isTaskBlocked,
+  TaskDependencyLink,
+} from '@/lib/taskDependencies';
 
 interface Task {
   id: string;
@@ -27,10 +68,33 @@ interface Task {
   created_at: string;
   user_id: string;
   is_private?: boolean;
+  deadline?: string | null;
+  recurrence_id?: string | null;
+  board_position?: number;
+  estimate_hours?: number | null;
+  story_points?: number | null;
+  pool_group_id?: string | null;
+  project_id?: string | null;
   profiles?: {
     full_name: string | null;
     email: string;
+    avatar_url?: string | null;
   };
+  task_subtasks?: {
+    id: string;
+    title: string;
+    is_completed: boolean;
+    position: number;
+  }[];
+  task_recurrences?: {
+    rule: string;
+    is_active: boolean;
+  } | null;
+  task_dependencies?: TaskDependencyLink[];
+  // Tasks this one blocks, kept so an undone delete can reconnect them
+  dependents?: { task_id: string }[];
+  task_labels?: TaskLabelLink[];
+  task_participants?: TaskParticipantLink[];
 }
 
 interface SelectedUser {
@@ -45,26 +109,101 @@ const Dashboard = () => {
   const { user } = useAuth();
   const { role, isAdmin, isLoading: roleLoading } = useUserRole();
   const { toast } = useToast();
+  const { statuses } = useWorkflowStatuses();
+  const { labels, refetch: refetchLabels } = useLabels();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
+  const [pooledTasks, setPooledTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [adminViewMode, setAdminViewMode] = useState<'self' | 'all'>('all');
   const [showUserList, setShowUserList] = useState(false);
   const [selectedUser, setSelectedUser] = useState<SelectedUser | null>(null);
   const [showChat, setShowChat] = useState(false);
+  const [columnsDialogOpen, setColumnsDialogOpen] = useState(false);
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const { createNotification } = useNotifications();
+  const { currentProjectId, currentProject, isLoading: projectsLoading } = useProject();
+  const { saveView } = useSavedViews();
   
-  // Filter states
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [priorityFilter, setPriorityFilter] = useState<string>('all');
-  const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  // Filter states are kept in the URL so they survive reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseDashboardFilters(searchParams);
+  const {
+    search: searchQuery,
+    status: statusFilter,
+    priority: priorityFilter,
+    label: labelFilter,
+    due: dueFilter,
+    group: groupBy,
+    sort: sortOrder,
+    view: viewMode,
+    scope: adminViewMode,
+  } = filters;
+
+  // Replace rather than push so typing a search doesn't flood the history
+  const updateFilters = (changes: Partial<DashboardFilters>) => {
+    setSearchParams(dashboardFiltersToParams({ ...filters, ...changes }), { replace: true });
+  };
+  const setSearchQuery = (search: string) => updateFilters({ search });
+  const setStatusFilter = (status: string) => updateFilters({ status });
+  const setPriorityFilter = (priority: string) => updateFilters({ priority });
+  const setLabelFilter = (label: string) => updateFilters({ label });
+  const setDueFilter = (due: DueFilter) => updateFilters({ due });
+  const setGroupBy = (group: GroupBy) => updateFilters({ group });
+  const setSortOrder = (sort: SortOrder) => updateFilters({ sort });
+  const setViewMode = (view: ViewMode) => updateFilters({ view });
+  const setAdminViewMode = (scope: AdminScope) => updateFilters({ scope });
+  const clearFilters = () => updateFilters({
+    search: DEFAULT_DASHBOARD_FILTERS.search,
+    status: DEFAULT_DASHBOARD_FILTERS.status,
+    priority: DEFAULT_DASHBOARD_FILTERS.priority,
+    label: DEFAULT_DASHBOARD_FILTERS.label,
+    due: DEFAULT_DASHBOARD_FILTERS.due,
+  });
+
+  const handleSaveView = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+
+    const saved = await saveView(name, searchParams.toString());
+    if (saved) {
+      toast({
+        title: 'View saved',
+        description: `"${name}" is now available from the Views menu`,
+      });
+      setViewName('');
+      setSaveViewOpen(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to save view',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: 'Link copied',
+        description: 'Anyone with access will see the same filters',
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
 
   useEffect(() => {
+    if (projectsLoading) return;
     fetchTasks();
-  }, []);
+  }, [currentProjectId, projectsLoading]);
 
   // Apply filters whenever tasks or filter criteria change
   useEffect(() => {
@@ -72,7 +211,7 @@ const Dashboard = () => {
 
     // For admins, allow toggling between their own tasks and all users' tasks
     if (isAdmin && adminViewMode === 'self' && user) {
-      result = result.filter(task => task.user_id === user.id);
+      result = result.filter(task => isAssignedTo(task, user.id));
     }
 
     // Search filter
@@ -93,6 +232,16 @@ const Dashboard = () => {
       result = result.filter(task => task.priority === priorityFilter);
     }
 
+    // Label filter
+    if (labelFilter !== 'all') {
+      result = result.filter(task => task.task_labels?.some(l => l.labels?.id === labelFilter));
+    }
+
+    // Deadline filter
+    if (dueFilter !== 'all') {
+      result = result.filter(task => matchesDueFilter(task, dueFilter));
+    }
+
     // Sort order
     result.sort((a, b) => {
       const dateA = new Date(a.created_at).getTime();
@@ -101,23 +250,69 @@ const Dashboard = () => {
     });
 
     setFilteredTasks(result);
-  }, [tasks, searchQuery, statusFilter, priorityFilter, sortOrder, isAdmin, adminViewMode, user]);
+  }, [tasks, searchQuery, statusFilter, priorityFilter, labelFilter, dueFilter, sortOrder, isAdmin, adminViewMode, user]);
 
   const fetchTasks = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('tasks')
         .select(`
           *,
           profiles!tasks_user_id_fkey (
             full_name,
-            email
+            email,
+            avatar_url
+          ),
+          task_subtasks (
+            id,
+            title,
+            is_completed,
+            position
+          ),
+          task_recurrences (
+            rule,
+            is_active
+          ),
+          task_labels (
+            labels (
+              id,
+              name,
+              color,
+              is_managed
+            )
+          ),
+          task_participants (
+            user_id,
+            role,
+            profiles (
+              full_name,
+              email,
+              avatar_url
+            )
+          ),
+          task_dependencies!task_dependencies_task_id_fkey (
+            depends_on:tasks!task_dependencies_depends_on_id_fkey (
+              id,
+              title,
+              status
+            )
+          ),
+          dependents:task_dependencies!task_dependencies_depends_on_id_fkey (
+            task_id
           )
         `)
         .order('created_at', { ascending: false });
 
+      if (currentProjectId) {
+        query = query.eq('project_id', currentProjectId);
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
-      setTasks(data || []);
+      // Unclaimed pool tasks are listed separately until a group member claims them
+      setTasks((data || []).filter(t => !t.pool_group_id));
+      setPooledTasks((data || []).filter(t => t.pool_group_id));
     } catch (error) {
       console.error('Error fetching tasks:', error);
       toast({
@@ -130,6 +325,44 @@ const Dashboard = () => {
     }
   };
 
+  // Puts deleted tasks back as they were, together with their subtasks, labels, dependencies
+  // and participants, in one transaction
+  const restoreTasks = async (deletedTasks: Task[]) => {
+    const { error } = await supabase.rpc('restore_tasks', {
+      _tasks: deletedTasks.map(t => ({
+        id: t.id,
+        subtasks: t.task_subtasks || [],
+        label_ids: getTaskLabels(t.task_labels).map(l => l.id),
+        blocker_ids: getTaskBlockers(t.task_dependencies).map(b => b.id),
+        dependent_ids: (t.dependents || []).map(d => d.task_id),
+        participants: (t.task_participants || []).map(p => ({ user_id: p.user_id, role: p.role })),
+      })),
+    });
+
+    if (error) throw error;
+  };
+
+  const handleUndoDelete = async (deletedTasks: Task[]) => {
+    const single = deletedTasks.length === 1;
+    try {
+      await restoreTasks(deletedTasks);
+      toast({
+        title: single ? 'Task restored' : 'Tasks restored',
+        description: single
+          ? 'Task has been restored successfully'
+          : `${deletedTasks.length} tasks have been restored successfully`,
+      });
+      fetchTasks();
+    } catch (error) {
+      console.error('Error restoring tasks:', error);
+      toast({
+        title: 'Error',
+        description: single ? 'Failed to restore task' : 'Failed to restore tasks',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDelete = async (taskId: string) => {
     const taskToDelete = tasks.find(t => t.id === taskId);
     
@@ -149,36 +382,8 @@ const Dashboard = () => {
           <Button
             size="sm"
             variant="outline"
-            onClick={async () => {
-              if (taskToDelete) {
-                try {
-                  const { error: restoreError } = await supabase
-                    .from('tasks')
-                    .insert({
-                      id: taskToDelete.id,
-                      title: taskToDelete.title,
-                      description: taskToDelete.description,
-                      status: taskToDelete.status,
-                      priority: taskToDelete.priority,
-                      user_id: taskToDelete.user_id,
-                    });
-
-                  if (restoreError) throw restoreError;
-
-                  toast({
-                    title: 'Task restored',
-                    description: 'Task has been restored successfully',
-                  });
-                  fetchTasks();
-                } catch (error) {
-                  console.error('Error restoring task:', error);
-                  toast({
-                    title: 'Error',
-                    description: 'Failed to restore task',
-                    variant: 'destructive',
-                  });
-                }
-              }
+            onClick={() => {
+              if (taskToDelete) handleUndoDelete([taskToDelete]);
             }}
           >
             Undo
@@ -208,21 +413,44 @@ const Dashboard = () => {
 
   const handleTaskSaved = () => {
     fetchTasks();
+    refetchLabels(); // the dialog may have created new free tags
     handleDialogClose();
   };
 
   const handleStatusChange = async (taskId: string, newStatus: string) => {
+    const blockers = getTaskBlockers(tasks.find(t => t.id === taskId)?.task_dependencies);
+    if (!canMoveToStatus(newStatus, blockers)) {
+      toast({
+        title: 'Task is blocked',
+        description: describeBlockers(blockers),
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('tasks')
         .update({ status: newStatus })
         .eq('id', taskId);
 
-      if (error) throw error;
+      if (error) {
+        // Another user may have reopened a blocker since the list was loaded
+        if (isBlockedTaskError(error)) {
+          toast({
+            title: 'Task is blocked',
+            description: 'Complete its dependencies before starting it',
+            variant: 'destructive',
+          });
+          fetchTasks();
+          return;
+        }
+        throw error;
+      }
 
       toast({
         title: 'Status updated',
-        description: `Task status changed to ${newStatus}`,
+        description: `Task status changed to ${getStatusLabel(statuses, newStatus)}`,
       });
       fetchTasks();
     } catch (error) {
@@ -235,6 +463,241 @@ const Dashboard = () => {
     }
   };
 
+  // Dropping a card on the board: change its column if needed and store the new order of that column
+  const handleMoveTask = async (taskId: string, newStatus: string, orderedTaskIds: string[]) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const positions = new Map(orderedTaskIds.map((id, index) => [id, index]));
+
+    // Move the card right away so the board doesn't jump back while saving
+    setTasks(prev => prev.map(t =>
+      positions.has(t.id)
+        ? { ...t, status: t.id === taskId ? newStatus : t.status, board_position: positions.get(t.id) }
+        : t
+    ));
+
+    try {
+      // Renumbers the whole column, including cards hidden by the current filters
+      const { error } = await supabase.rpc('move_task_on_board', {
+        _task_id: taskId,
+        _status: newStatus,
+        _ordered_ids: orderedTaskIds,
+      });
+
+      if (error) throw error;
+
+      if (task.status !== newStatus) {
+        toast({
+          title: 'Status updated',
+          description: `Task moved to ${getStatusLabel(statuses, newStatus)}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error moving task:', error);
+      toast({
+        title: 'Error',
+        description: isBlockedTaskError(error as { message?: string })
+          ? 'Complete its dependencies before starting it'
+          : 'Failed to move task',
+        variant: 'destructive',
+      });
+    } finally {
+      fetchTasks();
+    }
+  };
+
+  // Bulk operations, available to admins looking at everyone's tasks.
+  // Only tasks that are still visible under the current filters are affected.
+  const isBulkMode = isAdmin && adminViewMode === 'all' && viewMode === 'cards' && !selectedUser && !showUserList;
+  const selectedTasks = isBulkMode ? filteredTasks.filter(t => selectedTaskIds.includes(t.id)) : [];
+  const pluralize = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+  const toggleTaskSelection = (taskId: string) => {
+    setSelectedTaskIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedTaskIds(selected ? filteredTasks.map(t => t.id) : []);
+  };
+
+  const runBulkUpdate = async (
+    taskIds: string[],
+    changes: { status?: string; priority?: string; user_id?: string },
+    description: string
+  ) => {
+    setIsBulkWorking(true);
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update(changes)
+        .in('id', taskIds);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Tasks updated',
+        description,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating tasks:', error);
+      toast({
+        title: 'Error',
+        description: isBlockedTaskError(error as { message?: string })
+          ? 'Some tasks are blocked by incomplete dependencies'
+          : 'Failed to update tasks',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsBulkWorking(false);
+      fetchTasks();
+    }
+  };
+
+  const handleBulkStatusChange = async (newStatus: string) => {
+    const blocked = selectedTasks.filter(t => !canMoveToStatus(newStatus, getTaskBlockers(t.task_dependencies)));
+    const movable = selectedTasks.filter(t => !blocked.includes(t) && t.status !== newStatus);
+    const label = getStatusLabel(statuses, newStatus);
+
+    if (movable.length === 0) {
+      toast({
+        title: blocked.length ? 'Tasks are blocked' : 'Nothing to update',
+        description: blocked.length
+          ? `${pluralize(blocked.length)} cannot leave Pending until their dependencies are completed`
+          : `All selected tasks are already ${label}`,
+        variant: blocked.length ? 'destructive' : 'default',
+      });
+      return;
+    }
+
+    await runBulkUpdate(
+      movable.map(t => t.id),
+      { status: newStatus },
+      `${pluralize(movable.length)} moved to ${label}` +
+        (blocked.length ? `. Skipped ${pluralize(blocked.length)} blocked by dependencies.` : '')
+    );
+  };
+
+  const handleBulkPriorityChange = async (priority: string) => {
+    await runBulkUpdate(
+      selectedTasks.map(t => t.id),
+      { priority },
+      `${pluralize(selectedTasks.length)} set to ${priority} priority`
+    );
+  };
+
+  const handleBulkReassign = async (userId: string) => {
+    const toReassign = selectedTasks.filter(t => t.user_id !== userId);
+    if (toReassign.length === 0) {
+      toast({
+        title: 'Nothing to update',
+        description: 'All selected tasks are already assigned to this user',
+      });
+      return;
+    }
+
+    const updated = await runBulkUpdate(
+      toReassign.map(t => t.id),
+      { user_id: userId },
+      `${pluralize(toReassign.length)} reassigned`
+    );
+
+    if (updated && userId !== user?.id) {
+      await createNotification(
+        userId,
+        'Tasks Assigned',
+        toReassign.length === 1
+          ? `You have been assigned a task: "${toReassign[0].title}"`
+          : `You have been assigned ${toReassign.length} tasks`,
+        'task_assigned',
+        toReassign.length === 1 ? toReassign[0].id : undefined
+      );
+    }
+  };
+
+  const handleBulkShiftDeadline = async (days: number) => {
+    const withDeadline = selectedTasks.filter(t => t.deadline);
+    if (withDeadline.length === 0) {
+      toast({
+        title: 'Nothing to update',
+        description: 'None of the selected tasks have a deadline',
+      });
+      return;
+    }
+
+    setIsBulkWorking(true);
+    try {
+      // Each task keeps its own deadline, so they have to be updated one by one
+      const results = await Promise.all(
+        withDeadline.map(t =>
+          supabase
+            .from('tasks')
+            .update({ deadline: addDays(new Date(t.deadline as string), days).toISOString() })
+            .eq('id', t.id)
+        )
+      );
+      const failed = results.find(r => r.error);
+      if (failed?.error) throw failed.error;
+
+      toast({
+        title: 'Deadlines shifted',
+        description: `${pluralize(withDeadline.length)} moved ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days > 0 ? 'later' : 'earlier'}`,
+      });
+    } catch (error) {
+      console.error('Error shifting deadlines:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to shift deadlines',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBulkWorking(false);
+      fetchTasks();
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const tasksToDelete = selectedTasks;
+    if (tasksToDelete.length === 0) return;
+
+    setIsBulkWorking(true);
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .delete()
+        .in('id', tasksToDelete.map(t => t.id));
+
+      if (error) throw error;
+
+      setSelectedTaskIds([]);
+      toast({
+        title: 'Tasks deleted',
+        description: `${pluralize(tasksToDelete.length)} deleted`,
+        action: (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleUndoDelete(tasksToDelete)}
+          >
+            Undo
+          </Button>
+        ),
+      });
+    } catch (error) {
+      console.error('Error deleting tasks:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete tasks',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBulkWorking(false);
+      fetchTasks();
+    }
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high':
@@ -248,19 +711,6 @@ const Dashboard = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'success';
-      case 'in-progress':
-        return 'warning';
-      case 'pending':
-        return 'secondary';
-      default:
-        return 'secondary';
-    }
-  };
-
   if (roleLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -282,6 +732,140 @@ const Dashboard = () => {
       }, {} as Record<string, SelectedUser>))
     : [];
 
+  // Tasks with several labels show up in each of their groups
+  const labelGroups = groupBy === 'label'
+    ? [
+        ...labels
+          .map(label => ({
+            label: label as Label | null,
+            tasks: filteredTasks.filter(t => t.task_labels?.some(l => l.labels?.id === label.id)),
+          }))
+          .filter(group => group.tasks.length > 0),
+        { label: null, tasks: filteredTasks.filter(t => getTaskLabels(t.task_labels).length === 0) },
+      ].filter(group => group.tasks.length > 0)
+    : [];
+
+  const renderTaskCard = (task: Task) => (
+    <Card
+      key={task.id}
+      className={`hover:shadow-lg transition-shadow ${selectedTaskIds.includes(task.id) && isBulkMode ? 'ring-2 ring-primary' : ''}`}
+    >
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex items-start gap-3">
+            {isBulkMode && (
+              <Checkbox
+                checked={selectedTaskIds.includes(task.id)}
+                onCheckedChange={() => toggleTaskSelection(task.id)}
+                className="mt-1"
+                aria-label={`Select ${task.title}`}
+              />
+            )}
+            <CardTitle className="text-lg">{task.title}</CardTitle>
+          </div>
+          <div className="flex gap-2">
+            {(isAdmin || isAssignedTo(task, user?.id)) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleEdit(task)}
+              >
+                <Edit2 className="h-4 w-4" />
+              </Button>
+            )}
+            {(isAdmin || task.user_id === user?.id) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(task.id)}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {(isAdmin || isAssignedTo(task, user?.id)) ? (
+            <Select
+              value={task.status}
+              onValueChange={(value) => handleStatusChange(task.id, value)}
+            >
+              <SelectTrigger className="h-7 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map(status => (
+                  <SelectItem
+                    key={status.key}
+                    value={status.key}
+                    disabled={status.key !== 'pending' && isTaskBlocked(getTaskBlockers(task.task_dependencies))}
+                  >
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Badge variant={getStatusBadgeVariant(task.status)}>
+              {getStatusLabel(statuses, task.status)}
+            </Badge>
+          )}
+          <Badge variant={getPriorityColor(task.priority)} className="capitalize">
+            {task.priority}
+          </Badge>
+          {formatEstimate(task) && (
+            <Badge variant="outline" className="gap-1">
+              <Gauge className="h-3 w-3" />
+              {formatEstimate(task)}
+            </Badge>
+          )}
+          {isTaskBlocked(getTaskBlockers(task.task_dependencies)) && (
+            <Badge variant="outline" className="gap-1 border-destructive text-destructive">
+              <Ban className="h-3 w-3" />
+              Blocked
+            </Badge>
+          )}
+          {task.task_recurrences?.is_active && (
+            <Badge variant="outline" className="gap-1">
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(task.task_recurrences.rule)}
+            </Badge>
+          )}
+          {isAdmin && task.profiles && (
+            <Badge variant="secondary" className="gap-1">
+              <User className="h-3 w-3" />
+              {task.profiles.full_name || task.profiles.email}
+            </Badge>
+          )}
+        </div>
+        {getTaskLabels(task.task_labels).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {getTaskLabels(task.task_labels).map(label => (
+              <LabelBadge key={label.id} label={label} />
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <CardDescription className="line-clamp-3">
+          {task.description || 'No description'}
+        </CardDescription>
+        <SubtaskProgressBar subtasks={task.task_subtasks} className="mt-4" />
+        {isTaskBlocked(getTaskBlockers(task.task_dependencies)) && (
+          <p className="text-xs text-destructive mt-3">
+            {describeBlockers(getTaskBlockers(task.task_dependencies))}
+          </p>
+        )}
+        <div className="flex items-center justify-between gap-2 mt-4">
+          <p className="text-xs text-muted-foreground">
+            Created {new Date(task.created_at).toLocaleDateString()}
+          </p>
+          <ParticipantAvatars task={task} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <AppLayout>
       <div className="container mx-auto px-4 py-8">
@@ -297,10 +881,31 @@ const Dashboard = () => {
               {isAdmin ? 'All Users Tasks' : 'Your Tasks'}
             </h2>
             <p className="text-muted-foreground">
-              {isAdmin ? 'Manage tasks for all users across the system' : 'Manage your personal tasks'}
+              {currentProject
+                ? `Tasks in ${currentProject.name}`
+                : isAdmin ? 'Manage tasks for all users across the system' : 'Manage your personal tasks'}
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {!selectedUser && !showUserList && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setViewMode(viewMode === 'cards' ? 'board' : 'cards')}
+              >
+                {viewMode === 'cards' ? (
+                  <Columns3 className="mr-2 h-4 w-4" />
+                ) : (
+                  <LayoutGrid className="mr-2 h-4 w-4" />
+                )}
+                {viewMode === 'cards' ? 'Board' : 'Cards'}
+              </Button>
+            )}
+            {isAdmin && viewMode === 'board' && !selectedUser && !showUserList && (
+              <Button variant="outline" size="sm" onClick={() => setColumnsDialogOpen(true)}>
+                Edit Columns
+              </Button>
+            )}
             {isAdmin && (
               <Button
                 variant={showUserList ? 'default' : 'outline'}
@@ -331,6 +936,10 @@ const Dashboard = () => {
           </div>
         </div>
 
+        {!selectedUser && !showUserList && (
+          <PooledTasksCard tasks={pooledTasks} onClaimed={fetchTasks} />
+        )}
+
         {/* Filters Section - Only show when not in user detail view */}
         {!selectedUser && (
           <Card className="mb-6">
@@ -338,6 +947,55 @@ const Dashboard = () => {
               <div className="flex items-center gap-2">
                 <Filter className="h-5 w-5 text-primary" />
                 <CardTitle className="text-lg">Filters & Sort</CardTitle>
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-muted-foreground"
+                    onClick={() => setLabelsDialogOpen(true)}
+                  >
+                    <Tags className="mr-1 h-3 w-3" />
+                    Manage labels
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" className="h-8" onClick={handleCopyLink}>
+                  <Link2 className="mr-1 h-4 w-4" />
+                  Copy link
+                </Button>
+                <Popover open={saveViewOpen} onOpenChange={setSaveViewOpen}>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-8">
+                      <Bookmark className="mr-1 h-4 w-4" />
+                      Save view
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72" align="end">
+                    <form
+                      className="space-y-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleSaveView();
+                      }}
+                    >
+                      <label className="text-sm font-medium">View name</label>
+                      <Input
+                        placeholder="e.g. My overdue high priority"
+                        value={viewName}
+                        onChange={(e) => setViewName(e.target.value)}
+                        maxLength={60}
+                        autoFocus
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Saves the current filters, sorting and layout. Using an existing name updates that view.
+                      </p>
+                      <Button type="submit" size="sm" className="w-full" disabled={!viewName.trim()}>
+                        Save
+                      </Button>
+                    </form>
+                  </PopoverContent>
+                </Popover>
               </div>
               {isAdmin && (
                 <div className="inline-flex rounded-md border border-border bg-card/80 p-1 text-xs sm:text-sm">
@@ -373,7 +1031,7 @@ const Dashboard = () => {
                 />
               </div>
               
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-6 gap-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Status</label>
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -382,9 +1040,11 @@ const Dashboard = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
+                      {statuses.map(status => (
+                        <SelectItem key={status.key} value={status.key}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -404,9 +1064,57 @@ const Dashboard = () => {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Deadline</label>
+                  <Select value={dueFilter} onValueChange={(value) => setDueFilter(value as DueFilter)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any Deadline</SelectItem>
+                      <SelectItem value="overdue">Overdue</SelectItem>
+                      <SelectItem value="week">Due This Week</SelectItem>
+                      <SelectItem value="none">No Deadline</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Label</label>
+                  <Select value={labelFilter} onValueChange={setLabelFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Labels</SelectItem>
+                      {labels.map(label => (
+                        <SelectItem key={label.id} value={label.id}>
+                          <span className="flex items-center gap-2">
+                            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: label.color }} />
+                            {label.name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Group By</label>
+                  <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No Grouping</SelectItem>
+                      <SelectItem value="label">Label</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Sort By</label>
-                  <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as 'newest' | 'oldest')}>
+                  <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -421,6 +1129,21 @@ const Dashboard = () => {
           </Card>
         )}
 
+        {isBulkMode && !isLoading && filteredTasks.length > 0 && (
+          <BulkTaskActionBar
+            selectedCount={selectedTasks.length}
+            totalCount={filteredTasks.length}
+            statuses={statuses}
+            isWorking={isBulkWorking}
+            onSelectAll={handleSelectAll}
+            onStatusChange={handleBulkStatusChange}
+            onPriorityChange={handleBulkPriorityChange}
+            onReassign={handleBulkReassign}
+            onShiftDeadline={handleBulkShiftDeadline}
+            onDelete={handleBulkDelete}
+          />
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -459,85 +1182,44 @@ const Dashboard = () => {
               <p className="text-muted-foreground mb-4">No tasks match your filters.</p>
               <Button
                 variant="outline"
-                onClick={() => {
-                  setSearchQuery('');
-                  setStatusFilter('all');
-                  setPriorityFilter('all');
-                }}
+                onClick={clearFilters}
               >
                 Clear Filters
               </Button>
             </CardContent>
           </Card>
+        ) : viewMode === 'board' ? (
+          <UserKanbanBoard
+            userName={isAdmin && adminViewMode === 'all' ? 'All Users' : 'Your Board'}
+            userId={user?.id || ''}
+            tasks={filteredTasks}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            onMoveTask={handleMoveTask}
+            isAdmin={isAdmin}
+            currentUserId={user?.id}
+          />
+        ) : groupBy === 'label' ? (
+          <div className="space-y-6">
+            {labelGroups.map(group => (
+              <div key={group.label?.id || 'unlabeled'} className="space-y-3">
+                <div className="flex items-center gap-2">
+                  {group.label ? (
+                    <LabelBadge label={group.label} className="text-sm" />
+                  ) : (
+                    <span className="text-sm font-medium text-muted-foreground">Unlabeled</span>
+                  )}
+                  <Badge variant="outline">{group.tasks.length}</Badge>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {group.tasks.map(renderTaskCard)}
+                </div>
+              </div>
+            ))}
+          </div>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredTasks.map((task) => (
-              <Card key={task.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <CardTitle className="text-lg">{task.title}</CardTitle>
-                    <div className="flex gap-2">
-                      {(isAdmin || task.user_id === user?.id) && (
-                        <>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEdit(task)}
-                          >
-                            <Edit2 className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDelete(task.id)}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </>
-                      )}
-                    </div>
-                  </div>
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {(isAdmin || task.user_id === user?.id) ? (
-                      <Select
-                        value={task.status}
-                        onValueChange={(value) => handleStatusChange(task.id, value)}
-                      >
-                        <SelectTrigger className="h-7 w-28 text-xs">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="in-progress">In Progress</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    ) : (
-                      <Badge variant={getStatusColor(task.status)} className="capitalize">
-                        {task.status}
-                      </Badge>
-                    )}
-                    <Badge variant={getPriorityColor(task.priority)} className="capitalize">
-                      {task.priority}
-                    </Badge>
-                    {isAdmin && task.profiles && (
-                      <Badge variant="secondary" className="gap-1">
-                        <User className="h-3 w-3" />
-                        {task.profiles.full_name || task.profiles.email}
-                      </Badge>
-                    )}
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <CardDescription className="line-clamp-3">
-                    {task.description || 'No description'}
-                  </CardDescription>
-                  <p className="text-xs text-muted-foreground mt-4">
-                    Created {new Date(task.created_at).toLocaleDateString()}
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
+            {filteredTasks.map(renderTaskCard)}
           </div>
         )}
 
@@ -551,8 +1233,31 @@ const Dashboard = () => {
         <TaskAssignmentDialog
           open={assignDialogOpen}
           onOpenChange={setAssignDialogOpen}
-          onSuccess={fetchTasks}
+          onSuccess={() => {
+            fetchTasks();
+            refetchLabels();
+          }}
         />
+
+        {isAdmin && (
+          <LabelManagerDialog
+            open={labelsDialogOpen}
+            onOpenChange={(open) => {
+              setLabelsDialogOpen(open);
+              if (!open) {
+                refetchLabels();
+                fetchTasks();
+              }
+            }}
+          />
+        )}
+
+        {isAdmin && (
+          <WorkflowColumnsDialog
+            open={columnsDialogOpen}
+            onOpenChange={setColumnsDialogOpen}
+          />
+        )}
       </div>
     </AppLayout>
   );
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProject } from '@/hooks/useProject';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/AppLayout';
 import { Button } from '@/components/ui/button';
@@ -53,6 +54,7 @@ interface Profile {
 const Meetings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { currentProjectId, currentProject, isLoading: projectsLoading } = useProject();
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -75,9 +77,10 @@ const Meetings = () => {
   });
 
   useEffect(() => {
+    if (projectsLoading) return;
     fetchMeetings();
     fetchProfiles();
-  }, [user]);
+  }, [user, currentProjectId, projectsLoading]);
 
   const fetchMeetings = async () => {
     if (!user) return;
@@ -102,6 +105,17 @@ const Meetings = () => {
       (participantRows || []).forEach((row: any) => accessibleIds.add(row.meeting_id));
       (creatorRows || []).forEach((row: any) => accessibleIds.add(row.id));
 
+      // Project members see every meeting of the project, not only the ones they were invited to
+      if (currentProjectId) {
+        const { data: projectRows, error: projectErr } = await supabase
+          .from('meetings')
+          .select('id')
+          .eq('project_id', currentProjectId);
+
+        if (projectErr) throw projectErr;
+        (projectRows || []).forEach(row => accessibleIds.add(row.id));
+      }
+
       if (accessibleIds.size === 0) {
         setMeetings([]);
         setSelectedMeeting(null);
@@ -111,12 +125,18 @@ const Meetings = () => {
 
       const meetingIds = Array.from(accessibleIds);
 
-      const { data: meetingsData, error: meetingsError } = await supabase
+      let meetingsQuery = supabase
         .from('meetings')
         .select('*')
         .in('id', meetingIds)
         .order('meeting_date', { ascending: false });
 
+      if (currentProjectId) {
+        meetingsQuery = meetingsQuery.eq('project_id', currentProjectId);
+      }
+
+      const { data: meetingsData, error: meetingsError } = await meetingsQuery;
+
       if (meetingsError) throw meetingsError;
 
       if (!meetingsData || meetingsData.length === 0) {
@@ -182,7 +202,8 @@ const Meetings = () => {
         .from('profiles')
         .select('id, email, full_name');
       if (error) throw error;
-      setProfiles(data || []);
+      // Inside a project only its members can be invited
+      setProfiles((data || []).filter(p => !currentProject || currentProject.memberIds.includes(p.id)));
     } catch (error) {
       console.error('Error fetching profiles:', error);
     }
@@ -212,6 +233,7 @@ const Meetings = () => {
           duration_minutes: newMeeting.duration_minutes,
           created_by: user.id,
           mom_taker: newMeeting.mom_taker === 'none' ? null : newMeeting.mom_taker,
+          project_id: currentProjectId,
         })
         .select()
         .single();
@@ -324,7 +346,11 @@ const Meetings = () => {
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
           <div>
             <h1 className="text-3xl font-bold">Meetings</h1>
-            <p className="text-muted-foreground">View and manage your meetings and minutes</p>
+            <p className="text-muted-foreground">
+              {currentProject
+                ? `Meetings and minutes in ${currentProject.name}`
+                : 'View and manage your meetings and minutes'}
+            </p>
           </div>
           <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
             <DialogTrigger asChild>
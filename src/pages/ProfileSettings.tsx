@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/AppLayout';
+import { NotificationPreferencesCard } from '@/components/NotificationPreferencesCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -313,6 +314,9 @@ const ProfileSettings = () => {
           </CardContent>
         </Card>
 
+        {/* Notification Preferences */}
+        <NotificationPreferencesCard />
+
         {/* Change Password */}
         <Card className="mb-6">
           <CardHeader>
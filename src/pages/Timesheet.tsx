@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useTimeEntries } from '@/hooks/useTimeEntries';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronLeft, ChevronRight, Clock, Loader2, Square } from 'lucide-react';
+import { addDays, format, isSameDay } from 'date-fns';
+import {
+  formatDuration,
+  formatTimer,
+  getDayKey,
+  getEntryDayKey,
+  getEntryDuration,
+  getWeekDays,
+  getWeekStart,
+  isRunning,
+} from '@/lib/timeTracking';
+
+interface Profile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface TimesheetRow {
+  taskId: string;
+  title: string;
+  byDay: Record<string, number>;
+  total: number;
+}
+
+const Timesheet = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [now, setNow] = useState(new Date());
+
+  const viewedUserId = selectedUserId || user?.id;
+  const weekEnd = addDays(weekStart, 7);
+  const days = getWeekDays(weekStart);
+  const { entries, runningEntry, isLoading, stopTimer } = useTimeEntries({
+    userId: viewedUserId,
+    from: weekStart,
+    to: weekEnd,
+  });
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchProfiles();
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntry]);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .order('full_name');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    }
+  };
+
+  const handleStop = async () => {
+    const ok = await stopTimer();
+    if (!ok) {
+      toast({
+        title: 'Error',
+        description: 'Failed to stop timer',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const rows = Object.values(
+    entries.reduce((acc, entry) => {
+      const row = acc[entry.task_id] || {
+        taskId: entry.task_id,
+        title: entry.tasks?.title || 'Deleted task',
+        byDay: {},
+        total: 0,
+      };
+      const seconds = getEntryDuration(entry, now);
+      const dayKey = getEntryDayKey(entry);
+      row.byDay[dayKey] = (row.byDay[dayKey] || 0) + seconds;
+      row.total += seconds;
+      acc[entry.task_id] = row;
+      return acc;
+    }, {} as Record<string, TimesheetRow>)
+  ).sort((a, b) => b.total - a.total);
+
+  const dayTotals = days.map(day => rows.reduce((sum, row) => sum + (row.byDay[getDayKey(day)] || 0), 0));
+  const weekTotal = dayTotals.reduce((sum, seconds) => sum + seconds, 0);
+  const isCurrentWeek = isSameDay(weekStart, getWeekStart(new Date()));
+
+  return (
+    <AppLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Timesheet</h1>
+            <p className="text-muted-foreground">Time logged per task for the week</p>
+          </div>
+          {isAdmin && profiles.length > 0 && (
+            <Select value={viewedUserId} onValueChange={setSelectedUserId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.id === user?.id ? 'You' : profile.full_name || profile.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {runningEntry && viewedUserId === user?.id && (
+          <Card className="mb-6 border-primary/40">
+            <CardContent className="p-4 flex items-center gap-4">
+              <Clock className="h-5 w-5 text-primary animate-pulse" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-muted-foreground">Timer running</p>
+                <p className="font-medium truncate">{runningEntry.tasks?.title}</p>
+              </div>
+              <span className="text-xl font-mono tabular-nums text-primary">
+                {formatTimer(getEntryDuration(runningEntry, now))}
+              </span>
+              <Button variant="destructive" size="sm" onClick={handleStop}>
+                <Square className="mr-1 h-4 w-4" />
+                Stop
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>
+                {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+              </CardTitle>
+              <CardDescription>{formatDuration(weekTotal)} logged this week</CardDescription>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addDays(prev, -7))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setWeekStart(getWeekStart(new Date()))}
+                disabled={isCurrentWeek}
+              >
+                This week
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addDays(prev, 7))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : rows.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">
+                No time logged this week. Start a timer or log time from a task.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    {days.map(day => (
+                      <TableHead
+                        key={day.toISOString()}
+                        className={`text-right ${isSameDay(day, new Date()) ? 'text-primary' : ''}`}
+                      >
+                        {format(day, 'EEE d')}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.taskId}>
+                      <TableCell className="font-medium max-w-[16rem] truncate">
+                        {row.title}
+                        {entries.some(e => e.task_id === row.taskId && isRunning(e)) && (
+                          <Clock className="inline ml-2 h-3 w-3 text-primary" />
+                        )}
+                      </TableCell>
+                      {days.map(day => (
+                        <TableCell key={day.toISOString()} className="text-right tabular-nums text-muted-foreground">
+                          {row.byDay[getDayKey(day)] ? formatDuration(row.byDay[getDayKey(day)]) : '–'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums font-medium">{formatDuration(row.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    {dayTotals.map((seconds, index) => (
+                      <TableCell key={index} className="text-right tabular-nums">
+                        {seconds ? formatDuration(seconds) : '–'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums">{formatDuration(weekTotal)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Timesheet;
@@ -7,9 +7,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Loader2, Users, Shield, User, Trash2 } from 'lucide-react';
+import { Loader2, Users, Shield, User, Trash2, UsersRound, AlarmClock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { AppLayout } from '@/components/AppLayout';
+import { UserGroupsDialog } from '@/components/UserGroupsDialog';
+import { ReminderRulesDialog } from '@/components/ReminderRulesDialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,6 +44,8 @@ const UserManagement = () => {
   const { toast } = useToast();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [groupsDialogOpen, setGroupsDialogOpen] = useState(false);
+  const [remindersDialogOpen, setRemindersDialogOpen] = useState(false);
 
   useEffect(() => {
     if (!roleLoading && !isAdmin) {
@@ -208,16 +212,31 @@ const UserManagement = () => {
   return (
     <AppLayout>
       <div className="container mx-auto px-4 py-8">
-        <div className="mb-6">
-          <div className="flex items-center gap-2 mb-2">
-            <Users className="h-6 w-6 text-primary" />
-            <h2 className="text-3xl font-bold">All Users</h2>
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <Users className="h-6 w-6 text-primary" />
+              <h2 className="text-3xl font-bold">All Users</h2>
+            </div>
+            <p className="text-muted-foreground">
+              Manage user roles and permissions across the system
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setRemindersDialogOpen(true)}>
+              <AlarmClock className="mr-2 h-4 w-4" />
+              Reminders
+            </Button>
+            <Button variant="outline" onClick={() => setGroupsDialogOpen(true)}>
+              <UsersRound className="mr-2 h-4 w-4" />
+              Manage Groups
+            </Button>
           </div>
-          <p className="text-muted-foreground">
-            Manage user roles and permissions across the system
-          </p>
         </div>
 
+        <UserGroupsDialog open={groupsDialogOpen} onOpenChange={setGroupsDialogOpen} />
+        <ReminderRulesDialog open={remindersDialogOpen} onOpenChange={setRemindersDialogOpen} />
+
         {users.length === 0 ? (
           <Card className="text-center py-12">
             <CardContent>
@@ -0,0 +1,71 @@
+// Pluggable mail delivery for edge functions. Pick a transport with MAIL_TRANSPORT:
+// "console" (default) logs messages, "file" writes them to MAIL_OUTPUT_DIR, "resend" sends them for real.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`--- Mail to ${message.to}: ${message.subject} ---\n${message.text}`);
+  },
+};
+
+// Writes one .eml-style file per message so digests can be inspected locally
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  async send(message) {
+    await Deno.mkdir(directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const path = `${directory}/${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+    await Deno.writeTextFile(
+      path,
+      `To: ${message.to}\nSubject: ${message.subject}\nContent-Type: text/html; charset=utf-8\n\n${message.html}\n`
+    );
+  },
+});
+
+export const createResendTransport = (apiKey: string, from: string): MailTransport => ({
+  name: 'resend',
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend rejected mail to ${message.to}: ${response.status} ${await response.text()}`);
+    }
+  },
+});
+
+export const getMailTransport = (): MailTransport => {
+  const transport = Deno.env.get('MAIL_TRANSPORT') || 'console';
+
+  switch (transport) {
+    case 'console':
+      return consoleTransport;
+    case 'file':
+      return createFileTransport(Deno.env.get('MAIL_OUTPUT_DIR') || './mail-output');
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) throw new Error('RESEND_API_KEY is required for the resend mail transport');
+      return createResendTransport(apiKey, Deno.env.get('MAIL_FROM') || 'TaskFlow <notifications@example.com>');
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+};
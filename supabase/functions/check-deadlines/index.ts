@@ -5,6 +5,19 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Reminders for deadlines that passed longer ago than this are dropped; escalation takes over
+const REMINDER_GRACE_MINUTES = 60;
+// Tasks that have been overdue for longer than this are no longer escalated
+const ESCALATION_LOOKBACK_DAYS = 30;
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -16,61 +29,155 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get tasks with deadlines in the next 30 minutes that haven't had reminders sent
+    // Generate the next occurrence of recurring tasks whose deadline has passed
+    const { data: occurrencesCreated, error: recurrenceError } = await supabase
+      .rpc('spawn_overdue_task_occurrences');
+
+    if (recurrenceError) {
+      console.error('Error generating recurring task occurrences:', recurrenceError);
+    } else {
+      console.log(`Generated ${occurrencesCreated || 0} recurring task occurrences`);
+    }
+
     const now = new Date();
-    const thirtyMinutesFromNow = new Date(now.getTime() + 30 * 60 * 1000);
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('reminder_rules')
+      .select('id, kind, offset_minutes, priority, user_id');
+
+    if (rulesError) {
+      throw rulesError;
+    }
+
+    const reminderRules = (rules || []).filter(r => r.kind === 'reminder');
+    const teamReminderRules = reminderRules.filter(r => !r.user_id);
+    const escalationRules = (rules || []).filter(r => r.kind === 'escalation');
+    const maxReminderOffset = Math.max(0, ...reminderRules.map(r => r.offset_minutes));
+
+    // Users with their own lead time get only their personal reminders
+    const personalReminderRules = new Map<string, typeof reminderRules>();
+    for (const rule of reminderRules.filter(r => r.user_id)) {
+      personalReminderRules.set(rule.user_id, [...(personalReminderRules.get(rule.user_id) || []), rule]);
+    }
+
+    // Open tasks whose deadline is close enough for a reminder or recent enough to escalate
+    const windowStart = new Date(now.getTime() - ESCALATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(now.getTime() + maxReminderOffset * 60 * 1000);
 
     const { data: tasks, error: tasksError } = await supabase
       .from('tasks')
-      .select('id, title, deadline, user_id, status')
-      .eq('reminder_sent', false)
+      .select('id, title, deadline, user_id, assigned_by, priority, status')
       .neq('status', 'completed')
       .not('deadline', 'is', null)
-      .gte('deadline', now.toISOString())
-      .lte('deadline', thirtyMinutesFromNow.toISOString());
+      .gte('deadline', windowStart.toISOString())
+      .lte('deadline', windowEnd.toISOString());
 
     if (tasksError) {
       throw tasksError;
     }
 
-    console.log(`Found ${tasks?.length || 0} tasks needing reminders`);
+    console.log(`Checking ${tasks?.length || 0} tasks against ${rules?.length || 0} reminder rules`);
+
+    const assigneeIds = [...new Set((tasks || []).map(t => t.user_id))];
+    const { data: profiles } = assigneeIds.length > 0
+      ? await supabase.from('profiles').select('id, full_name, email').in('id', assigneeIds)
+      : { data: [] };
+    const assigneeNames = new Map((profiles || []).map(p => [p.id, p.full_name || p.email]));
+
+    let remindersSent = 0;
+    let escalationsSent = 0;
 
-    // Create notifications for each task
     for (const task of tasks || []) {
-      const deadlineDate = new Date(task.deadline);
-      const minutesUntilDeadline = Math.round((deadlineDate.getTime() - now.getTime()) / 60000);
+      const deadline = new Date(task.deadline);
+      const minutesUntilDeadline = Math.round((deadline.getTime() - now.getTime()) / 60000);
+      const appliesTo = (rule: { priority: string | null }) => !rule.priority || rule.priority === task.priority;
 
-      // Create notification
-      const { error: notifError } = await supabase
-        .from('notifications')
-        .insert({
+      const dueReminders = (personalReminderRules.get(task.user_id) || teamReminderRules).filter(rule =>
+        appliesTo(rule) &&
+        minutesUntilDeadline <= rule.offset_minutes &&
+        minutesUntilDeadline > -REMINDER_GRACE_MINUTES
+      );
+      // Self-assigned tasks have nobody to escalate to
+      const dueEscalations = task.assigned_by && task.assigned_by !== task.user_id
+        ? escalationRules.filter(rule => appliesTo(rule) && -minutesUntilDeadline >= rule.offset_minutes)
+        : [];
+
+      if (dueReminders.length === 0 && dueEscalations.length === 0) continue;
+
+      // Claim the rules before notifying; rules that were already recorded for this deadline are skipped
+      const { data: claimed, error: claimError } = await supabase
+        .from('task_reminders')
+        .upsert(
+          [...dueReminders, ...dueEscalations].map(rule => ({
+            task_id: task.id,
+            rule_id: rule.id,
+            deadline: task.deadline,
+          })),
+          { onConflict: 'task_id,rule_id,deadline', ignoreDuplicates: true }
+        )
+        .select('rule_id');
+
+      if (claimError) {
+        console.error(`Error recording reminders for task ${task.id}:`, claimError);
+        continue;
+      }
+
+      const claimedIds = new Set((claimed || []).map(c => c.rule_id));
+      const notifications = [];
+
+      // Several rules can come due at once (e.g. a task created an hour before its deadline);
+      // only the most urgent one is worth a notification
+      if (dueReminders.some(rule => claimedIds.has(rule.id))) {
+        notifications.push({
           user_id: task.user_id,
           title: '⏰ Deadline Reminder',
-          message: `Your task "${task.title}" is due in ${minutesUntilDeadline} minutes!`,
+          message: minutesUntilDeadline > 0
+            ? `Your task "${task.title}" is due in ${formatDuration(minutesUntilDeadline)}!`
+            : `Your task "${task.title}" is due now!`,
           type: 'deadline_reminder',
           task_id: task.id,
         });
+      }
 
-      if (notifError) {
-        console.error(`Error creating notification for task ${task.id}:`, notifError);
-        continue;
+      if (dueEscalations.some(rule => claimedIds.has(rule.id))) {
+        notifications.push({
+          user_id: task.assigned_by,
+          title: '🚨 Overdue Task',
+          message: `"${task.title}" assigned to ${assigneeNames.get(task.user_id) || 'a team member'} is overdue` +
+            (minutesUntilDeadline < 0 ? ` by ${formatDuration(-minutesUntilDeadline)}` : ''),
+          type: 'deadline_escalation',
+          task_id: task.id,
+        });
       }
 
-      // Mark reminder as sent
-      const { error: updateError } = await supabase
-        .from('tasks')
-        .update({ reminder_sent: true })
-        .eq('id', task.id);
+      if (notifications.length === 0) continue;
+
+      const { error: notifError } = await supabase
+        .from('notifications')
+        .insert(notifications);
 
-      if (updateError) {
-        console.error(`Error updating reminder_sent for task ${task.id}:`, updateError);
+      if (notifError) {
+        console.error(`Error creating notifications for task ${task.id}:`, notifError);
+        // Release the claim so the next run tries again
+        await supabase
+          .from('task_reminders')
+          .delete()
+          .eq('task_id', task.id)
+          .eq('deadline', task.deadline)
+          .in('rule_id', [...claimedIds]);
+        continue;
       }
+
+      remindersSent += notifications.filter(n => n.type === 'deadline_reminder').length;
+      escalationsSent += notifications.filter(n => n.type === 'deadline_escalation').length;
     }
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        reminders_sent: tasks?.length || 0 
+        reminders_sent: remindersSent,
+        escalations_sent: escalationsSent,
+        occurrences_created: occurrencesCreated || 0,
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
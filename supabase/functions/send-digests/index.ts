@@ -0,0 +1,275 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getMailTransport } from '../_shared/mail.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type DigestFrequency = 'daily' | 'weekly';
+
+const PERIOD_HOURS: Record<DigestFrequency, number> = {
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+// Runs may drift a little; don't push a digest back a whole period because of it
+const SCHEDULE_TOLERANCE_HOURS = 1;
+
+interface DigestTask {
+  id: string;
+  title: string;
+  deadline: string | null;
+  priority: string;
+}
+
+interface Digest {
+  overdue: DigestTask[];
+  dueSoon: DigestTask[];
+  newlyAssigned: DigestTask[];
+  meetings: { id: string; title: string; meeting_date: string }[];
+  // source reads "from Alice" for direct messages and "in #general" for groups and channels
+  unreadChats: { source: string; count: number }[];
+  unreadNotifications: number;
+}
+
+const isDue = (frequency: DigestFrequency, lastDigestAt: string | null, now: Date) =>
+  !lastDigestAt ||
+  now.getTime() - new Date(lastDigestAt).getTime() >= (PERIOD_HOURS[frequency] - SCHEDULE_TOLERANCE_HOURS) * 60 * 60 * 1000;
+
+const compileDigest = async (supabase: SupabaseClient, userId: string, since: Date, now: Date, until: Date): Promise<Digest> => {
+  const [tasksResult, ownMeetingsResult, invitedMeetingsResult, chatsResult, membershipsResult, notificationsResult] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id, title, deadline, priority, created_at, assigned_by')
+      .eq('user_id', userId)
+      .neq('status', 'completed')
+      .order('deadline', { ascending: true, nullsFirst: false }),
+    supabase
+      .from('meetings')
+      .select('id, title, meeting_date')
+      .eq('created_by', userId)
+      .gte('meeting_date', now.toISOString())
+      .lte('meeting_date', until.toISOString()),
+    supabase
+      .from('meeting_participants')
+      .select('meetings!inner (id, title, meeting_date)')
+      .eq('user_id', userId)
+      .gte('meetings.meeting_date', now.toISOString())
+      .lte('meetings.meeting_date', until.toISOString()),
+    supabase
+      .from('chat_messages')
+      .select('sender_id, sender:profiles!chat_messages_sender_id_fkey (full_name, email)')
+      .eq('receiver_id', userId)
+      .eq('is_read', false),
+    supabase
+      .from('chat_conversation_members')
+      .select('conversation_id, last_read_at, chat_conversations (kind, name)')
+      .eq('user_id', userId),
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false),
+  ]);
+
+  for (const result of [tasksResult, ownMeetingsResult, invitedMeetingsResult, chatsResult, membershipsResult, notificationsResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const tasks = tasksResult.data || [];
+  const isBefore = (iso: string | null, date: Date) => !!iso && new Date(iso).getTime() < date.getTime();
+
+  const meetings = new Map<string, Digest['meetings'][number]>();
+  for (const meeting of [...(ownMeetingsResult.data || []), ...(invitedMeetingsResult.data || []).map(p => p.meetings)]) {
+    meetings.set(meeting.id, meeting);
+  }
+
+  const unreadBySender = new Map<string, { source: string; count: number }>();
+  for (const message of chatsResult.data || []) {
+    const entry = unreadBySender.get(message.sender_id) ||
+      { source: `from ${message.sender?.full_name || message.sender?.email || 'someone'}`, count: 0 };
+    entry.count += 1;
+    unreadBySender.set(message.sender_id, entry);
+  }
+
+  // Group and channel messages have no receiver: they are unread once posted after the member's read marker
+  const unreadInConversations = await Promise.all(
+    (membershipsResult.data || []).map(async membership => {
+      const { count, error } = await supabase
+        .from('chat_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', membership.conversation_id)
+        .neq('sender_id', userId)
+        .is('event', null)
+        .gt('created_at', membership.last_read_at);
+
+      if (error) throw error;
+      const conversation = membership.chat_conversations;
+      const name = conversation?.kind === 'channel' ? `#${conversation.name}` : conversation?.name || 'a group';
+      return { source: `in ${name}`, count: count || 0 };
+    })
+  );
+
+  return {
+    overdue: tasks.filter(t => isBefore(t.deadline, now)),
+    dueSoon: tasks.filter(t => t.deadline && !isBefore(t.deadline, now) && isBefore(t.deadline, until)),
+    newlyAssigned: tasks.filter(t =>
+      t.assigned_by && t.assigned_by !== userId && !isBefore(t.created_at, since)
+    ),
+    meetings: [...meetings.values()].sort((a, b) => a.meeting_date.localeCompare(b.meeting_date)),
+    unreadChats: [...unreadBySender.values(), ...unreadInConversations.filter(c => c.count > 0)]
+      .sort((a, b) => b.count - a.count),
+    unreadNotifications: notificationsResult.count || 0,
+  };
+};
+
+const isEmptyDigest = (digest: Digest) =>
+  digest.overdue.length === 0 &&
+  digest.dueSoon.length === 0 &&
+  digest.newlyAssigned.length === 0 &&
+  digest.meetings.length === 0 &&
+  digest.unreadChats.length === 0 &&
+  digest.unreadNotifications === 0;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (iso: string, timezone: string) => {
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+  try {
+    return new Date(iso).toLocaleString('en-US', { ...options, timeZone: timezone });
+  } catch {
+    return new Date(iso).toLocaleString('en-US', { ...options, timeZone: 'UTC' });
+  }
+};
+
+const renderDigest = (name: string, frequency: DigestFrequency, digest: Digest, timezone: string) => {
+  const appUrl = Deno.env.get('APP_URL');
+  const describeTask = (task: DigestTask) =>
+    task.deadline ? `${task.title} (${task.priority}, due ${formatDate(task.deadline, timezone)})` : `${task.title} (${task.priority})`;
+
+  const sections: { title: string; items: string[] }[] = [
+    { title: 'Overdue', items: digest.overdue.map(describeTask) },
+    { title: frequency === 'daily' ? 'Due in the next day' : 'Due this week', items: digest.dueSoon.map(describeTask) },
+    { title: 'Newly assigned to you', items: digest.newlyAssigned.map(describeTask) },
+    {
+      title: 'Upcoming meetings',
+      items: digest.meetings.map(m => `${m.title} (${formatDate(m.meeting_date, timezone)})`),
+    },
+    {
+      title: 'Unread messages',
+      items: digest.unreadChats.map(c => `${c.count} ${c.source}`),
+    },
+  ].filter(section => section.items.length > 0);
+
+  const notificationsLine = digest.unreadNotifications > 0
+    ? `You have ${digest.unreadNotifications} unread notification${digest.unreadNotifications === 1 ? '' : 's'}.`
+    : null;
+
+  const subject = `Your ${frequency} TaskFlow digest` +
+    (digest.overdue.length > 0 ? ` (${digest.overdue.length} overdue)` : '');
+
+  const text = [
+    `Hi ${name},`,
+    '',
+    ...sections.flatMap(section => [`${section.title}:`, ...section.items.map(item => `  - ${item}`), '']),
+    ...(notificationsLine ? [notificationsLine, ''] : []),
+    ...(appUrl ? [`Open TaskFlow: ${appUrl}`] : []),
+  ].join('\n');
+
+  const html = [
+    `<p>Hi ${escapeHtml(name)},</p>`,
+    ...sections.map(section =>
+      `<h3>${escapeHtml(section.title)}</h3><ul>${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    ),
+    ...(notificationsLine ? [`<p>${escapeHtml(notificationsLine)}</p>`] : []),
+    ...(appUrl ? [`<p><a href="${escapeHtml(appUrl)}">Open TaskFlow</a></p>`] : []),
+  ].join('\n');
+
+  return { subject, text, html };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport = getMailTransport();
+    const now = new Date();
+
+    const { data: subscribers, error: subscribersError } = await supabase
+      .from('notification_preferences')
+      .select('user_id, digest_frequency, timezone, last_digest_at, profiles (email, full_name)')
+      .neq('digest_frequency', 'off');
+
+    if (subscribersError) {
+      throw subscribersError;
+    }
+
+    const due = (subscribers || []).filter(s => isDue(s.digest_frequency, s.last_digest_at, now));
+    console.log(`Compiling digests for ${due.length} of ${subscribers?.length || 0} subscribers via ${transport.name}`);
+
+    let digestsSent = 0;
+
+    for (const subscriber of due) {
+      const frequency = subscriber.digest_frequency as DigestFrequency;
+      const periodMs = PERIOD_HOURS[frequency] * 60 * 60 * 1000;
+      // First digests cover one period back; later ones pick up where the previous one stopped
+      const since = subscriber.last_digest_at ? new Date(subscriber.last_digest_at) : new Date(now.getTime() - periodMs);
+      const until = new Date(now.getTime() + periodMs);
+
+      try {
+        const digest = await compileDigest(supabase, subscriber.user_id, since, now, until);
+
+        if (!isEmptyDigest(digest) && subscriber.profiles?.email) {
+          const name = subscriber.profiles.full_name || subscriber.profiles.email;
+          await transport.send({
+            to: subscriber.profiles.email,
+            ...renderDigest(name, frequency, digest, subscriber.timezone),
+          });
+          digestsSent += 1;
+        }
+
+        // Advance the schedule even when there was nothing to report
+        const { error: updateError } = await supabase
+          .from('notification_preferences')
+          .update({ last_digest_at: now.toISOString() })
+          .eq('user_id', subscriber.user_id);
+
+        if (updateError) {
+          console.error(`Error updating last_digest_at for user ${subscriber.user_id}:`, updateError);
+        }
+      } catch (error) {
+        console.error(`Error sending digest to user ${subscriber.user_id}:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        digests_sent: digestsSent,
+        transport: transport.name,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error sending digests:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+-- Security definer helper: a user can access a task if they own it,
+-- or if they are an admin and the task is not private
+CREATE OR REPLACE FUNCTION public.can_access_task(_task_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    WHERE t.id = _task_id
+      AND (
+        t.user_id = _user_id
+        OR (public.has_role(_user_id, 'admin'::app_role) AND t.is_private = false)
+      )
+  );
+$$;
+
+-- Create task_subtasks table for checklist items belonging to a parent task
+CREATE TABLE public.task_subtasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  is_completed BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_subtasks_task_id_idx ON public.task_subtasks (task_id, position);
+
+-- Enable RLS on task_subtasks
+ALTER TABLE public.task_subtasks ENABLE ROW LEVEL SECURITY;
+
+-- Subtasks follow the visibility of their parent task
+CREATE POLICY "Users can view subtasks of accessible tasks"
+ON public.task_subtasks
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can create subtasks on accessible tasks"
+ON public.task_subtasks
+FOR INSERT
+WITH CHECK (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can update subtasks on accessible tasks"
+ON public.task_subtasks
+FOR UPDATE
+USING (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can delete subtasks on accessible tasks"
+ON public.task_subtasks
+FOR DELETE
+USING (public.can_access_task(task_id, auth.uid()));
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_task_subtasks_updated_at
+  BEFORE UPDATE ON public.task_subtasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,79 @@
+-- Create task_comments table for per-task discussion threads
+CREATE TABLE public.task_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_comments_task_id_idx ON public.task_comments (task_id, created_at);
+
+-- Enable RLS on task_comments
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments follow the visibility of their parent task
+CREATE POLICY "Users can view comments on accessible tasks"
+ON public.task_comments
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can comment on accessible tasks"
+ON public.task_comments
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can delete their own comments"
+ON public.task_comments
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Notify mentioned users, then the task owner if they weren't mentioned.
+-- Done here instead of by the client so comments can only notify people who can see the task.
+CREATE OR REPLACE FUNCTION public.notify_task_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _author text;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = NEW.task_id;
+  SELECT COALESCE(full_name, email) INTO _author FROM public.profiles WHERE id = NEW.user_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, task_id)
+  SELECT DISTINCT
+    m.user_id,
+    'You were mentioned',
+    format('%s mentioned you on "%s": %s', _author, _task.title, NEW.content),
+    'task_mention',
+    NEW.task_id
+  FROM unnest(NEW.mentions) AS m(user_id)
+  WHERE m.user_id <> NEW.user_id
+    AND public.can_access_task(NEW.task_id, m.user_id);
+
+  IF _task.user_id <> NEW.user_id AND NOT (_task.user_id = ANY (NEW.mentions)) THEN
+    INSERT INTO public.notifications (user_id, title, message, type, task_id)
+    VALUES (
+      _task.user_id,
+      'New Comment',
+      format('%s commented on "%s": %s', _author, _task.title, NEW.content),
+      'task_comment',
+      NEW.task_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_comment
+  AFTER INSERT ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_comment();
+
+-- Enable realtime for task comments
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_comments;
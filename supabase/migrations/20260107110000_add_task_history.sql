@@ -0,0 +1,72 @@
+-- Create task_history table recording every change made to a task.
+-- task_id intentionally has no foreign key so history survives task deletion
+-- (and reconnects when a deleted task is restored with the same id).
+CREATE TABLE public.task_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX task_history_task_id_idx ON public.task_history (task_id, created_at);
+
+-- Enable RLS on task_history
+ALTER TABLE public.task_history ENABLE ROW LEVEL SECURITY;
+
+-- History follows the visibility of its task, so admins don't see old values of private tasks.
+-- Rows are only written by the trigger below, so there are no insert/update/delete policies.
+CREATE POLICY "Users can view history of accessible tasks"
+ON public.task_history
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+-- Trigger function: one history row per changed column, attributed to the current user
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _old jsonb;
+  _new jsonb;
+  _field text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action)
+    VALUES (NEW.id, _actor, 'created');
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action)
+    VALUES (OLD.id, _actor, 'deleted');
+    RETURN OLD;
+  END IF;
+
+  _old := to_jsonb(OLD);
+  _new := to_jsonb(NEW);
+
+  FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+    -- Skip bookkeeping columns that change without user intent
+    CONTINUE WHEN _field IN ('id', 'created_at', 'updated_at', 'reminder_sent');
+
+    IF (_old -> _field) IS DISTINCT FROM (_new -> _field) THEN
+      INSERT INTO public.task_history (task_id, changed_by, action, field, old_value, new_value)
+      VALUES (NEW.id, _actor, 'updated', _field, _old ->> _field, _new ->> _field);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_task_changes();
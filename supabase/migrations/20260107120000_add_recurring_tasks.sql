@@ -0,0 +1,229 @@
+-- Create task_recurrences table: one row per recurring series, holding the
+-- RRULE-style rule and the template every generated occurrence is copied from
+CREATE TABLE public.task_recurrences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rule TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  is_private BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link each task occurrence to its series
+ALTER TABLE public.tasks
+  ADD COLUMN recurrence_id UUID NULL REFERENCES public.task_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX tasks_recurrence_id_idx ON public.tasks (recurrence_id, deadline);
+
+-- Enable RLS on task_recurrences
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own or created series"
+ON public.task_recurrences
+FOR SELECT
+USING (
+  auth.uid() = user_id OR
+  auth.uid() = created_by OR
+  (has_role(auth.uid(), 'admin'::app_role) AND is_private = false)
+);
+
+CREATE POLICY "Users can create series for themselves, admins for anyone"
+ON public.task_recurrences
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  (auth.uid() = user_id OR has_role(auth.uid(), 'admin'::app_role))
+);
+
+CREATE POLICY "Owners and admins can update series"
+ON public.task_recurrences
+FOR UPDATE
+USING (
+  auth.uid() = user_id OR
+  (has_role(auth.uid(), 'admin'::app_role) AND is_private = false)
+);
+
+CREATE POLICY "Owners and admins can delete series"
+ON public.task_recurrences
+FOR DELETE
+USING (
+  auth.uid() = user_id OR
+  (has_role(auth.uid(), 'admin'::app_role) AND is_private = false)
+);
+
+CREATE TRIGGER update_task_recurrences_updated_at
+  BEFORE UPDATE ON public.task_recurrences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Compute the next occurrence strictly after _after for an RRULE-style rule.
+-- Supports FREQ=DAILY|WEEKLY|MONTHLY|YEARLY, INTERVAL, BYDAY (weekly) and UNTIL.
+-- Returns NULL once the rule is exhausted or cannot be understood.
+CREATE OR REPLACE FUNCTION public.next_task_occurrence(_rule text, _after timestamptz)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _part text;
+  _key text;
+  _value text;
+  _freq text;
+  _interval integer := 1;
+  _by_day text[];
+  _until timestamptz;
+  _candidate timestamptz;
+  _week_offset integer;
+  _day_codes text[] := ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+BEGIN
+  FOREACH _part IN ARRAY string_to_array(upper(regexp_replace(_rule, '^RRULE:', '', 'i')), ';') LOOP
+    _key := split_part(_part, '=', 1);
+    _value := split_part(_part, '=', 2);
+    CASE _key
+      WHEN 'FREQ' THEN _freq := _value;
+      WHEN 'INTERVAL' THEN _interval := greatest(_value::integer, 1);
+      WHEN 'BYDAY' THEN _by_day := string_to_array(_value, ',');
+      -- UNTIL is inclusive of the whole day it names
+      WHEN 'UNTIL' THEN _until := to_timestamp(left(_value, 8), 'YYYYMMDD') + interval '1 day' - interval '1 second';
+      ELSE NULL;
+    END CASE;
+  END LOOP;
+
+  IF _freq = 'WEEKLY' AND _by_day IS NOT NULL THEN
+    FOR _i IN 1..(7 * _interval + 7) LOOP
+      _candidate := _after + make_interval(days => _i);
+      _week_offset := (date_trunc('week', _candidate)::date - date_trunc('week', _after)::date) / 7;
+      EXIT WHEN _week_offset % _interval = 0
+        AND _day_codes[extract(dow FROM _candidate)::integer + 1] = ANY(_by_day);
+      _candidate := NULL;
+    END LOOP;
+  ELSE
+    _candidate := CASE _freq
+      WHEN 'DAILY' THEN _after + make_interval(days => _interval)
+      WHEN 'WEEKLY' THEN _after + make_interval(weeks => _interval)
+      WHEN 'MONTHLY' THEN _after + make_interval(months => _interval)
+      WHEN 'YEARLY' THEN _after + make_interval(years => _interval)
+    END;
+  END IF;
+
+  IF _candidate IS NULL OR (_until IS NOT NULL AND _candidate > _until) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN _candidate;
+END;
+$$;
+
+-- Create the next occurrence of the series a task belongs to, unless the
+-- series already has a later occurrence. Deactivates exhausted series.
+CREATE OR REPLACE FUNCTION public.spawn_next_task_occurrence(_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _series public.task_recurrences%ROWTYPE;
+  _next timestamptz;
+  _new_id uuid;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+  IF NOT FOUND OR _task.recurrence_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _series FROM public.task_recurrences WHERE id = _task.recurrence_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only one upcoming occurrence per series at a time
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE recurrence_id = _series.id
+      AND id <> _task.id
+      AND deadline > coalesce(_task.deadline, _task.created_at)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  _next := public.next_task_occurrence(_series.rule, coalesce(_task.deadline, now()));
+  -- Skip occurrences that are already in the past
+  WHILE _next IS NOT NULL AND _next <= now() LOOP
+    _next := public.next_task_occurrence(_series.rule, _next);
+  END LOOP;
+
+  IF _next IS NULL THEN
+    UPDATE public.task_recurrences SET is_active = false WHERE id = _series.id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (user_id, title, description, priority, is_private, deadline, recurrence_id)
+  VALUES (_series.user_id, _series.title, _series.description, _series.priority, _series.is_private, _next, _series.id)
+  RETURNING id INTO _new_id;
+
+  RETURN _new_id;
+END;
+$$;
+
+-- Generate the next occurrence as soon as one is completed
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.spawn_next_task_occurrence(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER spawn_next_occurrence_on_completion
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND NEW.recurrence_id IS NOT NULL)
+  EXECUTE FUNCTION public.handle_recurring_task_completion();
+
+-- Generate the next occurrence for every active series whose latest
+-- occurrence is past its deadline. Called on a schedule by check-deadlines.
+CREATE OR REPLACE FUNCTION public.spawn_overdue_task_occurrences()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_id uuid;
+  _created integer := 0;
+BEGIN
+  FOR _task_id IN
+    SELECT latest.id
+    FROM (
+      SELECT DISTINCT ON (t.recurrence_id) t.id, t.deadline
+      FROM public.tasks t
+      JOIN public.task_recurrences r ON r.id = t.recurrence_id AND r.is_active
+      ORDER BY t.recurrence_id, t.deadline DESC NULLS LAST
+    ) latest
+    WHERE latest.deadline < now()
+  LOOP
+    IF public.spawn_next_task_occurrence(_task_id) IS NOT NULL THEN
+      _created := _created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+-- Generation is driven by triggers and the scheduled function only
+REVOKE EXECUTE ON FUNCTION public.spawn_next_task_occurrence(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.spawn_overdue_task_occurrences() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.spawn_overdue_task_occurrences() TO service_role;
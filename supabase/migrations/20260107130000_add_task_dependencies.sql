@@ -0,0 +1,121 @@
+-- Create task_dependencies table: task_id cannot start until depends_on_id is completed
+CREATE TABLE public.task_dependencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  depends_on_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (task_id, depends_on_id),
+  CHECK (task_id <> depends_on_id)
+);
+
+CREATE INDEX task_dependencies_depends_on_id_idx ON public.task_dependencies (depends_on_id);
+
+-- Enable RLS on task_dependencies
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view dependencies of accessible tasks"
+ON public.task_dependencies
+FOR SELECT
+USING (
+  public.can_access_task(task_id, auth.uid()) OR
+  public.can_access_task(depends_on_id, auth.uid())
+);
+
+CREATE POLICY "Users can link accessible tasks"
+ON public.task_dependencies
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  public.can_access_task(task_id, auth.uid()) AND
+  public.can_access_task(depends_on_id, auth.uid())
+);
+
+CREATE POLICY "Users can unlink dependencies of accessible tasks"
+ON public.task_dependencies
+FOR DELETE
+USING (public.can_access_task(task_id, auth.uid()));
+
+-- Reject dependencies that would make a task (indirectly) depend on itself
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE upstream AS (
+      SELECT depends_on_id FROM public.task_dependencies WHERE task_id = NEW.depends_on_id
+      UNION
+      SELECT d.depends_on_id
+      FROM public.task_dependencies d
+      JOIN upstream u ON d.task_id = u.depends_on_id
+    )
+    SELECT 1 FROM upstream WHERE depends_on_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Adding this dependency would create a cycle' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+-- A blocked task has to stay pending until all of its dependencies are completed
+CREATE OR REPLACE FUNCTION public.enforce_task_dependencies()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'pending' AND EXISTS (
+    SELECT 1
+    FROM public.task_dependencies d
+    JOIN public.tasks blocker ON blocker.id = d.depends_on_id
+    WHERE d.task_id = NEW.id
+      AND blocker.status <> 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Task is blocked by incomplete dependencies' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_task_dependencies
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.enforce_task_dependencies();
+
+-- Full upstream dependency chain of a task (blockers, their blockers, ...).
+-- Runs with the caller's permissions, so tasks they cannot see are left out.
+CREATE OR REPLACE FUNCTION public.get_task_dependency_chain(_task_id uuid)
+RETURNS TABLE (id uuid, title text, status text, blocks_id uuid, depth integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE chain AS (
+    SELECT d.task_id, d.depends_on_id, 1 AS depth
+    FROM public.task_dependencies d
+    WHERE d.task_id = _task_id
+    UNION
+    SELECT d.task_id, d.depends_on_id, c.depth + 1
+    FROM public.task_dependencies d
+    JOIN chain c ON d.task_id = c.depends_on_id
+    WHERE c.depth < 20
+  )
+  SELECT t.id, t.title, t.status, c.task_id AS blocks_id, min(c.depth)::integer AS depth
+  FROM chain c
+  JOIN public.tasks t ON t.id = c.depends_on_id
+  GROUP BY t.id, t.title, t.status, c.task_id
+  ORDER BY depth, t.title;
+$$;
+
+-- Enable realtime for task dependencies
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_dependencies;
@@ -0,0 +1,200 @@
+-- Create workflow_statuses table: the columns of the task board, in order.
+-- The three built-in statuses are referenced by other features (reminders,
+-- recurrence, dependencies) and cannot be removed; teams add their own in between.
+CREATE TABLE public.workflow_statuses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.workflow_statuses (key, label, position, is_system) VALUES
+  ('pending', 'Pending', 0, true),
+  ('in-progress', 'In Progress', 1, true),
+  ('completed', 'Completed', 100, true);
+
+-- Enable RLS on workflow_statuses
+ALTER TABLE public.workflow_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view workflow statuses"
+ON public.workflow_statuses
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can create workflow statuses"
+ON public.workflow_statuses
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) AND is_system = false);
+
+CREATE POLICY "Admins can update workflow statuses"
+ON public.workflow_statuses
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete custom workflow statuses"
+ON public.workflow_statuses
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) AND is_system = false);
+
+CREATE TRIGGER update_workflow_statuses_updated_at
+  BEFORE UPDATE ON public.workflow_statuses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keys are referenced by tasks.status, so only labels and order can change
+CREATE OR REPLACE FUNCTION public.protect_workflow_status_key()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.key IS DISTINCT FROM OLD.key OR NEW.is_system IS DISTINCT FROM OLD.is_system THEN
+    RAISE EXCEPTION 'Workflow status keys cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_workflow_status_key
+  BEFORE UPDATE ON public.workflow_statuses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_workflow_status_key();
+
+-- Normalize legacy status values before tying tasks to the workflow
+ALTER TABLE public.tasks DISABLE TRIGGER log_task_changes;
+
+UPDATE public.tasks SET status = 'in-progress' WHERE status = 'in_progress';
+
+ALTER TABLE public.tasks ENABLE TRIGGER log_task_changes;
+
+-- Any other status already in use becomes a custom column between In Progress and Completed
+INSERT INTO public.workflow_statuses (key, label, position)
+SELECT status, initcap(replace(status, '-', ' ')), 1 + row_number() OVER (ORDER BY status)
+FROM (SELECT DISTINCT status FROM public.tasks) s
+WHERE status NOT IN (SELECT key FROM public.workflow_statuses)
+  AND status ~ '^[a-z0-9]+(-[a-z0-9]+)*$';
+
+-- Statuses that cannot be used as a column key need to be cleaned up by hand first
+DO $$
+DECLARE
+  _invalid text;
+BEGIN
+  SELECT string_agg(DISTINCT quote_literal(status), ', ') INTO _invalid
+  FROM public.tasks
+  WHERE status NOT IN (SELECT key FROM public.workflow_statuses);
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Tasks use statuses that are not valid workflow keys: %', _invalid;
+  END IF;
+END;
+$$;
+
+-- A status column can only be deleted once no task uses it
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_status_fkey FOREIGN KEY (status) REFERENCES public.workflow_statuses(key);
+
+-- Manual ordering of tasks within a board column (lower comes first)
+ALTER TABLE public.tasks
+  ADD COLUMN board_position INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX tasks_status_board_position_idx ON public.tasks (status, board_position);
+
+-- Move a card to a board column and renumber that column in one go. _ordered_ids is the
+-- column as the user sees it after the drop; cards hidden by their filters stay right
+-- after the visible card they followed. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION public.move_task_on_board(_task_id uuid, _status text, _ordered_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks SET status = _status WHERE id = _task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  WITH column_tasks AS (
+    SELECT
+      id,
+      row_number() OVER (ORDER BY board_position, created_at DESC) AS rn,
+      id = ANY (_ordered_ids) AS is_visible
+    FROM public.tasks
+    WHERE status = _status AND id <> _task_id
+  ),
+  grouped AS (
+    -- Each visible card starts a group with the hidden cards that follow it
+    SELECT *, sum(is_visible::integer) OVER (ORDER BY rn) AS grp
+    FROM column_tasks
+  ),
+  anchored AS (
+    SELECT
+      id,
+      rn,
+      is_visible,
+      CASE WHEN grp = 0 THEN 0
+        ELSE array_position(_ordered_ids, first_value(id) OVER (PARTITION BY grp ORDER BY rn))
+      END AS anchor
+    FROM grouped
+    UNION ALL
+    SELECT _task_id, 0, true, array_position(_ordered_ids, _task_id)
+  ),
+  ranked AS (
+    SELECT id, (row_number() OVER (ORDER BY anchor, NOT is_visible, rn) - 1)::integer AS position
+    FROM anchored
+  )
+  UPDATE public.tasks t
+  SET board_position = r.position
+  FROM ranked r
+  WHERE t.id = r.id AND t.board_position IS DISTINCT FROM r.position;
+END;
+$$;
+
+-- Reordering cards is not a meaningful change, keep it out of the task history
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _old jsonb;
+  _new jsonb;
+  _field text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action)
+    VALUES (NEW.id, _actor, 'created');
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action)
+    VALUES (OLD.id, _actor, 'deleted');
+    RETURN OLD;
+  END IF;
+
+  _old := to_jsonb(OLD);
+  _new := to_jsonb(NEW);
+
+  FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+    -- Skip bookkeeping columns that change without user intent
+    CONTINUE WHEN _field IN ('id', 'created_at', 'updated_at', 'reminder_sent', 'board_position');
+
+    IF (_old -> _field) IS DISTINCT FROM (_new -> _field) THEN
+      INSERT INTO public.task_history (task_id, changed_by, action, field, old_value, new_value)
+      VALUES (NEW.id, _actor, 'updated', _field, _old ->> _field, _new ->> _field);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Enable realtime so board columns update for everyone when admins edit them
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workflow_statuses;
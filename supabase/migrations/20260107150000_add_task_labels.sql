@@ -0,0 +1,70 @@
+-- Create labels table: managed labels are the admin-curated vocabulary,
+-- the rest are free tags anyone can create while tagging a task
+CREATE TABLE public.labels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 40),
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  is_managed BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX labels_name_key ON public.labels (lower(trim(name)));
+
+-- Create task_labels join table
+CREATE TABLE public.task_labels (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  label_id UUID NOT NULL REFERENCES public.labels(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, label_id)
+);
+
+CREATE INDEX task_labels_label_id_idx ON public.task_labels (label_id);
+
+-- Enable RLS on labels
+ALTER TABLE public.labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view labels"
+ON public.labels
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can create free tags, admins managed labels"
+ON public.labels
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  (is_managed = false OR has_role(auth.uid(), 'admin'::app_role))
+);
+
+CREATE POLICY "Admins can update labels"
+ON public.labels
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins and tag creators can delete labels"
+ON public.labels
+FOR DELETE
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  (auth.uid() = created_by AND is_managed = false)
+);
+
+-- Enable RLS on task_labels
+ALTER TABLE public.task_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view labels of accessible tasks"
+ON public.task_labels
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can label accessible tasks"
+ON public.task_labels
+FOR INSERT
+WITH CHECK (public.can_access_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can unlabel accessible tasks"
+ON public.task_labels
+FOR DELETE
+USING (public.can_access_task(task_id, auth.uid()));
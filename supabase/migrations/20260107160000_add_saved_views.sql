@@ -0,0 +1,36 @@
+-- Create saved_views table: named dashboard filter sets per user.
+-- query holds the dashboard URL query string (e.g. "due=overdue&priority=high").
+CREATE TABLE public.saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  query TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable RLS on saved_views
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved views"
+ON public.saved_views
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved views"
+ON public.saved_views
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved views"
+ON public.saved_views
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved views"
+ON public.saved_views
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Enable realtime so the navigation picks up views saved from the dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.saved_views;
@@ -0,0 +1,118 @@
+-- Keep a copy of every deleted task with its 'deleted' history entry, so undoing a delete
+-- puts back the row as it was (position on the board, who assigned it, when it was created)
+-- instead of whatever the client still has.
+CREATE OR REPLACE FUNCTION public.log_task_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _old jsonb;
+  _new jsonb;
+  _field text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action)
+    VALUES (NEW.id, _actor, 'created');
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.task_history (task_id, changed_by, action, old_value)
+    VALUES (OLD.id, _actor, 'deleted', to_jsonb(OLD)::text);
+    RETURN OLD;
+  END IF;
+
+  _old := to_jsonb(OLD);
+  _new := to_jsonb(NEW);
+
+  FOR _field IN SELECT jsonb_object_keys(_new) LOOP
+    -- Skip bookkeeping columns that change without user intent
+    CONTINUE WHEN _field IN ('id', 'created_at', 'updated_at', 'reminder_sent', 'board_position');
+
+    IF (_old -> _field) IS DISTINCT FROM (_new -> _field) THEN
+      INSERT INTO public.task_history (task_id, changed_by, action, field, old_value, new_value)
+      VALUES (NEW.id, _actor, 'updated', _field, _old ->> _field, _new ->> _field);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The task as it was when the current user deleted it. Only whoever deleted a task can undo it.
+CREATE OR REPLACE FUNCTION public.get_deleted_task(_task_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.old_value::jsonb
+  FROM public.task_history h
+  WHERE h.task_id = _task_id
+    AND h.action = 'deleted'
+    AND h.changed_by = auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = _task_id)
+  ORDER BY h.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Undo a delete: every task comes back with its subtasks, labels and dependencies, all or nothing.
+-- The task rows come from the copies kept above, what was attached to them from the client
+-- (deleting a task removes those). Each element of _tasks looks like
+-- { id, subtasks: [{ id, title, is_completed, position }], label_ids, blocker_ids, dependent_ids }.
+-- Runs with the caller's permissions, so only what they could create themselves is put back.
+CREATE OR REPLACE FUNCTION public.restore_tasks(_tasks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item jsonb;
+  _row jsonb;
+  _restored_ids uuid[];
+BEGIN
+  SELECT array_agg((item->>'id')::uuid) INTO _restored_ids
+  FROM jsonb_array_elements(_tasks) AS item;
+
+  FOR _item IN SELECT jsonb_array_elements(_tasks) LOOP
+    _row := public.get_deleted_task((_item->>'id')::uuid);
+    IF _row IS NULL THEN
+      RAISE EXCEPTION 'Task % can no longer be restored', _item->>'id' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_record(NULL::public.tasks, _row);
+  END LOOP;
+
+  -- Attached rows go in once every task is back, so links between restored tasks resolve
+  INSERT INTO public.task_subtasks (id, task_id, title, is_completed, position)
+  SELECT s.id, (item->>'id')::uuid, s.title, s.is_completed, s.position
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_to_recordset(item->'subtasks') AS s(id uuid, title text, is_completed boolean, position integer);
+
+  -- Labels and blockers deleted in the meantime are left out
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT (item->>'id')::uuid, l.label_id::uuid
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'label_ids') AS l(label_id)
+  WHERE EXISTS (SELECT 1 FROM public.labels WHERE id = l.label_id::uuid);
+
+  INSERT INTO public.task_dependencies (task_id, depends_on_id, created_by)
+  SELECT (item->>'id')::uuid, b.depends_on_id::uuid, auth.uid()
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'blocker_ids') AS b(depends_on_id)
+  WHERE EXISTS (SELECT 1 FROM public.tasks WHERE id = b.depends_on_id::uuid);
+
+  -- Links between two restored tasks are already covered by the blocked task's own blockers
+  INSERT INTO public.task_dependencies (task_id, depends_on_id, created_by)
+  SELECT d.task_id::uuid, (item->>'id')::uuid, auth.uid()
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'dependent_ids') AS d(task_id)
+  WHERE d.task_id::uuid <> ALL (_restored_ids)
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = d.task_id::uuid);
+END;
+$$;
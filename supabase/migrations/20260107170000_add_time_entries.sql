@@ -0,0 +1,64 @@
+-- Create time_entries table: time a user spent on a task.
+-- Running timers have no ended_at yet; manual entries are inserted with both ends set.
+CREATE TABLE public.time_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  is_manual BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+CREATE INDEX time_entries_task_id_idx ON public.time_entries (task_id);
+CREATE INDEX time_entries_user_started_idx ON public.time_entries (user_id, started_at);
+
+-- A user can only have one timer running at a time
+CREATE UNIQUE INDEX time_entries_one_running_per_user_idx
+ON public.time_entries (user_id)
+WHERE ended_at IS NULL;
+
+-- Enable RLS on time_entries
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view time logged on accessible tasks"
+ON public.time_entries
+FOR SELECT
+USING (
+  auth.uid() = user_id OR
+  public.can_access_task(task_id, auth.uid())
+);
+
+CREATE POLICY "Users can log their own time on accessible tasks"
+ON public.time_entries
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  public.can_access_task(task_id, auth.uid())
+);
+
+-- Admins can correct entries on tasks they can see, but not on private ones
+CREATE POLICY "Users can update their own time entries"
+ON public.time_entries
+FOR UPDATE
+USING (
+  auth.uid() = user_id OR
+  (has_role(auth.uid(), 'admin'::app_role) AND public.can_access_task(task_id, auth.uid()))
+)
+WITH CHECK (
+  (auth.uid() = user_id AND public.can_access_task(task_id, auth.uid())) OR
+  (has_role(auth.uid(), 'admin'::app_role) AND public.can_access_task(task_id, auth.uid()))
+);
+
+CREATE POLICY "Users can delete their own time entries"
+ON public.time_entries
+FOR DELETE
+USING (
+  auth.uid() = user_id OR
+  (has_role(auth.uid(), 'admin'::app_role) AND public.can_access_task(task_id, auth.uid()))
+);
+
+-- Enable realtime so running timers show up in every open dialog
+ALTER PUBLICATION supabase_realtime ADD TABLE public.time_entries;
@@ -0,0 +1,8 @@
+-- Add size estimates to tasks. Teams can estimate in hours, story points or both;
+-- both are optional so existing tasks stay unestimated.
+ALTER TABLE public.tasks
+ADD COLUMN estimate_hours NUMERIC(6,2) CHECK (estimate_hours IS NULL OR estimate_hours > 0),
+ADD COLUMN story_points SMALLINT CHECK (story_points IS NULL OR story_points >= 0);
+
+-- Open work per assignee is summed for capacity planning
+CREATE INDEX tasks_user_id_status_idx ON public.tasks (user_id, status);
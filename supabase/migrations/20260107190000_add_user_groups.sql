@@ -0,0 +1,254 @@
+-- Create user_groups table: named teams tasks can be assigned to
+CREATE TABLE public.user_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  description TEXT,
+  -- Last member picked by round-robin assignment; the next one follows in join order
+  last_assigned_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX user_groups_name_key ON public.user_groups (lower(trim(name)));
+
+CREATE TABLE public.user_group_members (
+  group_id UUID NOT NULL REFERENCES public.user_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX user_group_members_user_id_idx ON public.user_group_members (user_id);
+
+-- Check group membership without going through RLS
+CREATE OR REPLACE FUNCTION public.is_group_member(_group_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_group_members
+    WHERE group_id = _group_id AND user_id = _user_id
+  );
+$$;
+
+-- Enable RLS on groups
+ALTER TABLE public.user_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view groups"
+ON public.user_groups
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage groups"
+ON public.user_groups
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view group members"
+ON public.user_group_members
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage group members"
+ON public.user_group_members
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Pooled tasks: while pool_group_id is set the task is unclaimed and any member of
+-- that group can pick it up. user_id stays with the creator until someone claims it.
+ALTER TABLE public.tasks
+ADD COLUMN pool_group_id UUID REFERENCES public.user_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX tasks_pool_group_id_idx ON public.tasks (pool_group_id) WHERE pool_group_id IS NOT NULL;
+
+CREATE POLICY "Group members can view pooled tasks"
+ON public.tasks
+FOR SELECT
+USING (
+  pool_group_id IS NOT NULL AND
+  is_private = false AND
+  public.is_group_member(pool_group_id, auth.uid())
+);
+
+-- Members need to read subtasks, comments and labels of tasks they might claim
+CREATE OR REPLACE FUNCTION public.can_access_task(_task_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    WHERE t.id = _task_id
+      AND (
+        t.user_id = _user_id
+        OR (public.has_role(_user_id, 'admin'::app_role) AND t.is_private = false)
+        OR (t.pool_group_id IS NOT NULL AND t.is_private = false AND public.is_group_member(t.pool_group_id, _user_id))
+      )
+  );
+$$;
+
+-- First to claim wins: the row is only updated while it is still in the pool
+CREATE OR REPLACE FUNCTION public.claim_task(_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _claimed_id uuid;
+BEGIN
+  UPDATE public.tasks
+  SET user_id = auth.uid(), pool_group_id = NULL
+  WHERE id = _task_id
+    AND pool_group_id IS NOT NULL
+    AND public.is_group_member(pool_group_id, auth.uid())
+  RETURNING id INTO _claimed_id;
+
+  IF _claimed_id IS NULL THEN
+    RAISE EXCEPTION 'Task has already been claimed' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN _claimed_id;
+END;
+$$;
+
+-- Pick the member after the last one assigned, wrapping around, and remember the choice.
+-- Only called from create_assigned_tasks, so the rotation only moves when a task is created.
+CREATE OR REPLACE FUNCTION public.next_round_robin_assignee(_group_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last uuid;
+  _next uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can assign tasks' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the group so concurrent assignments don't pick the same member
+  SELECT last_assigned_user_id INTO _last
+  FROM public.user_groups
+  WHERE id = _group_id
+  FOR UPDATE;
+
+  WITH ordered AS (
+    SELECT user_id, row_number() OVER (ORDER BY created_at, user_id) AS position
+    FROM public.user_group_members
+    WHERE group_id = _group_id
+  )
+  SELECT o.user_id INTO _next
+  FROM ordered o
+  ORDER BY
+    o.position <= COALESCE((SELECT position FROM ordered WHERE user_id = _last), 0),
+    o.position
+  LIMIT 1;
+
+  IF _next IS NULL THEN
+    RAISE EXCEPTION 'Group has no members' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.user_groups SET last_assigned_user_id = _next WHERE id = _group_id;
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_round_robin_assignee(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Create one task per assignee together with its series, labels and checklist, all or nothing.
+-- _task holds the task fields (title, description, priority, status, is_private, deadline,
+-- estimate_hours, story_points, pool_group_id, recurrence_rule). With _round_robin_group_id
+-- set, the assignee is the next member in that group's rotation instead of _assignee_ids.
+-- Runs as the owner so checklist items can be added to private tasks of other users.
+CREATE OR REPLACE FUNCTION public.create_assigned_tasks(
+  _task jsonb,
+  _assignee_ids uuid[],
+  _round_robin_group_id uuid DEFAULT NULL,
+  _label_ids uuid[] DEFAULT '{}',
+  _checklist text[] DEFAULT '{}'
+)
+RETURNS TABLE (id uuid, user_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignees uuid[] := _assignee_ids;
+  _assignee uuid;
+  _series_id uuid;
+  _task_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can assign tasks' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _round_robin_group_id IS NOT NULL THEN
+    _assignees := ARRAY[public.next_round_robin_assignee(_round_robin_group_id)];
+  END IF;
+
+  FOREACH _assignee IN ARRAY _assignees LOOP
+    -- Each assignee gets their own series so occurrences are generated per user
+    _series_id := NULL;
+    IF _task->>'recurrence_rule' IS NOT NULL THEN
+      INSERT INTO public.task_recurrences (user_id, created_by, rule, title, description, priority, is_private)
+      VALUES (
+        _assignee,
+        auth.uid(),
+        _task->>'recurrence_rule',
+        _task->>'title',
+        NULLIF(_task->>'description', ''),
+        COALESCE(_task->>'priority', 'medium'),
+        COALESCE((_task->>'is_private')::boolean, false)
+      )
+      RETURNING task_recurrences.id INTO _series_id;
+    END IF;
+
+    INSERT INTO public.tasks (
+      title, description, priority, status, is_private, deadline,
+      estimate_hours, story_points, user_id, recurrence_id, pool_group_id
+    )
+    VALUES (
+      _task->>'title',
+      _task->>'description',
+      COALESCE(_task->>'priority', 'medium'),
+      COALESCE(_task->>'status', 'pending'),
+      COALESCE((_task->>'is_private')::boolean, false),
+      (_task->>'deadline')::timestamptz,
+      (_task->>'estimate_hours')::numeric,
+      (_task->>'story_points')::smallint,
+      _assignee,
+      _series_id,
+      (_task->>'pool_group_id')::uuid
+    )
+    RETURNING tasks.id INTO _task_id;
+
+    INSERT INTO public.task_labels (task_id, label_id)
+    SELECT _task_id, label_id FROM unnest(_label_ids) AS label_id;
+
+    INSERT INTO public.task_subtasks (task_id, title, position)
+    SELECT _task_id, item.title, (item.ordinality - 1)::integer
+    FROM unnest(_checklist) WITH ORDINALITY AS item(title, ordinality);
+
+    id := _task_id;
+    user_id := _assignee;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Enable realtime so the claimable pool updates as soon as someone claims a task
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_group_members;
@@ -0,0 +1,341 @@
+-- Create task_participants table: people involved in a task besides its owner (tasks.user_id).
+-- Co-assignees share the work and can edit the task, watchers only follow along.
+CREATE TABLE public.task_participants (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('assignee', 'watcher')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+CREATE INDEX task_participants_user_id_idx ON public.task_participants (user_id);
+
+-- Check participation without going through RLS; _role NULL matches either role
+CREATE OR REPLACE FUNCTION public.is_task_participant(_task_id uuid, _user_id uuid, _role text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.task_participants
+    WHERE task_id = _task_id
+      AND user_id = _user_id
+      AND (_role IS NULL OR role = _role)
+  );
+$$;
+
+-- Participants were explicitly added, so they see the task even when it is private
+CREATE POLICY "Participants can view their tasks"
+ON public.tasks
+FOR SELECT
+USING (public.is_task_participant(id, auth.uid()));
+
+CREATE POLICY "Co-assignees can update their tasks"
+ON public.tasks
+FOR UPDATE
+USING (public.is_task_participant(id, auth.uid(), 'assignee'))
+WITH CHECK (public.is_task_participant(id, auth.uid(), 'assignee'));
+
+-- Co-assignees move the work along; what the task is and who owns it stays with the owner and admins
+CREATE OR REPLACE FUNCTION public.restrict_co_assignee_task_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+    AND NOT has_role(auth.uid(), 'admin'::app_role)
+    AND public.is_task_participant(OLD.id, auth.uid(), 'assignee')
+    AND to_jsonb(NEW) - ARRAY['status', 'board_position', 'updated_at']
+      IS DISTINCT FROM to_jsonb(OLD) - ARRAY['status', 'board_position', 'updated_at']
+  THEN
+    RAISE EXCEPTION 'Co-assignees can only change the status of a task' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_co_assignee_task_update
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_co_assignee_task_update();
+
+-- Participants can see the task and everything attached to it
+CREATE OR REPLACE FUNCTION public.can_access_task(_task_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    WHERE t.id = _task_id
+      AND (
+        t.user_id = _user_id
+        OR (public.has_role(_user_id, 'admin'::app_role) AND t.is_private = false)
+        OR (t.pool_group_id IS NOT NULL AND t.is_private = false AND public.is_group_member(t.pool_group_id, _user_id))
+        OR public.is_task_participant(t.id, _user_id)
+      )
+  );
+$$;
+
+-- Changing what is attached to a task (subtasks, labels, dependencies, comments) takes more
+-- than seeing it: the owner, admins on non-private tasks, and co-assignees. Watchers only follow along.
+CREATE OR REPLACE FUNCTION public.can_edit_task(_task_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    WHERE t.id = _task_id
+      AND (
+        t.user_id = _user_id
+        OR (public.has_role(_user_id, 'admin'::app_role) AND t.is_private = false)
+        OR public.is_task_participant(t.id, _user_id, 'assignee')
+      )
+  );
+$$;
+
+DROP POLICY "Users can create subtasks on accessible tasks" ON public.task_subtasks;
+DROP POLICY "Users can update subtasks on accessible tasks" ON public.task_subtasks;
+DROP POLICY "Users can delete subtasks on accessible tasks" ON public.task_subtasks;
+
+CREATE POLICY "Users can create subtasks on editable tasks"
+ON public.task_subtasks
+FOR INSERT
+WITH CHECK (public.can_edit_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can update subtasks on editable tasks"
+ON public.task_subtasks
+FOR UPDATE
+USING (public.can_edit_task(task_id, auth.uid()))
+WITH CHECK (public.can_edit_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can delete subtasks on editable tasks"
+ON public.task_subtasks
+FOR DELETE
+USING (public.can_edit_task(task_id, auth.uid()));
+
+DROP POLICY "Users can label accessible tasks" ON public.task_labels;
+DROP POLICY "Users can unlabel accessible tasks" ON public.task_labels;
+
+CREATE POLICY "Users can label editable tasks"
+ON public.task_labels
+FOR INSERT
+WITH CHECK (public.can_edit_task(task_id, auth.uid()));
+
+CREATE POLICY "Users can unlabel editable tasks"
+ON public.task_labels
+FOR DELETE
+USING (public.can_edit_task(task_id, auth.uid()));
+
+-- A task can be blocked by anything its editor can see
+DROP POLICY "Users can link accessible tasks" ON public.task_dependencies;
+DROP POLICY "Users can unlink dependencies of accessible tasks" ON public.task_dependencies;
+
+CREATE POLICY "Users can link editable tasks"
+ON public.task_dependencies
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  public.can_edit_task(task_id, auth.uid()) AND
+  public.can_access_task(depends_on_id, auth.uid())
+);
+
+CREATE POLICY "Users can unlink dependencies of editable tasks"
+ON public.task_dependencies
+FOR DELETE
+USING (public.can_edit_task(task_id, auth.uid()));
+
+DROP POLICY "Users can comment on accessible tasks" ON public.task_comments;
+
+CREATE POLICY "Users can comment on editable tasks"
+ON public.task_comments
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_edit_task(task_id, auth.uid()));
+
+-- Enable RLS on task_participants
+ALTER TABLE public.task_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view participants of accessible tasks"
+ON public.task_participants
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+-- The owner and admins decide who works on a task. Admins only for tasks they can see,
+-- so they cannot add themselves to someone's private task.
+CREATE POLICY "Task owners and admins can manage participants"
+ON public.task_participants
+FOR ALL
+USING (
+  public.can_access_task(task_id, auth.uid()) AND (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id AND t.user_id = auth.uid())
+  )
+)
+WITH CHECK (
+  public.can_access_task(task_id, auth.uid()) AND (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id AND t.user_id = auth.uid())
+  )
+);
+
+-- Anyone who can see a task may watch it, and anyone may step off a task
+CREATE POLICY "Users can watch accessible tasks"
+ON public.task_participants
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  role = 'watcher' AND
+  public.can_access_task(task_id, auth.uid())
+);
+
+CREATE POLICY "Users can remove themselves from tasks"
+ON public.task_participants
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Undoing a delete also puts back the task's co-assignees and watchers (_tasks[].participants)
+CREATE OR REPLACE FUNCTION public.restore_tasks(_tasks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item jsonb;
+  _row jsonb;
+  _restored_ids uuid[];
+BEGIN
+  SELECT array_agg((item->>'id')::uuid) INTO _restored_ids
+  FROM jsonb_array_elements(_tasks) AS item;
+
+  FOR _item IN SELECT jsonb_array_elements(_tasks) LOOP
+    _row := public.get_deleted_task((_item->>'id')::uuid);
+    IF _row IS NULL THEN
+      RAISE EXCEPTION 'Task % can no longer be restored', _item->>'id' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_record(NULL::public.tasks, _row);
+  END LOOP;
+
+  -- Attached rows go in once every task is back, so links between restored tasks resolve
+  INSERT INTO public.task_subtasks (id, task_id, title, is_completed, position)
+  SELECT s.id, (item->>'id')::uuid, s.title, s.is_completed, s.position
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_to_recordset(item->'subtasks') AS s(id uuid, title text, is_completed boolean, position integer);
+
+  -- Labels and blockers deleted in the meantime are left out
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT (item->>'id')::uuid, l.label_id::uuid
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'label_ids') AS l(label_id)
+  WHERE EXISTS (SELECT 1 FROM public.labels WHERE id = l.label_id::uuid);
+
+  INSERT INTO public.task_dependencies (task_id, depends_on_id, created_by)
+  SELECT (item->>'id')::uuid, b.depends_on_id::uuid, auth.uid()
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'blocker_ids') AS b(depends_on_id)
+  WHERE EXISTS (SELECT 1 FROM public.tasks WHERE id = b.depends_on_id::uuid);
+
+  -- Links between two restored tasks are already covered by the blocked task's own blockers
+  INSERT INTO public.task_dependencies (task_id, depends_on_id, created_by)
+  SELECT d.task_id::uuid, (item->>'id')::uuid, auth.uid()
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_array_elements_text(item->'dependent_ids') AS d(task_id)
+  WHERE d.task_id::uuid <> ALL (_restored_ids)
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = d.task_id::uuid);
+
+  INSERT INTO public.task_participants (task_id, user_id, role)
+  SELECT (item->>'id')::uuid, p.user_id, p.role
+  FROM jsonb_array_elements(_tasks) AS item,
+    jsonb_to_recordset(item->'participants') AS p(user_id uuid, role text);
+END;
+$$;
+
+-- Tell people when someone else adds them to a task or changes their role on it
+CREATE OR REPLACE FUNCTION public.notify_task_participant_added()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT DISTINCT FROM auth.uid() OR (TG_OP = 'UPDATE' AND NEW.role = OLD.role) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, task_id)
+  SELECT
+    NEW.user_id,
+    CASE WHEN NEW.role = 'assignee' THEN 'New Task Assigned' ELSE 'Watching Task' END,
+    format(
+      'You were added as %s on "%s"',
+      CASE WHEN NEW.role = 'assignee' THEN 'co-assignee' ELSE 'watcher' END,
+      t.title
+    ),
+    CASE WHEN NEW.role = 'assignee' THEN 'task_assigned' ELSE 'task_watch' END,
+    t.id
+  FROM public.tasks t
+  WHERE t.id = NEW.task_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_participant_added
+  AFTER INSERT OR UPDATE OF role ON public.task_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_participant_added();
+
+-- Let participants know when a task they are on changes status or deadline.
+-- The person making the change is not notified about their own edit.
+CREATE OR REPLACE FUNCTION public.notify_task_participants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message text;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    _message := format(
+      '"%s" moved to %s',
+      NEW.title,
+      COALESCE((SELECT label FROM public.workflow_statuses WHERE key = NEW.status), NEW.status)
+    );
+  ELSIF NEW.deadline IS NULL THEN
+    _message := format('The deadline of "%s" was removed', NEW.title);
+  ELSE
+    _message := format('The deadline of "%s" was changed', NEW.title);
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, task_id)
+  SELECT p.user_id, 'Task Updated', _message, 'task_watch', NEW.id
+  FROM public.task_participants p
+  WHERE p.task_id = NEW.id
+    AND p.user_id <> NEW.user_id
+    AND p.user_id IS DISTINCT FROM auth.uid();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_task_participants
+  AFTER UPDATE OF status, deadline ON public.tasks
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status OR NEW.deadline IS DISTINCT FROM OLD.deadline)
+  EXECUTE FUNCTION public.notify_task_participants();
+
+-- Enable realtime for task participants
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_participants;
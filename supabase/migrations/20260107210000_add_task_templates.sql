@@ -0,0 +1,40 @@
+-- Create task_templates table: reusable task blueprints (onboarding, release checklists, ...).
+-- deadline_offset_hours is relative to the moment the template is assigned, checklist
+-- items become subtasks of every task created from the template.
+CREATE TABLE public.task_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  title TEXT NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 200),
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  deadline_offset_hours INTEGER CHECK (deadline_offset_hours > 0),
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX task_templates_name_key ON public.task_templates (lower(trim(name)));
+
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS on task_templates
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task templates"
+ON public.task_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage task templates"
+ON public.task_templates
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Enable realtime so the template picker updates while admins edit templates
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_templates;
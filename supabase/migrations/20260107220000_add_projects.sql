@@ -0,0 +1,375 @@
+-- Create projects table: workspaces that group tasks, meetings and the people working on them
+CREATE TABLE public.projects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX projects_name_key ON public.projects (lower(trim(name)));
+
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.project_members (
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE INDEX project_members_user_id_idx ON public.project_members (user_id);
+
+-- Check project membership without going through RLS
+CREATE OR REPLACE FUNCTION public.is_project_member(_project_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_id = _project_id AND user_id = _user_id
+  );
+$$;
+
+-- Enable RLS on projects
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+
+-- Members only see the projects they belong to
+CREATE POLICY "Members can view their projects"
+ON public.projects
+FOR SELECT
+USING (public.is_project_member(id, auth.uid()) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage projects"
+ON public.projects
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Members can view members of their projects"
+ON public.project_members
+FOR SELECT
+USING (public.is_project_member(project_id, auth.uid()) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage project members"
+ON public.project_members
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Tasks and meetings without a project stay in the shared space.
+-- Deleting a project moves its tasks and meetings back there rather than losing them.
+ALTER TABLE public.tasks
+ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+ALTER TABLE public.meetings
+ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX tasks_project_id_idx ON public.tasks (project_id) WHERE project_id IS NOT NULL;
+CREATE INDEX meetings_project_id_idx ON public.meetings (project_id) WHERE project_id IS NOT NULL;
+
+CREATE POLICY "Project members can view project tasks"
+ON public.tasks
+FOR SELECT
+USING (
+  project_id IS NOT NULL AND
+  is_private = false AND
+  public.is_project_member(project_id, auth.uid())
+);
+
+-- Only members (and admins) can put work into a project
+CREATE POLICY "Tasks can only be added to own projects"
+ON public.tasks
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  project_id IS NULL OR
+  public.is_project_member(project_id, auth.uid()) OR
+  has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Meetings can only be added to own projects"
+ON public.meetings
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  project_id IS NULL OR
+  public.is_project_member(project_id, auth.uid()) OR
+  has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- Moving a task or meeting into a project has the same rule. It is only checked when the project
+-- changes, so people removed from a project can still finish their own work in it.
+CREATE OR REPLACE FUNCTION public.restrict_project_move()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    AND NEW.project_id IS NOT NULL
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_project_member(NEW.project_id, auth.uid())
+    AND NOT has_role(auth.uid(), 'admin'::app_role)
+  THEN
+    RAISE EXCEPTION 'Only members can move work into a project' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_task_project_move
+  BEFORE UPDATE OF project_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_project_move();
+
+CREATE TRIGGER restrict_meeting_project_move
+  BEFORE UPDATE OF project_id ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_project_move();
+
+-- Project members can open subtasks, comments and labels of shared project tasks
+CREATE OR REPLACE FUNCTION public.can_access_task(_task_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tasks t
+    WHERE t.id = _task_id
+      AND (
+        t.user_id = _user_id
+        OR (public.has_role(_user_id, 'admin'::app_role) AND t.is_private = false)
+        OR (t.pool_group_id IS NOT NULL AND t.is_private = false AND public.is_group_member(t.pool_group_id, _user_id))
+        OR public.is_task_participant(t.id, _user_id)
+        OR (t.project_id IS NOT NULL AND t.is_private = false AND public.is_project_member(t.project_id, _user_id))
+      )
+  );
+$$;
+
+-- Project members can open project meetings, their participants and minutes
+CREATE OR REPLACE FUNCTION public.can_access_meeting(_meeting_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.meetings m
+    WHERE m.id = _meeting_id
+      AND (
+        m.created_by = _user_id
+        OR (m.project_id IS NOT NULL AND public.is_project_member(m.project_id, _user_id))
+      )
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM public.meeting_participants mp
+    WHERE mp.meeting_id = _meeting_id
+      AND mp.user_id = _user_id
+  );
+$$;
+
+-- Keep recurring tasks in the project of the occurrence they follow
+CREATE OR REPLACE FUNCTION public.spawn_next_task_occurrence(_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _series public.task_recurrences%ROWTYPE;
+  _next timestamptz;
+  _new_id uuid;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+  IF NOT FOUND OR _task.recurrence_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _series FROM public.task_recurrences WHERE id = _task.recurrence_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only one upcoming occurrence per series at a time
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE recurrence_id = _series.id
+      AND id <> _task.id
+      AND deadline > coalesce(_task.deadline, _task.created_at)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  _next := public.next_task_occurrence(_series.rule, coalesce(_task.deadline, now()));
+  -- Skip occurrences that are already in the past
+  WHILE _next IS NOT NULL AND _next <= now() LOOP
+    _next := public.next_task_occurrence(_series.rule, _next);
+  END LOOP;
+
+  IF _next IS NULL THEN
+    UPDATE public.task_recurrences SET is_active = false WHERE id = _series.id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (user_id, title, description, priority, is_private, deadline, recurrence_id, project_id)
+  VALUES (_series.user_id, _series.title, _series.description, _series.priority, _series.is_private, _next, _series.id, _task.project_id)
+  RETURNING id INTO _new_id;
+
+  RETURN _new_id;
+END;
+$$;
+
+DROP FUNCTION public.next_round_robin_assignee(uuid);
+
+-- Inside a project the rotation skips group members who are not in it, without losing its place
+CREATE OR REPLACE FUNCTION public.next_round_robin_assignee(_group_id uuid, _project_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last uuid;
+  _next uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can assign tasks' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the group so concurrent assignments don't pick the same member
+  SELECT last_assigned_user_id INTO _last
+  FROM public.user_groups
+  WHERE id = _group_id
+  FOR UPDATE;
+
+  WITH ordered AS (
+    SELECT user_id, row_number() OVER (ORDER BY created_at, user_id) AS position
+    FROM public.user_group_members
+    WHERE group_id = _group_id
+  )
+  SELECT o.user_id INTO _next
+  FROM ordered o
+  WHERE _project_id IS NULL OR public.is_project_member(_project_id, o.user_id)
+  ORDER BY
+    o.position <= COALESCE((SELECT position FROM ordered WHERE user_id = _last), 0),
+    o.position
+  LIMIT 1;
+
+  IF _next IS NULL THEN
+    RAISE EXCEPTION 'Group has no members in this project' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.user_groups SET last_assigned_user_id = _next WHERE id = _group_id;
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_round_robin_assignee(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Assigned tasks are created in the project the admin is working in (_task->>'project_id'),
+-- and only for its members. Pooled tasks are held by the admin until a member claims them.
+CREATE OR REPLACE FUNCTION public.create_assigned_tasks(
+  _task jsonb,
+  _assignee_ids uuid[],
+  _round_robin_group_id uuid DEFAULT NULL,
+  _label_ids uuid[] DEFAULT '{}',
+  _checklist text[] DEFAULT '{}'
+)
+RETURNS TABLE (id uuid, user_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assignees uuid[] := _assignee_ids;
+  _assignee uuid;
+  _project_id uuid := (_task->>'project_id')::uuid;
+  _series_id uuid;
+  _task_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can assign tasks' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _round_robin_group_id IS NOT NULL THEN
+    _assignees := ARRAY[public.next_round_robin_assignee(_round_robin_group_id, _project_id)];
+  END IF;
+
+  IF _project_id IS NOT NULL AND _task->>'pool_group_id' IS NULL AND EXISTS (
+    SELECT 1 FROM unnest(_assignees) AS a(user_id)
+    WHERE NOT public.is_project_member(_project_id, a.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Tasks in a project can only be assigned to its members' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOREACH _assignee IN ARRAY _assignees LOOP
+    -- Each assignee gets their own series so occurrences are generated per user
+    _series_id := NULL;
+    IF _task->>'recurrence_rule' IS NOT NULL THEN
+      INSERT INTO public.task_recurrences (user_id, created_by, rule, title, description, priority, is_private)
+      VALUES (
+        _assignee,
+        auth.uid(),
+        _task->>'recurrence_rule',
+        _task->>'title',
+        NULLIF(_task->>'description', ''),
+        COALESCE(_task->>'priority', 'medium'),
+        COALESCE((_task->>'is_private')::boolean, false)
+      )
+      RETURNING task_recurrences.id INTO _series_id;
+    END IF;
+
+    INSERT INTO public.tasks (
+      title, description, priority, status, is_private, deadline,
+      estimate_hours, story_points, user_id, recurrence_id, pool_group_id, project_id
+    )
+    VALUES (
+      _task->>'title',
+      _task->>'description',
+      COALESCE(_task->>'priority', 'medium'),
+      COALESCE(_task->>'status', 'pending'),
+      COALESCE((_task->>'is_private')::boolean, false),
+      (_task->>'deadline')::timestamptz,
+      (_task->>'estimate_hours')::numeric,
+      (_task->>'story_points')::smallint,
+      _assignee,
+      _series_id,
+      (_task->>'pool_group_id')::uuid,
+      _project_id
+    )
+    RETURNING tasks.id INTO _task_id;
+
+    INSERT INTO public.task_labels (task_id, label_id)
+    SELECT _task_id, label_id FROM unnest(_label_ids) AS label_id;
+
+    INSERT INTO public.task_subtasks (task_id, title, position)
+    SELECT _task_id, item.title, (item.ordinality - 1)::integer
+    FROM unnest(_checklist) WITH ORDINALITY AS item(title, ordinality);
+
+    id := _task_id;
+    user_id := _assignee;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Enable realtime so the project switcher follows membership changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.projects;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_members;
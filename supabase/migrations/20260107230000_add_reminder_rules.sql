@@ -0,0 +1,159 @@
+-- Remember who handed a task out so overdue work can be escalated back to them.
+-- Self-created tasks end up with assigned_by = user_id and are never escalated.
+ALTER TABLE public.tasks
+ADD COLUMN assigned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Existing tasks were handed out by whoever created them, or by their owner when that is unknown
+ALTER TABLE public.tasks DISABLE TRIGGER log_task_changes;
+
+UPDATE public.tasks t
+SET assigned_by = COALESCE(
+  (
+    SELECT h.changed_by
+    FROM public.task_history h
+    WHERE h.task_id = t.id AND h.action = 'created'
+    ORDER BY h.created_at
+    LIMIT 1
+  ),
+  t.user_id
+);
+
+ALTER TABLE public.tasks ENABLE TRIGGER log_task_changes;
+
+-- Clients cannot choose who a task was assigned by: their inserts record the current user and
+-- changes are rejected. Database functions (current_user is not an API role there) may pass
+-- it explicitly, like recurring occurrences that are assigned by whoever set up the series.
+-- Undoing a delete (restore_tasks) keeps the value the task had when it was deleted.
+CREATE OR REPLACE FUNCTION public.set_task_assigned_by()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF current_user IN ('anon', 'authenticated')
+      AND NEW.assigned_by IS DISTINCT FROM (public.get_deleted_task(NEW.id) ->> 'assigned_by')::uuid
+    THEN
+      NEW.assigned_by := auth.uid();
+    END IF;
+    NEW.assigned_by := COALESCE(NEW.assigned_by, auth.uid(), NEW.user_id);
+  ELSIF NEW.assigned_by IS DISTINCT FROM OLD.assigned_by AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'assigned_by cannot be changed' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_assigned_by
+  BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_task_assigned_by();
+
+-- Configurable deadline reminder schedule.
+-- 'reminder' rules fire offset_minutes before the deadline (0 = at due time) and go to the assignee,
+-- 'escalation' rules fire offset_minutes after the deadline and go to the assigning user.
+CREATE TABLE public.reminder_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder', 'escalation')),
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes BETWEEN 0 AND 43200),
+  -- NULL applies the rule to every priority
+  priority TEXT CHECK (priority IN ('low', 'medium', 'high')),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX reminder_rules_unique_idx
+  ON public.reminder_rules (kind, offset_minutes, coalesce(priority, ''));
+
+-- Default schedule: a day before, an hour before, at due time, and escalate once overdue
+INSERT INTO public.reminder_rules (kind, offset_minutes) VALUES
+  ('reminder', 1440),
+  ('reminder', 60),
+  ('reminder', 0),
+  ('escalation', 0);
+
+-- One row per rule that fired for a task. The deadline is part of the key so
+-- moving a deadline re-arms its reminders while nothing is ever sent twice.
+CREATE TABLE public.task_reminders (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES public.reminder_rules(id) ON DELETE CASCADE,
+  deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, rule_id, deadline)
+);
+
+ALTER TABLE public.reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view reminder rules"
+ON public.reminder_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage reminder rules"
+ON public.reminder_rules
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Written by the check-deadlines function with the service role only
+CREATE POLICY "Users can view reminders of accessible tasks"
+ON public.task_reminders
+FOR SELECT
+USING (public.can_access_task(task_id, auth.uid()));
+
+-- Recurring occurrences are assigned by whoever set up the series
+CREATE OR REPLACE FUNCTION public.spawn_next_task_occurrence(_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks%ROWTYPE;
+  _series public.task_recurrences%ROWTYPE;
+  _next timestamptz;
+  _new_id uuid;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = _task_id;
+  IF NOT FOUND OR _task.recurrence_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _series FROM public.task_recurrences WHERE id = _task.recurrence_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only one upcoming occurrence per series at a time
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE recurrence_id = _series.id
+      AND id <> _task.id
+      AND deadline > coalesce(_task.deadline, _task.created_at)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  _next := public.next_task_occurrence(_series.rule, coalesce(_task.deadline, now()));
+  -- Skip occurrences that are already in the past
+  WHILE _next IS NOT NULL AND _next <= now() LOOP
+    _next := public.next_task_occurrence(_series.rule, _next);
+  END LOOP;
+
+  IF _next IS NULL THEN
+    UPDATE public.task_recurrences SET is_active = false WHERE id = _series.id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (user_id, title, description, priority, is_private, deadline, recurrence_id, project_id, assigned_by)
+  VALUES (_series.user_id, _series.title, _series.description, _series.priority, _series.is_private, _next, _series.id, _task.project_id, _series.created_by)
+  RETURNING id INTO _new_id;
+
+  RETURN _new_id;
+END;
+$$;
+
+COMMENT ON COLUMN public.tasks.reminder_sent IS 'Deprecated: reminders are tracked per rule and deadline in task_reminders';
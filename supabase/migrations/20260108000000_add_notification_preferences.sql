@@ -0,0 +1,127 @@
+-- Per-user notification preferences. Users without a row get every notification immediately.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Notification types the user never wants to receive
+  muted_types TEXT[] NOT NULL DEFAULT '{}',
+  -- Notifications arriving between start and end (local time) are delivered silently.
+  -- A start later than the end wraps around midnight, e.g. 22:00-07:00.
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  -- 'digest' keeps notifications silent in the app and collects them for the summary email
+  delivery TEXT NOT NULL DEFAULT 'immediate' CHECK (delivery IN ('immediate', 'digest')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Silent notifications still land in the bell but don't pop up a toast
+ALTER TABLE public.notifications
+ADD COLUMN is_silent BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.is_in_quiet_hours(_start time, _end time, _timezone text, _at timestamptz DEFAULT now())
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _local time;
+BEGIN
+  IF _start IS NULL OR _end IS NULL OR _start = _end THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    _local := (_at AT TIME ZONE _timezone)::time;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    -- Unknown timezone names fall back to UTC rather than failing the insert
+    _local := (_at AT TIME ZONE 'UTC')::time;
+  END;
+
+  IF _start < _end THEN
+    RETURN _local >= _start AND _local < _end;
+  END IF;
+  RETURN _local >= _start OR _local < _end;
+END;
+$$;
+
+-- Applied to every notification, whether it comes from the app, a trigger or an edge function
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _prefs public.notification_preferences%ROWTYPE;
+BEGIN
+  SELECT * INTO _prefs FROM public.notification_preferences WHERE user_id = NEW.user_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.type = ANY(_prefs.muted_types) THEN
+    RETURN NULL;
+  END IF;
+
+  IF _prefs.delivery = 'digest'
+    OR public.is_in_quiet_hours(_prefs.quiet_hours_start, _prefs.quiet_hours_end, _prefs.timezone) THEN
+    NEW.is_silent := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_notification_preferences
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_notification_preferences();
+
+-- Personal reminder lead times: a user's own reminder rules replace the team schedule
+-- for tasks assigned to them. Escalations stay team-wide.
+ALTER TABLE public.reminder_rules
+ADD COLUMN user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+ADD CONSTRAINT reminder_rules_personal_kind_check CHECK (user_id IS NULL OR kind = 'reminder');
+
+DROP INDEX public.reminder_rules_unique_idx;
+CREATE UNIQUE INDEX reminder_rules_unique_idx
+  ON public.reminder_rules (kind, offset_minutes, coalesce(priority, ''), coalesce(user_id::text, ''));
+
+DROP POLICY "Authenticated users can view reminder rules" ON public.reminder_rules;
+
+CREATE POLICY "Users can view team and own reminder rules"
+ON public.reminder_rules
+FOR SELECT
+TO authenticated
+USING (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Users can manage their own reminder rules"
+ON public.reminder_rules
+FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND kind = 'reminder');
@@ -0,0 +1,13 @@
+-- Email digests compiled by the send-digests function
+ALTER TABLE public.notification_preferences
+ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+ADD COLUMN last_digest_at TIMESTAMP WITH TIME ZONE;
+
+-- People who already chose digest delivery get one every day
+UPDATE public.notification_preferences
+SET digest_frequency = 'daily'
+WHERE delivery = 'digest';
+
+CREATE INDEX notification_preferences_digest_idx
+  ON public.notification_preferences (digest_frequency)
+  WHERE digest_frequency <> 'off';
@@ -0,0 +1,305 @@
+-- Group conversations and channels. Direct messages keep using receiver_id;
+-- everything else is posted to a conversation its members can read.
+-- Groups are invite-only. Channels can be tied to a team, project or meeting, and
+-- anyone in that scope may join; a channel without a scope is open to everyone.
+CREATE TABLE public.chat_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('group', 'channel')),
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  description TEXT,
+  group_id UUID REFERENCES public.user_groups(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  meeting_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT chat_conversations_scope_check CHECK (
+    num_nonnulls(group_id, project_id, meeting_id) = 0
+    OR (kind = 'channel' AND num_nonnulls(group_id, project_id, meeting_id) = 1)
+  )
+);
+
+CREATE INDEX chat_conversations_group_id_idx ON public.chat_conversations (group_id) WHERE group_id IS NOT NULL;
+CREATE INDEX chat_conversations_project_id_idx ON public.chat_conversations (project_id) WHERE project_id IS NOT NULL;
+CREATE INDEX chat_conversations_meeting_id_idx ON public.chat_conversations (meeting_id) WHERE meeting_id IS NOT NULL;
+
+CREATE TRIGGER update_chat_conversations_updated_at
+  BEFORE UPDATE ON public.chat_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- last_read_at is the member's read marker: everything posted after it is unread
+CREATE TABLE public.chat_conversation_members (
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX chat_conversation_members_user_id_idx ON public.chat_conversation_members (user_id);
+
+-- Conversation messages have no receiver. Join and leave events are stored as messages
+-- from the member concerned so they show up in the timeline.
+ALTER TABLE public.chat_messages
+ALTER COLUMN receiver_id DROP NOT NULL;
+
+ALTER TABLE public.chat_messages
+ADD COLUMN conversation_id UUID REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+ADD COLUMN event TEXT CHECK (event IN ('joined', 'left'));
+
+ALTER TABLE public.chat_messages
+ADD CONSTRAINT chat_messages_recipient_check CHECK (num_nonnulls(receiver_id, conversation_id) = 1);
+
+CREATE INDEX chat_messages_conversation_id_idx ON public.chat_messages (conversation_id, created_at)
+WHERE conversation_id IS NOT NULL;
+
+-- Check conversation membership without going through RLS
+CREATE OR REPLACE FUNCTION public.is_conversation_member(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_conversation_members
+    WHERE conversation_id = _conversation_id AND user_id = _user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_conversation_members
+    WHERE conversation_id = _conversation_id AND user_id = _user_id AND role = 'admin'
+  );
+$$;
+
+-- Channels are open to everyone in their team, project or meeting
+CREATE OR REPLACE FUNCTION public.can_join_conversation(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chat_conversations c
+    WHERE c.id = _conversation_id
+      AND c.kind = 'channel'
+      AND CASE
+        WHEN c.group_id IS NOT NULL THEN public.is_group_member(c.group_id, _user_id)
+        WHEN c.project_id IS NOT NULL THEN public.is_project_member(c.project_id, _user_id)
+        WHEN c.meeting_id IS NOT NULL THEN public.can_access_meeting(c.meeting_id, _user_id)
+        ELSE true
+      END
+  );
+$$;
+
+-- Direct messages are visible to sender and receiver, conversation messages to members
+CREATE OR REPLACE FUNCTION public.can_access_chat_message(_message_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chat_messages m
+    WHERE m.id = _message_id
+      AND (
+        m.sender_id = _user_id
+        OR m.receiver_id = _user_id
+        OR (m.conversation_id IS NOT NULL AND public.is_conversation_member(m.conversation_id, _user_id))
+      )
+  );
+$$;
+
+-- The creator becomes the first admin
+CREATE OR REPLACE FUNCTION public.add_conversation_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.chat_conversation_members (conversation_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'admin')
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_chat_conversation_creator
+  AFTER INSERT ON public.chat_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_conversation_creator();
+
+-- Post join and leave events, and hand the conversation to the longest-standing
+-- member when its last admin leaves
+CREATE OR REPLACE FUNCTION public.log_conversation_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.chat_messages (sender_id, conversation_id, event, message)
+    VALUES (NEW.user_id, NEW.conversation_id, 'joined', '');
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to record when the conversation or the profile itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM public.chat_conversations WHERE id = OLD.conversation_id)
+     OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.chat_messages (sender_id, conversation_id, event, message)
+  VALUES (OLD.user_id, OLD.conversation_id, 'left', '');
+
+  IF OLD.role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.chat_conversation_members
+    WHERE conversation_id = OLD.conversation_id AND role = 'admin'
+  ) THEN
+    UPDATE public.chat_conversation_members
+    SET role = 'admin'
+    WHERE conversation_id = OLD.conversation_id
+      AND user_id = (
+        SELECT user_id FROM public.chat_conversation_members
+        WHERE conversation_id = OLD.conversation_id
+        ORDER BY joined_at
+        LIMIT 1
+      );
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_chat_conversation_membership
+  AFTER INSERT OR DELETE ON public.chat_conversation_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_conversation_membership();
+
+-- Members may only move their own read marker, not change their role
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.chat_conversation_members
+  SET last_read_at = now()
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+$$;
+
+-- Enable RLS on conversations
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_conversation_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view conversations they belong to or can join"
+ON public.chat_conversations
+FOR SELECT
+USING (
+  created_by = auth.uid() OR
+  public.is_conversation_member(id, auth.uid()) OR
+  public.can_join_conversation(id, auth.uid())
+);
+
+-- Scoped channels can only be opened by people inside that scope
+CREATE POLICY "Users can create conversations"
+ON public.chat_conversations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid() AND
+  (group_id IS NULL OR public.is_group_member(group_id, auth.uid()) OR has_role(auth.uid(), 'admin'::app_role)) AND
+  (project_id IS NULL OR public.is_project_member(project_id, auth.uid()) OR has_role(auth.uid(), 'admin'::app_role)) AND
+  (meeting_id IS NULL OR public.can_access_meeting(meeting_id, auth.uid()))
+);
+
+CREATE POLICY "Conversation admins can update conversations"
+ON public.chat_conversations
+FOR UPDATE
+USING (public.is_conversation_admin(id, auth.uid()));
+
+CREATE POLICY "Conversation admins can delete conversations"
+ON public.chat_conversations
+FOR DELETE
+USING (public.is_conversation_admin(id, auth.uid()) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view members of conversations they can see"
+ON public.chat_conversation_members
+FOR SELECT
+USING (
+  public.is_conversation_member(conversation_id, auth.uid()) OR
+  public.can_join_conversation(conversation_id, auth.uid())
+);
+
+-- Anyone in scope can join a channel; conversation admins can add anyone
+CREATE POLICY "Users can join or be added to conversations"
+ON public.chat_conversation_members
+FOR INSERT
+WITH CHECK (
+  (user_id = auth.uid() AND role = 'member' AND public.can_join_conversation(conversation_id, auth.uid())) OR
+  public.is_conversation_admin(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Conversation admins can change member roles"
+ON public.chat_conversation_members
+FOR UPDATE
+USING (public.is_conversation_admin(conversation_id, auth.uid()));
+
+CREATE POLICY "Members can leave and admins can remove members"
+ON public.chat_conversation_members
+FOR DELETE
+USING (user_id = auth.uid() OR public.is_conversation_admin(conversation_id, auth.uid()));
+
+-- Conversation messages
+CREATE POLICY "Members can view conversation messages"
+ON public.chat_messages
+FOR SELECT
+USING (conversation_id IS NOT NULL AND public.is_conversation_member(conversation_id, auth.uid()));
+
+CREATE POLICY "Messages can only be posted to own conversations"
+ON public.chat_messages
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (
+  event IS NULL AND
+  (conversation_id IS NULL OR public.is_conversation_member(conversation_id, auth.uid()))
+);
+
+CREATE POLICY "Conversation admins can delete messages"
+ON public.chat_messages
+FOR DELETE
+USING (conversation_id IS NOT NULL AND public.is_conversation_admin(conversation_id, auth.uid()));
+
+-- Reactions follow message visibility for both direct and conversation messages
+DROP POLICY "Users can view reactions on their messages" ON public.message_reactions;
+DROP POLICY "Users can add reactions to messages they can see" ON public.message_reactions;
+
+CREATE POLICY "Users can view reactions on messages they can see"
+ON public.message_reactions FOR SELECT
+USING (public.can_access_chat_message(message_id, auth.uid()));
+
+CREATE POLICY "Users can add reactions to messages they can see"
+ON public.message_reactions FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_chat_message(message_id, auth.uid()));
+
+-- Enable realtime for conversations
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_conversation_members;
@@ -0,0 +1,77 @@
+-- Threaded replies: a reply points at the message that started its thread.
+-- Replying to a reply joins the same thread, so threads are only ever one level deep.
+ALTER TABLE public.chat_messages
+ADD COLUMN parent_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX chat_messages_parent_id_idx ON public.chat_messages (parent_id) WHERE parent_id IS NOT NULL;
+
+-- Point replies at the thread root and keep them in the chat they reply to
+CREATE OR REPLACE FUNCTION public.normalize_chat_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.chat_messages%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM public.chat_messages WHERE id = NEW.parent_id;
+
+  IF _parent.parent_id IS NOT NULL THEN
+    NEW.parent_id := _parent.parent_id;
+    SELECT * INTO _parent FROM public.chat_messages WHERE id = NEW.parent_id;
+  END IF;
+
+  IF _parent.id IS NULL OR _parent.event IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot reply to this message';
+  END IF;
+
+  IF _parent.conversation_id IS NOT NULL THEN
+    IF NEW.conversation_id IS DISTINCT FROM _parent.conversation_id THEN
+      RAISE EXCEPTION 'Replies must stay in the same conversation';
+    END IF;
+  ELSIF NEW.receiver_id IS NULL
+     OR LEAST(NEW.sender_id, NEW.receiver_id) <> LEAST(_parent.sender_id, _parent.receiver_id)
+     OR GREATEST(NEW.sender_id, NEW.receiver_id) <> GREATEST(_parent.sender_id, _parent.receiver_id) THEN
+    RAISE EXCEPTION 'Replies must stay in the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_chat_message_reply
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_chat_reply();
+
+-- Per-user read marker for each thread; replies from others after it are unread
+CREATE TABLE public.chat_thread_reads (
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX chat_thread_reads_user_id_idx ON public.chat_thread_reads (user_id);
+
+ALTER TABLE public.chat_thread_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own thread read markers"
+ON public.chat_thread_reads
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark threads they can see as read"
+ON public.chat_thread_reads
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_chat_message(message_id, auth.uid()));
+
+CREATE POLICY "Users can update their own thread read markers"
+ON public.chat_thread_reads
+FOR UPDATE
+USING (auth.uid() = user_id);
@@ -0,0 +1,74 @@
+-- Message editing: senders can change the text of their messages after sending.
+-- Every edit keeps the previous text as a revision, and edited_at marks the message as edited.
+ALTER TABLE public.chat_messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.chat_message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  -- The text as it was before the edit
+  message TEXT NOT NULL,
+  -- When that text was first shown: the send time, or the time of the previous edit
+  written_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX chat_message_revisions_message_id_idx ON public.chat_message_revisions (message_id, created_at);
+
+ALTER TABLE public.chat_message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below, so there are no insert/update/delete policies.
+CREATE POLICY "Users can view revisions of messages they can see"
+ON public.chat_message_revisions
+FOR SELECT
+USING (public.can_access_chat_message(message_id, auth.uid()));
+
+-- Receivers may only mark messages as read; only the sender may change the text.
+-- Nothing else about a message (who it is for, where it was posted, when) can be changed.
+CREATE OR REPLACE FUNCTION public.log_chat_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF to_jsonb(NEW) - ARRAY['message', 'is_read'] IS DISTINCT FROM to_jsonb(OLD) - ARRAY['message', 'is_read'] THEN
+      RAISE EXCEPTION 'Only the text of a message can be edited' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.is_read IS DISTINCT FROM OLD.is_read AND auth.uid() IS DISTINCT FROM OLD.receiver_id THEN
+      RAISE EXCEPTION 'Only the receiver can mark a message as read' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF NEW.message IS NOT DISTINCT FROM OLD.message THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.event IS NOT NULL THEN
+    RAISE EXCEPTION 'Conversation events cannot be edited';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the sender can edit a message';
+  END IF;
+
+  INSERT INTO public.chat_message_revisions (message_id, message, written_at)
+  VALUES (OLD.id, OLD.message, COALESCE(OLD.edited_at, OLD.created_at));
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_chat_message_edit
+  BEFORE UPDATE ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_chat_message_edit();
+
+CREATE POLICY "Users can edit their own sent messages"
+ON public.chat_messages
+FOR UPDATE
+USING (auth.uid() = sender_id)
+WITH CHECK (auth.uid() = sender_id);
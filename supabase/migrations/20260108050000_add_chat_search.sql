@@ -0,0 +1,63 @@
+-- Full-text search across every chat the user can see.
+-- Message text, attachment names and the words in shared links are indexed with different weights.
+CREATE OR REPLACE FUNCTION public.chat_message_search_vector(_message text, _file_name text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(_message, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(_file_name, '')), 'B') ||
+    -- Links are split into the words of their host and path, so "github" finds https://github.com/...
+    setweight(to_tsvector('simple', coalesce((
+      SELECT string_agg(regexp_replace(m[1], '^https?://(www\.)?|[^[:alnum:]]+', ' ', 'g'), ' ')
+      FROM regexp_matches(coalesce(_message, ''), '(https?://[^\s]+)', 'g') AS m
+    ), '')), 'C')
+$$;
+
+CREATE INDEX chat_messages_search_idx ON public.chat_messages
+USING GIN (public.chat_message_search_vector(message, file_name));
+
+-- Every word of the query has to match, and the last one may be typed only partially.
+-- Runs with the caller's permissions, so only messages they can already read are returned.
+CREATE OR REPLACE FUNCTION public.search_chat_messages(_query text, _limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  receiver_id uuid,
+  conversation_id uuid,
+  parent_id uuid,
+  message text,
+  file_name text,
+  file_type text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(lower(_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  )
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.conversation_id,
+    m.parent_id,
+    m.message,
+    m.file_name,
+    m.file_type,
+    m.created_at,
+    ts_rank(public.chat_message_search_vector(m.message, m.file_name), q.query) AS rank
+  FROM public.chat_messages m, q
+  WHERE public.chat_message_search_vector(m.message, m.file_name) @@ q.query
+    AND m.event IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+  ORDER BY rank DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+$$;
@@ -0,0 +1,120 @@
+-- Chat history is loaded a page at a time, newest first, and the sidebar lists are built
+-- in one query each instead of an unread count and a last-message lookup per row.
+CREATE INDEX chat_messages_direct_idx ON public.chat_messages (sender_id, receiver_id, created_at DESC)
+WHERE conversation_id IS NULL;
+
+CREATE INDEX chat_messages_unread_idx ON public.chat_messages (receiver_id, sender_id)
+WHERE NOT is_read;
+
+-- Everyone the current user can message, with their unread count and the last message exchanged.
+-- Runs with the caller's permissions, so only messages they can already read are counted.
+CREATE OR REPLACE FUNCTION public.get_chat_users()
+RETURNS TABLE (
+  id uuid,
+  email text,
+  full_name text,
+  avatar_url text,
+  unread_count integer,
+  last_message text,
+  last_message_at timestamptz,
+  last_message_is_read boolean,
+  last_message_sender_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH direct AS (
+    SELECT
+      CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END AS other_id,
+      m.sender_id,
+      m.message,
+      m.created_at,
+      m.is_read
+    FROM public.chat_messages m
+    WHERE m.conversation_id IS NULL
+      AND (m.sender_id = auth.uid() OR m.receiver_id = auth.uid())
+  ),
+  last_messages AS (
+    SELECT DISTINCT ON (other_id) *
+    FROM direct
+    ORDER BY other_id, created_at DESC
+  ),
+  unread AS (
+    SELECT m.sender_id AS other_id, count(*)::integer AS unread_count
+    FROM public.chat_messages m
+    WHERE m.receiver_id = auth.uid() AND NOT m.is_read
+    GROUP BY m.sender_id
+  )
+  SELECT
+    p.id,
+    p.email,
+    p.full_name,
+    p.avatar_url,
+    coalesce(u.unread_count, 0),
+    l.message,
+    l.created_at,
+    coalesce(l.is_read, false),
+    l.sender_id
+  FROM public.profiles p
+  LEFT JOIN last_messages l ON l.other_id = p.id
+  LEFT JOIN unread u ON u.other_id = p.id
+  WHERE p.id <> auth.uid()
+  ORDER BY l.created_at DESC NULLS LAST, coalesce(u.unread_count, 0) DESC, coalesce(p.full_name, p.email)
+$$;
+
+-- Groups and channels the current user belongs to or can join. Unread counts and the
+-- last message are only filled in for joined ones.
+CREATE OR REPLACE FUNCTION public.get_chat_conversations()
+RETURNS TABLE (
+  id uuid,
+  kind text,
+  name text,
+  description text,
+  group_id uuid,
+  project_id uuid,
+  meeting_id uuid,
+  created_by uuid,
+  role text,
+  member_count integer,
+  unread_count integer,
+  last_message text,
+  last_message_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.kind,
+    c.name,
+    c.description,
+    c.group_id,
+    c.project_id,
+    c.meeting_id,
+    c.created_by,
+    me.role,
+    (SELECT count(*)::integer FROM public.chat_conversation_members cm WHERE cm.conversation_id = c.id),
+    CASE WHEN me.user_id IS NULL THEN 0 ELSE (
+      SELECT count(*)::integer
+      FROM public.chat_messages m
+      WHERE m.conversation_id = c.id
+        AND m.sender_id <> auth.uid()
+        AND m.event IS NULL
+        AND m.created_at > me.last_read_at
+    ) END,
+    l.message,
+    l.created_at
+  FROM public.chat_conversations c
+  LEFT JOIN public.chat_conversation_members me ON me.conversation_id = c.id AND me.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.message, m.created_at
+    FROM public.chat_messages m
+    WHERE me.user_id IS NOT NULL
+      AND m.conversation_id = c.id
+      AND m.event IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) l ON true
+$$;